@@ -2,7 +2,7 @@
 "use client";
 
 import { Toaster } from "react-hot-toast";
-import { AuthProvider } from "./supermarket/[id]/context/AuthContext";
+import { AuthProvider } from "./context/AuthContext";
 
 export default function Providers({ children }: { children: React.ReactNode }) {
   return (
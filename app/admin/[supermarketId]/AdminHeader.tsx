@@ -0,0 +1,58 @@
+// app/admin/[supermarketId]/AdminHeader.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { supabase } from "@/lib/supabase/browser";
+
+const SECTIONS = [
+  { path: "orders", label: "Orders" },
+  { path: "products", label: "Products" },
+  { path: "requests", label: "Requests" },
+];
+
+// Shared header for the store admin pages of one supermarket
+export default function AdminHeader({ supermarketId }: { supermarketId: string }) {
+  const pathname = usePathname();
+  const [supermarketName, setSupermarketName] = useState<string>("");
+
+  useEffect(() => {
+    supabase
+      .from("supermarkets")
+      .select("name")
+      .eq("id", supermarketId)
+      .maybeSingle()
+      .then(({ data }) => setSupermarketName(data?.name ?? ""));
+  }, [supermarketId]);
+
+  return (
+    <header className="flex flex-wrap items-center justify-between gap-3 px-4 py-3 bg-white shadow-md sticky top-0 z-30">
+      <div>
+        <div className="text-2xl font-extrabold text-transparent bg-clip-text bg-gradient-to-r from-blue-600 to-red-500">
+          SnapCart Admin
+        </div>
+        <p className="text-sm text-gray-500">{supermarketName || "Supermarket"}</p>
+      </div>
+
+      <nav className="flex items-center gap-2">
+        {SECTIONS.map(({ path, label }) => {
+          const href = `/admin/${supermarketId}/${path}`;
+          const active = pathname.startsWith(href);
+          return (
+            <Link
+              key={path}
+              href={href}
+              className={`px-3 py-2 rounded text-sm ${active ? "bg-blue-600 text-white" : "bg-gray-100 hover:bg-gray-200"}`}
+            >
+              {label}
+            </Link>
+          );
+        })}
+        <Link href={`/supermarket/${supermarketId}`} className="px-3 py-2 rounded bg-gray-100 hover:bg-gray-200 text-sm">
+          View shop
+        </Link>
+      </nav>
+    </header>
+  );
+}
@@ -0,0 +1,91 @@
+// app/admin/[supermarketId]/orders/OrderDetail.tsx
+"use client";
+
+import { X } from "lucide-react";
+import { OrderStatusBadge, OrderTimeline } from "@/app/components/OrderStatus";
+import { ORDER_STATUS_LABELS } from "@/lib/orderStatus";
+import { nextFulfilmentStatus, pickingProgress, type FulfilmentOrder, type FulfilmentTarget } from "@/lib/fulfilment";
+
+interface OrderDetailProps {
+  order: FulfilmentOrder;
+  busy: boolean;
+  onPick: (itemId: string, picked: boolean) => void;
+  onMove: (status: FulfilmentTarget) => void;
+  onClose: () => void;
+}
+
+// Side panel with the picking checklist and history of one order
+export default function OrderDetail({ order, busy, onPick, onMove, onClose }: OrderDetailProps) {
+  const next = nextFulfilmentStatus(order.status);
+  const progress = pickingProgress(order);
+  const canPick = order.status === "paid" || order.status === "packing";
+
+  const move = () => {
+    if (!next) return;
+    if (next === "ready" && !progress.done && !confirm("Not every item is picked. Mark the order ready anyway?")) return;
+    onMove(next);
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end bg-black/30" onClick={onClose}>
+      <aside
+        className="w-full max-w-md h-full overflow-y-auto bg-white shadow-xl p-5"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between mb-4">
+          <div>
+            <h2 className="text-lg font-semibold">Order #{order.id.slice(0, 8)}</h2>
+            <p className="text-sm text-gray-500">{new Date(order.created_at).toLocaleString()}</p>
+          </div>
+          <button onClick={onClose} className="p-1 rounded hover:bg-gray-100" aria-label="Close order">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex items-center justify-between mb-4">
+          <OrderStatusBadge status={order.status} />
+          <span className="font-semibold">KES {order.total_amount}</span>
+        </div>
+
+        <h3 className="font-semibold mb-2">
+          Picking list{" "}
+          <span className="text-sm font-normal text-gray-500">
+            ({progress.picked}/{progress.total} picked)
+          </span>
+        </h3>
+        <ul className="divide-y border rounded mb-4">
+          {order.order_items.map((item) => (
+            <li key={item.id} className="flex items-center gap-3 px-3 py-2">
+              <input
+                type="checkbox"
+                checked={item.picked_at !== null}
+                disabled={!canPick || busy}
+                onChange={(e) => onPick(item.id, e.target.checked)}
+                className="w-4 h-4 accent-blue-600"
+                aria-label={`Picked ${item.products?.name ?? item.product_id}`}
+              />
+              <div className={`flex-1 ${item.picked_at ? "line-through text-gray-400" : ""}`}>
+                <div className="font-medium">{item.products?.name ?? "Unavailable product"}</div>
+                <div className="text-xs text-gray-500">KES {item.price} each</div>
+              </div>
+              <span className="font-semibold">× {item.quantity}</span>
+            </li>
+          ))}
+        </ul>
+
+        {next && (
+          <button
+            onClick={move}
+            disabled={busy}
+            className="w-full mb-4 py-2 rounded bg-gradient-to-r from-blue-600 to-red-500 text-white disabled:opacity-60"
+          >
+            Move to {ORDER_STATUS_LABELS[next]}
+          </button>
+        )}
+
+        <h3 className="font-semibold">History</h3>
+        <OrderTimeline history={order.order_status_history} />
+      </aside>
+    </div>
+  );
+}
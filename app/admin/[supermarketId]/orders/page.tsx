@@ -0,0 +1,288 @@
+// app/admin/[supermarketId]/orders/page.tsx
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useParams } from "next/navigation";
+import toast from "react-hot-toast";
+import { supabase } from "@/lib/supabase/browser";
+import { authFetch } from "@/lib/apiClient";
+import { useAuth } from "@/app/context/AuthContext";
+import { ORDER_STATUS_LABELS } from "@/lib/orderStatus";
+import {
+  FULFILMENT_COLUMN_TITLES,
+  FULFILMENT_ORDER_SELECT,
+  FULFILMENT_STATUSES,
+  isFulfilmentStatus,
+  nextFulfilmentStatus,
+  pickingProgress,
+  type BulkStatusResult,
+  type FulfilmentOrder,
+  type FulfilmentTarget,
+} from "@/lib/fulfilment";
+import { subscribeToOrders } from "@/lib/realtime";
+import AdminHeader from "../AdminHeader";
+import OrderDetail from "./OrderDetail";
+
+// Delivered orders stay on the board for a while, newest first
+const DELIVERED_SHOWN = 20;
+
+const ACTIVE_STATUSES = FULFILMENT_STATUSES.filter((s) => s !== "delivered");
+const BULK_TARGETS = FULFILMENT_STATUSES.filter((s): s is FulfilmentTarget => s !== "paid");
+
+function minutesAgo(iso: string) {
+  const minutes = Math.round((Date.now() - new Date(iso).getTime()) / 60_000);
+  if (minutes < 60) return `${minutes} min ago`;
+  if (minutes < 24 * 60) return `${Math.round(minutes / 60)} h ago`;
+  return new Date(iso).toLocaleDateString();
+}
+
+export default function FulfilmentBoardPage() {
+  const { supermarketId } = useParams<{ supermarketId: string }>();
+  const { loading: authLoading, canManage } = useAuth();
+  const allowed = canManage(supermarketId);
+  const apiBase = `/api/admin/supermarkets/${supermarketId}/orders`;
+
+  const [orders, setOrders] = useState<FulfilmentOrder[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [bulkTarget, setBulkTarget] = useState<FulfilmentTarget>("packing");
+  const [detailId, setDetailId] = useState<string | null>(null);
+  const [busy, setBusy] = useState<boolean>(false);
+
+  // 1️⃣ Load every order still being fulfilled, plus the latest deliveries
+  useEffect(() => {
+    if (authLoading || !allowed) return;
+    const load = async () => {
+      setLoading(true);
+      const [active, delivered] = await Promise.all([
+        supabase
+          .from("orders")
+          .select(FULFILMENT_ORDER_SELECT)
+          .eq("supermarket_id", supermarketId)
+          .in("status", ACTIVE_STATUSES)
+          .order("created_at", { ascending: true }),
+        supabase
+          .from("orders")
+          .select(FULFILMENT_ORDER_SELECT)
+          .eq("supermarket_id", supermarketId)
+          .eq("status", "delivered")
+          .order("created_at", { ascending: false })
+          .limit(DELIVERED_SHOWN),
+      ]);
+      const error = active.error ?? delivered.error;
+      if (error) {
+        console.error("Board load error", error);
+        toast.error("Failed to load orders");
+      } else {
+        setOrders([...(active.data ?? []), ...(delivered.data ?? [])] as FulfilmentOrder[]);
+      }
+      setLoading(false);
+    };
+    load();
+  }, [authLoading, allowed, supermarketId]);
+
+  // Refetch one order (with its items) and put it in, move it, or drop it from the board
+  const refreshOrder = useCallback(
+    async (orderId: string) => {
+      const { data } = await supabase
+        .from("orders")
+        .select(FULFILMENT_ORDER_SELECT)
+        .eq("id", orderId)
+        .eq("supermarket_id", supermarketId)
+        .maybeSingle();
+      const order = data as FulfilmentOrder | null;
+      setOrders((prev) => {
+        const rest = prev.filter((o) => o.id !== orderId);
+        return order && isFulfilmentStatus(order.status) ? [...rest, order] : rest;
+      });
+    },
+    [supermarketId]
+  );
+
+  // 2️⃣ Realtime: new payments, other admins' moves and picks
+  useEffect(() => {
+    if (!allowed) return;
+    return subscribeToOrders(supermarketId, refreshOrder);
+  }, [allowed, supermarketId, refreshOrder]);
+
+  const columns = useMemo(
+    () =>
+      FULFILMENT_STATUSES.map((status) => ({
+        status,
+        orders: orders
+          .filter((o) => o.status === status)
+          .sort((a, b) =>
+            status === "delivered" ? b.created_at.localeCompare(a.created_at) : a.created_at.localeCompare(b.created_at)
+          ),
+      })),
+    [orders]
+  );
+
+  const toggleSelected = (orderId: string) =>
+    setSelectedIds((prev) => (prev.includes(orderId) ? prev.filter((id) => id !== orderId) : [...prev, orderId]));
+
+  const moveOrders = async (orderIds: string[], status: FulfilmentTarget) => {
+    setBusy(true);
+    try {
+      const res = await authFetch(`${apiBase}/status`, {
+        method: "POST",
+        body: JSON.stringify({ order_ids: orderIds, status }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to update orders");
+
+      const results = data.results as BulkStatusResult[];
+      const failed = results.filter((r) => !r.ok);
+      if (data.updated > 0) toast.success(`${data.updated} moved to ${ORDER_STATUS_LABELS[status]}`);
+      failed.forEach((r) => toast.error(`#${r.order_id.slice(0, 8)}: ${r.reason}`));
+      // Moved orders leave the selection; ones that could not move stay selected
+      setSelectedIds((prev) => prev.filter((id) => !orderIds.includes(id) || failed.some((r) => r.order_id === id)));
+      await Promise.all(orderIds.map(refreshOrder));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to update orders");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const pickItem = async (orderId: string, itemId: string, picked: boolean) => {
+    setBusy(true);
+    const res = await authFetch(`${apiBase}/${orderId}/items/${itemId}`, {
+      method: "PATCH",
+      body: JSON.stringify({ picked }),
+    });
+    const data = await res.json();
+    setBusy(false);
+    if (!res.ok) toast.error(data.error || "Failed to update picking list");
+    await refreshOrder(orderId);
+  };
+
+  const detailOrder = orders.find((o) => o.id === detailId) ?? null;
+
+  if (!authLoading && !allowed) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-red-50">
+        <p className="bg-white rounded-lg shadow p-6">You do not manage this supermarket.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-red-50">
+      <AdminHeader supermarketId={supermarketId} />
+
+      {selectedIds.length > 0 && (
+        <div className="sticky top-[72px] z-20 mx-4 mt-4 flex flex-wrap items-center gap-3 rounded-lg bg-white shadow p-3">
+          <span className="font-semibold">{selectedIds.length} selected</span>
+          <select
+            value={bulkTarget}
+            onChange={(e) => setBulkTarget(e.target.value as FulfilmentTarget)}
+            className="border rounded px-2 py-1"
+          >
+            {BULK_TARGETS.map((s) => (
+              <option key={s} value={s}>
+                Move to {ORDER_STATUS_LABELS[s]}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => moveOrders(selectedIds, bulkTarget)}
+            disabled={busy}
+            className="px-3 py-1 rounded bg-blue-600 text-white disabled:opacity-60"
+          >
+            Apply
+          </button>
+          <button onClick={() => setSelectedIds([])} className="px-3 py-1 rounded bg-gray-100">
+            Clear
+          </button>
+        </div>
+      )}
+
+      <main className="p-4 overflow-x-auto">
+        {loading ? (
+          <p className="text-center text-gray-500 py-10">Loading orders…</p>
+        ) : (
+          <div className="grid grid-flow-col auto-cols-[minmax(240px,1fr)] gap-4">
+            {columns.map(({ status, orders: columnOrders }) => (
+              <section key={status} className="bg-white/70 rounded-lg p-3 min-h-[200px]">
+                <h2 className="flex items-center justify-between font-semibold mb-3">
+                  {FULFILMENT_COLUMN_TITLES[status]}
+                  <span className="text-xs bg-gray-200 rounded-full px-2 py-0.5">{columnOrders.length}</span>
+                </h2>
+
+                <div className="space-y-2">
+                  {columnOrders.map((order) => {
+                    const progress = pickingProgress(order);
+                    const next = nextFulfilmentStatus(order.status);
+                    return (
+                      <article
+                        key={order.id}
+                        onClick={() => setDetailId(order.id)}
+                        className={`bg-white rounded shadow-sm p-3 cursor-pointer hover:shadow ${
+                          selectedIds.includes(order.id) ? "ring-2 ring-blue-400" : ""
+                        }`}
+                      >
+                        <div className="flex items-center justify-between">
+                          <label className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
+                            <input
+                              type="checkbox"
+                              checked={selectedIds.includes(order.id)}
+                              onChange={() => toggleSelected(order.id)}
+                              className="accent-blue-600"
+                            />
+                            <span className="font-semibold">#{order.id.slice(0, 8)}</span>
+                          </label>
+                          <span className="text-xs text-gray-500">{minutesAgo(order.created_at)}</span>
+                        </div>
+                        <p className="text-sm text-gray-600 mt-1">
+                          {order.order_items.length} item{order.order_items.length === 1 ? "" : "s"} · KES{" "}
+                          {order.total_amount}
+                        </p>
+                        {(order.status === "paid" || order.status === "packing") && (
+                          <div className="mt-2">
+                            <div className="h-1.5 rounded bg-gray-100 overflow-hidden">
+                              <div
+                                className="h-full bg-gradient-to-r from-blue-600 to-red-500"
+                                style={{ width: `${progress.total ? (progress.picked / progress.total) * 100 : 0}%` }}
+                              />
+                            </div>
+                            <p className="text-xs text-gray-500 mt-1">
+                              {progress.picked}/{progress.total} picked
+                            </p>
+                          </div>
+                        )}
+                        {next && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              moveOrders([order.id], next);
+                            }}
+                            disabled={busy}
+                            className="mt-2 w-full text-sm py-1 rounded bg-blue-50 text-blue-700 hover:bg-blue-100 disabled:opacity-60"
+                          >
+                            → {ORDER_STATUS_LABELS[next]}
+                          </button>
+                        )}
+                      </article>
+                    );
+                  })}
+                  {columnOrders.length === 0 && <p className="text-sm text-gray-400 text-center py-4">Nothing here</p>}
+                </div>
+              </section>
+            ))}
+          </div>
+        )}
+      </main>
+
+      {detailOrder && (
+        <OrderDetail
+          order={detailOrder}
+          busy={busy}
+          onPick={(itemId, picked) => pickItem(detailOrder.id, itemId, picked)}
+          onMove={(status) => moveOrders([detailOrder.id], status)}
+          onClose={() => setDetailId(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+// app/admin/[supermarketId]/products/ProductForm.tsx
+"use client";
+
+import { useState } from "react";
+import {
+  EMPTY_PRODUCT_DRAFT,
+  PRODUCT_DESCRIPTION_MAX,
+  PRODUCT_GALLERY_MAX,
+  draftFromProduct,
+  inputFromDraft,
+  validateProductInput,
+  type ProductDraft,
+  type ProductErrors,
+  type ProductField,
+  type ProductInput,
+} from "@/lib/products";
+import type { Product } from "@/lib/models";
+
+interface ProductFormProps {
+  product: Product | null; // null to create a new product
+  onSubmit: (input: Partial<ProductInput>) => Promise<ProductErrors | null>;
+  onCancel: () => void;
+}
+
+const FIELDS: { field: ProductField; label: string; type: string; placeholder?: string }[] = [
+  { field: "name", label: "Name", type: "text" },
+  { field: "price", label: "Price (KES)", type: "number" },
+  { field: "compare_at_price", label: "Was price (KES)", type: "number", placeholder: "Leave empty unless on sale" },
+  { field: "stock", label: "Stock", type: "number" },
+  { field: "category", label: "Category", type: "text", placeholder: "e.g. Dairy" },
+  { field: "image_url", label: "Image URL", type: "url", placeholder: "https://…" },
+];
+
+export default function ProductForm({ product, onSubmit, onCancel }: ProductFormProps) {
+  const [draft, setDraft] = useState<ProductDraft>(product ? draftFromProduct(product) : EMPTY_PRODUCT_DRAFT);
+  const [errors, setErrors] = useState<ProductErrors>({});
+  const [saving, setSaving] = useState<boolean>(false);
+
+  const update = (field: ProductField, value: string) => {
+    setDraft((prev) => ({ ...prev, [field]: value }));
+    setErrors((prev) => ({ ...prev, [field]: undefined }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    // Same rules the API applies, so most mistakes never leave the browser
+    const validation = validateProductInput(inputFromDraft(draft));
+    if (!validation.ok) return setErrors(validation.errors);
+
+    setSaving(true);
+    const serverErrors = await onSubmit(validation.value);
+    setSaving(false);
+    if (serverErrors) setErrors(serverErrors);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow p-4 space-y-3">
+      <h2 className="text-lg font-semibold">{product ? `Edit ${product.name}` : "New product"}</h2>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {FIELDS.map(({ field, label, type, placeholder }) => (
+          <div key={field} className={field === "name" || field === "image_url" ? "sm:col-span-2" : ""}>
+            <label htmlFor={`product-${field}`} className="block text-sm font-medium mb-1">
+              {label}
+            </label>
+            <input
+              id={`product-${field}`}
+              type={type}
+              step={field === "price" || field === "compare_at_price" ? "0.01" : field === "stock" ? "1" : undefined}
+              min={field === "price" || field === "compare_at_price" || field === "stock" ? 0 : undefined}
+              placeholder={placeholder}
+              value={draft[field]}
+              onChange={(e) => update(field, e.target.value)}
+              className={`w-full border rounded px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-300 ${
+                errors[field] ? "border-red-400" : ""
+              }`}
+            />
+            {errors[field] && <p className="text-xs text-red-600 mt-1">{errors[field]}</p>}
+          </div>
+        ))}
+
+        <div className="sm:col-span-2">
+          <label htmlFor="product-description" className="block text-sm font-medium mb-1">
+            Description
+          </label>
+          <textarea
+            id="product-description"
+            rows={3}
+            maxLength={PRODUCT_DESCRIPTION_MAX}
+            value={draft.description}
+            onChange={(e) => update("description", e.target.value)}
+            className={`w-full border rounded px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-300 ${
+              errors.description ? "border-red-400" : ""
+            }`}
+          />
+          {errors.description && <p className="text-xs text-red-600 mt-1">{errors.description}</p>}
+        </div>
+
+        <div className="sm:col-span-2">
+          <label htmlFor="product-gallery" className="block text-sm font-medium mb-1">
+            More images <span className="font-normal text-gray-500">(one link per line, up to {PRODUCT_GALLERY_MAX})</span>
+          </label>
+          <textarea
+            id="product-gallery"
+            rows={2}
+            value={draft.gallery_urls}
+            onChange={(e) => update("gallery_urls", e.target.value)}
+            className={`w-full border rounded px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-300 ${
+              errors.gallery_urls ? "border-red-400" : ""
+            }`}
+          />
+          {errors.gallery_urls && <p className="text-xs text-red-600 mt-1">{errors.gallery_urls}</p>}
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="px-4 py-2 rounded bg-gray-100">
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-4 py-2 rounded bg-gradient-to-r from-blue-600 to-red-500 text-white disabled:opacity-60"
+        >
+          {saving ? "Saving…" : product ? "Save changes" : "Add product"}
+        </button>
+      </div>
+    </form>
+  );
+}
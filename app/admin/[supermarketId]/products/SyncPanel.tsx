@@ -0,0 +1,119 @@
+// app/admin/[supermarketId]/products/SyncPanel.tsx
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import toast from "react-hot-toast";
+import { RefreshCw } from "lucide-react";
+import { authFetch } from "@/lib/apiClient";
+import type { SyncReport } from "@/lib/catalogSync";
+import type { SyncRun } from "@/lib/models";
+
+// Catalogue sync from the supermarket's feed: preview the diff, then apply it
+export default function SyncPanel({ supermarketId }: { supermarketId: string }) {
+  const apiUrl = `/api/admin/supermarkets/${supermarketId}/sync`;
+  const [runs, setRuns] = useState<SyncRun[]>([]);
+  const [preview, setPreview] = useState<SyncReport | null>(null);
+  const [busy, setBusy] = useState<boolean>(false);
+
+  const loadRuns = useCallback(async () => {
+    const res = await authFetch(apiUrl);
+    const data = await res.json();
+    if (res.ok) setRuns(data.runs as SyncRun[]);
+  }, [apiUrl]);
+
+  useEffect(() => {
+    loadRuns();
+  }, [loadRuns]);
+
+  const sync = async (dryRun: boolean) => {
+    setBusy(true);
+    const res = await authFetch(apiUrl, { method: "POST", body: JSON.stringify({ dry_run: dryRun }) });
+    const data = await res.json();
+    setBusy(false);
+    await loadRuns();
+
+    const report = data.report as SyncReport | undefined;
+    if (!res.ok || !report || report.status === "failed") {
+      setPreview(null);
+      return toast.error(report?.error || data.error || "Sync failed");
+    }
+    if (dryRun) {
+      setPreview(report);
+    } else {
+      setPreview(null);
+      toast.success(`Synced: ${report.added} added, ${report.updated} updated, ${report.archived} archived`);
+    }
+  };
+
+  const lastRun = runs[0];
+
+  return (
+    <section className="bg-white rounded-lg shadow p-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="font-semibold">Catalogue feed</h2>
+          <p className="text-xs text-gray-500">
+            {lastRun
+              ? `Last ${lastRun.dry_run ? "preview" : "sync"} ${new Date(lastRun.started_at).toLocaleString()}: ${lastRun.status}`
+              : "Never synced"}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => sync(true)}
+            disabled={busy}
+            className="inline-flex items-center gap-1 px-3 py-2 rounded bg-gray-100 text-sm disabled:opacity-60"
+          >
+            <RefreshCw size={14} className={busy ? "animate-spin" : ""} /> Preview sync
+          </button>
+          {preview && (
+            <button
+              onClick={() => sync(false)}
+              disabled={busy}
+              className="px-3 py-2 rounded bg-gradient-to-r from-blue-600 to-red-500 text-white text-sm disabled:opacity-60"
+            >
+              Apply changes
+            </button>
+          )}
+        </div>
+      </div>
+
+      {preview?.diff && (
+        <div className="mt-4 grid gap-3 sm:grid-cols-2 lg:grid-cols-4 text-sm">
+          <DiffList title={`Added (${preview.added})`} items={preview.diff.added.map((p) => p.name)} />
+          <DiffList
+            title={`Updated (${preview.updated})`}
+            items={preview.diff.updated.map((u) => `${u.name}${u.restored ? " (restored)" : ""}: ${u.fields.join(", ")}`)}
+          />
+          <DiffList title={`Archived (${preview.archived})`} items={preview.diff.archived.map((p) => p.name)} />
+          <DiffList
+            title={`Skipped (${preview.skipped})`}
+            items={preview.diff.skipped.map((s) => `Row ${s.row}${s.sku ? ` (${s.sku})` : ""}: ${s.reason}`)}
+          />
+          <p className="sm:col-span-2 lg:col-span-4 text-xs text-gray-500">{preview.unchanged} unchanged</p>
+        </div>
+      )}
+
+      {lastRun?.status === "failed" && lastRun.error && (
+        <p className="mt-3 text-sm text-red-600">Last run failed: {lastRun.error}</p>
+      )}
+    </section>
+  );
+}
+
+function DiffList({ title, items }: { title: string; items: string[] }) {
+  return (
+    <div>
+      <h3 className="font-medium mb-1">{title}</h3>
+      {items.length === 0 ? (
+        <p className="text-gray-400">None</p>
+      ) : (
+        <ul className="max-h-40 overflow-y-auto space-y-0.5 text-gray-700">
+          {items.map((item, i) => (
+            <li key={i}>{item}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+// app/admin/[supermarketId]/products/TransferPanel.tsx
+"use client";
+
+import { useState } from "react";
+import toast from "react-hot-toast";
+import { Download, Upload } from "lucide-react";
+import { authFetch } from "@/lib/apiClient";
+import {
+  PRODUCT_CSV_COLUMNS,
+  STOCK_FILTERS,
+  STOCK_FILTER_LABELS,
+  type ImportPlan,
+  type StockFilter,
+} from "@/lib/productTransfer";
+
+interface TransferPanelProps {
+  supermarketId: string;
+  categories: string[];
+}
+
+// Spreadsheet import (preview, then apply) and catalogue export
+export default function TransferPanel({ supermarketId, categories }: TransferPanelProps) {
+  const apiBase = `/api/admin/supermarkets/${supermarketId}/products`;
+  const [csv, setCsv] = useState<string | null>(null);
+  const [fileName, setFileName] = useState<string>("");
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [busy, setBusy] = useState<boolean>(false);
+
+  const [format, setFormat] = useState<"csv" | "json">("csv");
+  const [category, setCategory] = useState<string>("");
+  const [stock, setStock] = useState<StockFilter>("all");
+  const [includeArchived, setIncludeArchived] = useState<boolean>(false);
+
+  const sendImport = async (text: string, apply: boolean) => {
+    setBusy(true);
+    const res = await authFetch(`${apiBase}/import`, { method: "POST", body: JSON.stringify({ csv: text, apply }) });
+    const data = await res.json();
+    setBusy(false);
+    if (data.plan) setPlan(data.plan as ImportPlan);
+    if (!res.ok) return toast.error(data.error || "Import failed");
+    if (apply) {
+      toast.success(`Imported: ${data.created} created, ${data.updated} updated`);
+      setCsv(null);
+      setPlan(null);
+      setFileName("");
+    }
+  };
+
+  const chooseFile = async (file: File | undefined) => {
+    if (!file) return;
+    const text = await file.text();
+    setFileName(file.name);
+    setCsv(text);
+    setPlan(null);
+    await sendImport(text, false);
+  };
+
+  const download = async () => {
+    const query = new URLSearchParams({ format, stock });
+    if (category) query.set("category", category);
+    if (includeArchived) query.set("archived", "1");
+
+    setBusy(true);
+    const res = await authFetch(`${apiBase}/export?${query}`);
+    setBusy(false);
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      return toast.error(data.error || "Export failed");
+    }
+    const url = URL.createObjectURL(await res.blob());
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = res.headers.get("Content-Disposition")?.match(/filename="(.+)"/)?.[1] ?? `products.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const changes = plan ? plan.creates.length + plan.updates.length : 0;
+
+  return (
+    <section className="bg-white rounded-lg shadow p-4 grid gap-6 md:grid-cols-2">
+      <div>
+        <h2 className="font-semibold">Import from spreadsheet</h2>
+        <p className="text-xs text-gray-500 mb-3">
+          CSV with columns {PRODUCT_CSV_COLUMNS.filter((c) => c !== "archived").join(", ")}. Rows with an id or a known sku
+          update that product; others are created. Stock moves by how far you edited it from exported_stock, so sales since
+          the export are kept.
+        </p>
+        <label className="inline-flex items-center gap-2 px-3 py-2 rounded bg-gray-100 text-sm cursor-pointer">
+          <Upload size={14} /> {fileName || "Choose CSV file"}
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            disabled={busy}
+            onChange={(e) => {
+              chooseFile(e.target.files?.[0]);
+              e.target.value = "";
+            }}
+          />
+        </label>
+
+        {plan && (
+          <div className="mt-3 text-sm space-y-2">
+            <p>
+              {plan.creates.length} to create · {plan.updates.length} to update · {plan.unchanged} unchanged ·{" "}
+              <span className={plan.errors.length ? "text-red-600 font-semibold" : ""}>{plan.errors.length} with errors</span>
+            </p>
+            {plan.errors.length > 0 && (
+              <ul className="max-h-40 overflow-y-auto rounded border border-red-200 bg-red-50 p-2 space-y-1 text-red-700">
+                {plan.errors.map((e) => (
+                  <li key={e.row}>
+                    Line {e.row}:{" "}
+                    {Object.entries(e.errors)
+                      .map(([field, message]) => `${field}: ${message}`)
+                      .join("; ")}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {changes > 0 && (
+              <ul className="max-h-40 overflow-y-auto rounded border p-2 space-y-1 text-gray-700">
+                {plan.creates.map((c) => (
+                  <li key={`c${c.row}`}>
+                    <span className="text-green-700">+ </span>
+                    {c.product.name} (KES {c.product.price})
+                  </li>
+                ))}
+                {plan.updates.map((u) => (
+                  <li key={`u${u.row}`}>
+                    <span className="text-blue-700">~ </span>
+                    {u.name}:{" "}
+                    {Object.keys(u.changes)
+                      .map((field) =>
+                        field === "stock_delta" ? `stock ${u.changes.stock_delta! > 0 ? "+" : ""}${u.changes.stock_delta}` : field
+                      )
+                      .join(", ")}
+                  </li>
+                ))}
+              </ul>
+            )}
+            <button
+              onClick={() => csv && sendImport(csv, true)}
+              disabled={busy || !csv || plan.errors.length > 0 || changes === 0}
+              className="px-3 py-2 rounded bg-gradient-to-r from-blue-600 to-red-500 text-white disabled:opacity-50"
+            >
+              Import {changes} product{changes === 1 ? "" : "s"}
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div>
+        <h2 className="font-semibold mb-3">Export catalogue</h2>
+        <div className="grid grid-cols-2 gap-2 text-sm">
+          <select value={category} onChange={(e) => setCategory(e.target.value)} className="border rounded px-2 py-1">
+            <option value="">All categories</option>
+            {categories.map((c) => (
+              <option key={c} value={c}>
+                {c}
+              </option>
+            ))}
+          </select>
+          <select
+            value={stock}
+            onChange={(e) => setStock(e.target.value as StockFilter)}
+            className="border rounded px-2 py-1"
+          >
+            {STOCK_FILTERS.map((s) => (
+              <option key={s} value={s}>
+                {STOCK_FILTER_LABELS[s]}
+              </option>
+            ))}
+          </select>
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as "csv" | "json")}
+            className="border rounded px-2 py-1"
+          >
+            <option value="csv">CSV</option>
+            <option value="json">JSON</option>
+          </select>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={includeArchived}
+              onChange={(e) => setIncludeArchived(e.target.checked)}
+              className="accent-blue-600"
+            />
+            Include archived
+          </label>
+        </div>
+        <button
+          onClick={download}
+          disabled={busy}
+          className="mt-3 inline-flex items-center gap-1 px-3 py-2 rounded bg-blue-600 text-white text-sm disabled:opacity-60"
+        >
+          <Download size={14} /> Download
+        </button>
+      </div>
+    </section>
+  );
+}
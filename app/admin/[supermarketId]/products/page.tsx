@@ -0,0 +1,297 @@
+// app/admin/[supermarketId]/products/page.tsx
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useParams } from "next/navigation";
+import toast from "react-hot-toast";
+import { Archive, ArchiveRestore, FileSpreadsheet, Minus, Pencil, Plus } from "lucide-react";
+import { authFetch } from "@/lib/apiClient";
+import { useAuth } from "@/app/context/AuthContext";
+import { isArchived, normalizeProduct, type ProductErrors, type ProductInput } from "@/lib/products";
+import { applyProductChange, subscribeToProducts } from "@/lib/realtime";
+import type { Product } from "@/lib/models";
+import AdminHeader from "../AdminHeader";
+import ProductForm from "./ProductForm";
+import SyncPanel from "./SyncPanel";
+import TransferPanel from "./TransferPanel";
+
+export default function AdminProductsPage() {
+  const { supermarketId } = useParams<{ supermarketId: string }>();
+  const { loading: authLoading, canManage } = useAuth();
+  const allowed = canManage(supermarketId);
+  const apiBase = `/api/admin/supermarkets/${supermarketId}/products`;
+
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [search, setSearch] = useState<string>("");
+  const [showArchived, setShowArchived] = useState<boolean>(false);
+  const [editing, setEditing] = useState<Product | "new" | null>(null);
+  const [stockDeltas, setStockDeltas] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [showTransfer, setShowTransfer] = useState<boolean>(false);
+
+  // 1️⃣ Load the catalogue, archived products included
+  useEffect(() => {
+    if (authLoading || !allowed) return;
+    const load = async () => {
+      setLoading(true);
+      const res = await authFetch(apiBase);
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || "Failed to load products");
+      } else {
+        setProducts((data.products as Product[]).map(normalizeProduct));
+      }
+      setLoading(false);
+    };
+    load();
+  }, [authLoading, allowed, apiBase]);
+
+  // 2️⃣ Live updates: other admins, checkouts and refunds change stock too
+  useEffect(() => {
+    if (!allowed) return;
+    return subscribeToProducts(supermarketId, (change) => {
+      setProducts((prev) => applyProductChange(prev, change, { includeArchived: true }));
+    });
+  }, [allowed, supermarketId]);
+
+  const replaceProduct = (product: Product) =>
+    setProducts((prev) => applyProductChange(prev, { type: "upsert", product }, { includeArchived: true }));
+
+  const saveProduct = useCallback(
+    async (input: Partial<ProductInput>): Promise<ProductErrors | null> => {
+      const isNew = editing === "new";
+      const res = await authFetch(isNew ? apiBase : `${apiBase}/${(editing as Product).id}`, {
+        method: isNew ? "POST" : "PATCH",
+        body: JSON.stringify(input),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || "Failed to save product");
+        return (data.fields as ProductErrors) ?? null;
+      }
+      replaceProduct(normalizeProduct(data.product));
+      toast.success(isNew ? "Product added" : "Product updated");
+      setEditing(null);
+      return null;
+    },
+    [editing, apiBase]
+  );
+
+  const setArchived = async (product: Product, archived: boolean) => {
+    setBusyId(product.id);
+    const res = await authFetch(`${apiBase}/${product.id}`, {
+      method: "PATCH",
+      body: JSON.stringify({ archived }),
+    });
+    const data = await res.json();
+    setBusyId(null);
+    if (!res.ok) return toast.error(data.error || "Failed to update product");
+    replaceProduct(normalizeProduct(data.product));
+    toast.success(archived ? `${product.name} archived` : `${product.name} restored`);
+  };
+
+  const adjustStock = async (product: Product, delta: number) => {
+    if (!Number.isInteger(delta) || delta === 0) return toast.error("Enter a whole number");
+    setBusyId(product.id);
+    const res = await authFetch(`${apiBase}/${product.id}/stock`, {
+      method: "POST",
+      body: JSON.stringify({ delta }),
+    });
+    const data = await res.json();
+    setBusyId(null);
+    if (!res.ok) return toast.error(data.error || "Failed to adjust stock");
+    replaceProduct({ ...product, stock: data.stock });
+    setStockDeltas((prev) => ({ ...prev, [product.id]: "" }));
+  };
+
+  const visibleProducts = useMemo(
+    () =>
+      products
+        .filter((p) => isArchived(p) === showArchived)
+        .filter((p) => p.name.toLowerCase().includes(search.toLowerCase()))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    [products, showArchived, search]
+  );
+  const archivedCount = products.filter(isArchived).length;
+  const categories = useMemo(
+    () => [...new Set(products.map((p) => p.category).filter((c): c is string => Boolean(c)))].sort(),
+    [products]
+  );
+
+  if (!authLoading && !allowed) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-red-50">
+        <p className="bg-white rounded-lg shadow p-6">You do not manage this supermarket.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-red-50">
+      <AdminHeader supermarketId={supermarketId} />
+
+      <main className="max-w-6xl mx-auto p-4 space-y-4">
+        <SyncPanel supermarketId={supermarketId} />
+
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            type="search"
+            placeholder="Search products..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="flex-1 min-w-[200px] border rounded-lg px-4 py-2 shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-300"
+          />
+          <button
+            onClick={() => setShowArchived((s) => !s)}
+            className="px-3 py-2 rounded bg-white shadow-sm text-sm"
+          >
+            {showArchived ? "Show active" : `Show archived (${archivedCount})`}
+          </button>
+          <button
+            onClick={() => setShowTransfer((s) => !s)}
+            className="inline-flex items-center gap-1 px-3 py-2 rounded bg-white shadow-sm text-sm"
+          >
+            <FileSpreadsheet size={16} /> Import / export
+          </button>
+          <button
+            onClick={() => setEditing("new")}
+            className="inline-flex items-center gap-1 px-4 py-2 rounded bg-gradient-to-r from-blue-600 to-red-500 text-white"
+          >
+            <Plus size={16} /> Add product
+          </button>
+        </div>
+
+        {showTransfer && <TransferPanel supermarketId={supermarketId} categories={categories} />}
+
+        {editing && (
+          <ProductForm
+            key={editing === "new" ? "new" : editing.id}
+            product={editing === "new" ? null : editing}
+            onSubmit={saveProduct}
+            onCancel={() => setEditing(null)}
+          />
+        )}
+
+        <div className="bg-white rounded-lg shadow overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-left text-gray-600">
+              <tr>
+                <th className="px-4 py-2">Product</th>
+                <th className="px-4 py-2">Category</th>
+                <th className="px-4 py-2 text-right">Price</th>
+                <th className="px-4 py-2">Stock</th>
+                <th className="px-4 py-2 text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {loading && (
+                <tr>
+                  <td colSpan={5} className="px-4 py-6 text-center text-gray-500">
+                    Loading products…
+                  </td>
+                </tr>
+              )}
+              {!loading && visibleProducts.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-4 py-6 text-center text-gray-500">
+                    {showArchived ? "No archived products." : "No products yet."}
+                  </td>
+                </tr>
+              )}
+              {visibleProducts.map((product) => {
+                const busy = busyId === product.id;
+                const delta = stockDeltas[product.id] ?? "";
+                return (
+                  <tr key={product.id} className={isArchived(product) ? "opacity-60" : ""}>
+                    <td className="px-4 py-2">
+                      <div className="font-medium">{product.name}</div>
+                      {product.description && (
+                        <div className="text-xs text-gray-500 line-clamp-1">{product.description}</div>
+                      )}
+                    </td>
+                    <td className="px-4 py-2">{product.category || "Uncategorized"}</td>
+                    <td className="px-4 py-2 text-right">KES {product.price}</td>
+                    <td className="px-4 py-2">
+                      <div className="flex items-center gap-1">
+                        <button
+                          onClick={() => adjustStock(product, -1)}
+                          disabled={busy || product.stock === 0}
+                          className="p-1 rounded bg-gray-100 disabled:opacity-40"
+                          aria-label={`Remove one ${product.name}`}
+                        >
+                          <Minus size={14} />
+                        </button>
+                        <span className={`w-10 text-center font-semibold ${product.stock === 0 ? "text-red-600" : ""}`}>
+                          {product.stock}
+                        </span>
+                        <button
+                          onClick={() => adjustStock(product, 1)}
+                          disabled={busy}
+                          className="p-1 rounded bg-gray-100 disabled:opacity-40"
+                          aria-label={`Add one ${product.name}`}
+                        >
+                          <Plus size={14} />
+                        </button>
+                        <input
+                          type="number"
+                          step={1}
+                          placeholder="±"
+                          value={delta}
+                          onChange={(e) => setStockDeltas((prev) => ({ ...prev, [product.id]: e.target.value }))}
+                          onKeyDown={(e) => {
+                            if (e.key === "Enter") adjustStock(product, Number(delta));
+                          }}
+                          className="w-16 border rounded px-2 py-1 ml-2"
+                          aria-label={`Stock change for ${product.name}`}
+                        />
+                        <button
+                          onClick={() => adjustStock(product, Number(delta))}
+                          disabled={busy || delta.trim() === ""}
+                          className="px-2 py-1 rounded bg-blue-600 text-white text-xs disabled:opacity-40"
+                        >
+                          Apply
+                        </button>
+                      </div>
+                    </td>
+                    <td className="px-4 py-2">
+                      <div className="flex justify-end gap-2">
+                        <button
+                          onClick={() => setEditing(product)}
+                          className="inline-flex items-center gap-1 px-2 py-1 rounded bg-blue-50 text-blue-700"
+                        >
+                          <Pencil size={14} /> Edit
+                        </button>
+                        {isArchived(product) ? (
+                          <button
+                            onClick={() => setArchived(product, false)}
+                            disabled={busy}
+                            className="inline-flex items-center gap-1 px-2 py-1 rounded bg-green-50 text-green-700 disabled:opacity-40"
+                          >
+                            <ArchiveRestore size={14} /> Restore
+                          </button>
+                        ) : (
+                          <button
+                            onClick={() => {
+                              if (confirm(`Archive ${product.name}? Shoppers will no longer see it.`)) {
+                                setArchived(product, true);
+                              }
+                            }}
+                            disabled={busy}
+                            className="inline-flex items-center gap-1 px-2 py-1 rounded bg-red-50 text-red-700 disabled:opacity-40"
+                          >
+                            <Archive size={14} /> Archive
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,266 @@
+// app/admin/[supermarketId]/requests/page.tsx
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useParams } from "next/navigation";
+import toast from "react-hot-toast";
+import { ThumbsUp } from "lucide-react";
+import { supabase } from "@/lib/supabase/browser";
+import { authFetch } from "@/lib/apiClient";
+import { useAuth } from "@/app/context/AuthContext";
+import {
+  PRODUCT_REQUEST_LABELS,
+  PRODUCT_REQUEST_STATUSES,
+  normalizeRequestName,
+  type ProductRequestStatus,
+  type ProductRequestUpdate,
+} from "@/lib/productRequests";
+import { subscribeToProductRequests } from "@/lib/realtime";
+import type { Product, ProductRequest } from "@/lib/models";
+import AdminHeader from "../AdminHeader";
+
+const STATUS_STYLES: Record<ProductRequestStatus, string> = {
+  open: "bg-blue-100 text-blue-700",
+  planned: "bg-yellow-100 text-yellow-800",
+  declined: "bg-gray-200 text-gray-700",
+  fulfilled: "bg-green-100 text-green-700",
+};
+
+// Workflow buttons per status
+const ACTIONS: Record<ProductRequestStatus, { to: ProductRequestStatus; label: string }[]> = {
+  open: [
+    { to: "planned", label: "Plan" },
+    { to: "declined", label: "Decline" },
+  ],
+  planned: [
+    { to: "open", label: "Back to open" },
+    { to: "declined", label: "Decline" },
+  ],
+  declined: [{ to: "open", label: "Reopen" }],
+  fulfilled: [],
+};
+
+export default function AdminRequestsPage() {
+  const { supermarketId } = useParams<{ supermarketId: string }>();
+  const { loading: authLoading, canManage } = useAuth();
+  const allowed = canManage(supermarketId);
+  const apiBase = `/api/admin/supermarkets/${supermarketId}/requests`;
+
+  const [requests, setRequests] = useState<ProductRequest[]>([]);
+  const [products, setProducts] = useState<Pick<Product, "id" | "name">[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [statusFilter, setStatusFilter] = useState<ProductRequestStatus>("open");
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [fulfilWith, setFulfilWith] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  // 1️⃣ Load every request of the supermarket plus the catalogue to link fulfilled ones to
+  useEffect(() => {
+    if (authLoading || !allowed) return;
+    const load = async () => {
+      setLoading(true);
+      const [requestRes, productRes] = await Promise.all([
+        supabase
+          .from("product_requests")
+          .select("*")
+          .eq("supermarket_id", supermarketId)
+          .order("vote_count", { ascending: false })
+          .order("created_at", { ascending: true }),
+        supabase
+          .from("products")
+          .select("id, name")
+          .eq("supermarket_id", supermarketId)
+          .is("archived_at", null)
+          .order("name"),
+      ]);
+      if (requestRes.error) {
+        console.error("Requests load error", requestRes.error);
+        toast.error("Failed to load requests");
+      } else {
+        setRequests(requestRes.data as ProductRequest[]);
+      }
+      setProducts(productRes.data ?? []);
+      setLoading(false);
+    };
+    load();
+  }, [authLoading, allowed, supermarketId]);
+
+  const replaceRequest = useCallback(
+    (request: ProductRequest) => setRequests((prev) => [...prev.filter((r) => r.id !== request.id), request]),
+    []
+  );
+
+  // 2️⃣ Realtime: new requests, votes, and products coming into stock
+  useEffect(() => {
+    if (!allowed) return;
+    return subscribeToProductRequests(supermarketId, replaceRequest);
+  }, [allowed, supermarketId, replaceRequest]);
+
+  const updateRequest = async (request: ProductRequest, changes: ProductRequestUpdate, message: string) => {
+    setBusyId(request.id);
+    const res = await authFetch(`${apiBase}/${request.id}`, {
+      method: "PATCH",
+      body: JSON.stringify(changes),
+    });
+    const data = await res.json();
+    setBusyId(null);
+    if (!res.ok) return toast.error(data.error || "Failed to update request");
+    replaceRequest(data.request as ProductRequest);
+    toast.success(message);
+  };
+
+  const counts = useMemo(
+    () =>
+      Object.fromEntries(
+        PRODUCT_REQUEST_STATUSES.map((s) => [s, requests.filter((r) => r.status === s).length])
+      ) as Record<ProductRequestStatus, number>,
+    [requests]
+  );
+
+  const visibleRequests = useMemo(
+    () =>
+      requests
+        .filter((r) => r.status === statusFilter)
+        .sort((a, b) => b.vote_count - a.vote_count || a.created_at.localeCompare(b.created_at)),
+    [requests, statusFilter]
+  );
+
+  // Suggest the catalogue product whose name matches the request
+  const matchingProductId = (request: ProductRequest) =>
+    products.find((p) => normalizeRequestName(p.name) === request.normalized_name)?.id ?? "";
+
+  if (!authLoading && !allowed) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-red-50">
+        <p className="bg-white rounded-lg shadow p-6">You do not manage this supermarket.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-red-50">
+      <AdminHeader supermarketId={supermarketId} />
+
+      <main className="max-w-5xl mx-auto p-4 space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {PRODUCT_REQUEST_STATUSES.map((s) => (
+            <button
+              key={s}
+              onClick={() => setStatusFilter(s)}
+              className={`px-3 py-2 rounded text-sm shadow-sm ${
+                statusFilter === s ? "bg-blue-600 text-white" : "bg-white hover:bg-gray-50"
+              }`}
+            >
+              {PRODUCT_REQUEST_LABELS[s]} ({counts[s]})
+            </button>
+          ))}
+        </div>
+
+        {loading ? (
+          <p className="text-center text-gray-500 py-10">Loading requests…</p>
+        ) : visibleRequests.length === 0 ? (
+          <p className="bg-white rounded-lg shadow p-6 text-center text-gray-500">
+            No {PRODUCT_REQUEST_LABELS[statusFilter].toLowerCase()} requests.
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {visibleRequests.map((request) => {
+              const busy = busyId === request.id;
+              const note = notes[request.id] ?? request.admin_note ?? "";
+              const productId = fulfilWith[request.id] ?? matchingProductId(request);
+              const linkedProduct = products.find((p) => p.id === request.product_id);
+              return (
+                <li key={request.id} className="bg-white rounded-lg shadow p-4">
+                  <div className="flex flex-wrap items-start justify-between gap-3">
+                    <div>
+                      <h2 className="font-semibold text-lg">{request.name}</h2>
+                      <p className="text-xs text-gray-500">
+                        First asked {new Date(request.created_at).toLocaleDateString()}
+                        {request.status === "fulfilled" && linkedProduct && <> · stocked as {linkedProduct.name}</>}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="inline-flex items-center gap-1 px-2 py-1 rounded bg-red-50 text-red-600 text-sm font-semibold">
+                        <ThumbsUp size={14} /> {request.vote_count}
+                      </span>
+                      <span className={`px-2 py-1 rounded text-xs font-medium ${STATUS_STYLES[request.status]}`}>
+                        {PRODUCT_REQUEST_LABELS[request.status]}
+                      </span>
+                    </div>
+                  </div>
+
+                  <div className="mt-3 flex flex-col sm:flex-row gap-2">
+                    <input
+                      value={note}
+                      onChange={(e) => setNotes((prev) => ({ ...prev, [request.id]: e.target.value }))}
+                      placeholder="Internal note (supplier, ETA, why declined…)"
+                      className="flex-1 border rounded px-3 py-1 text-sm"
+                    />
+                    <button
+                      onClick={() => updateRequest(request, { admin_note: note }, "Note saved")}
+                      disabled={busy || note === (request.admin_note ?? "")}
+                      className="px-3 py-1 rounded bg-gray-100 text-sm disabled:opacity-40"
+                    >
+                      Save note
+                    </button>
+                  </div>
+
+                  {request.status !== "fulfilled" && (
+                    <div className="mt-3 flex flex-wrap items-center gap-2">
+                      {ACTIONS[request.status].map(({ to, label }) => (
+                        <button
+                          key={to}
+                          onClick={() =>
+                            updateRequest(request, { status: to }, `${request.name}: ${PRODUCT_REQUEST_LABELS[to]}`)
+                          }
+                          disabled={busy}
+                          className={`px-3 py-1 rounded text-sm disabled:opacity-40 ${
+                            to === "declined" ? "bg-red-50 text-red-700" : "bg-blue-50 text-blue-700"
+                          }`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                      {request.status !== "declined" && (
+                        <>
+                          <select
+                            value={productId}
+                            onChange={(e) => setFulfilWith((prev) => ({ ...prev, [request.id]: e.target.value }))}
+                            className="border rounded px-2 py-1 text-sm sm:ml-auto"
+                            aria-label={`Product that fulfils ${request.name}`}
+                          >
+                            <option value="">No product link</option>
+                            {products.map((p) => (
+                              <option key={p.id} value={p.id}>
+                                {p.name}
+                              </option>
+                            ))}
+                          </select>
+                          <button
+                            onClick={() => {
+                              if (confirm(`Mark "${request.name}" fulfilled and notify ${request.vote_count} shopper(s)?`)) {
+                                updateRequest(
+                                  request,
+                                  { status: "fulfilled", product_id: productId || null },
+                                  `${request.name} fulfilled`
+                                );
+                              }
+                            }}
+                            disabled={busy}
+                            className="px-3 py-1 rounded bg-green-600 text-white text-sm disabled:opacity-40"
+                          >
+                            Mark fulfilled
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { authError, requireAdmin } from "@/lib/serverAuth";
+import { canManageSupermarket } from "@/lib/roles";
+import { createServiceSupabase } from "@/lib/supabase/service";
+import { cancelUnpaidOrder } from "@/lib/refunds";
+
+const supabaseAdmin = createServiceSupabase();
+
+// Admin: cancel an unpaid order and release its stock
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const admin = await requireAdmin(req);
+    if (!admin.ok) {
+      return authError(admin.status, admin.error);
+    }
+
+    const { id } = await params;
+    const { data: order } = await supabaseAdmin.from("orders").select("supermarket_id").eq("id", id).maybeSingle();
+    if (!order) {
+      return NextResponse.json({ error: "Order not found" }, { status: 404 });
+    }
+    if (!canManageSupermarket(admin.profile, order.supermarket_id)) {
+      return authError(403, "Not an admin of this supermarket");
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const reason = typeof body?.reason === "string" ? body.reason : undefined;
+
+    const result = await cancelUnpaidOrder(id, admin.auth.user.id, reason);
+    return NextResponse.json(result.body, { status: result.status });
+  } catch (err) {
+    console.error("❌ cancel order error:", err);
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
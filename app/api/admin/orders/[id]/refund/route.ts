@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { authError, requireAdmin } from "@/lib/serverAuth";
+import { canManageSupermarket } from "@/lib/roles";
+import { createServiceSupabase } from "@/lib/supabase/service";
+import { requestRefund, type RefundLineInput, type RefundRequest } from "@/lib/refunds";
+
+const supabaseAdmin = createServiceSupabase();
+
+function isRefundLine(item: unknown): item is RefundLineInput {
+  if (typeof item !== "object" || item === null) return false;
+  const { product_id, quantity } = item as Record<string, unknown>;
+  return typeof product_id === "string" && typeof quantity === "number";
+}
+
+// Admin: refund a paid order through Paystack.
+// Body: {} for a full refund, { items: [{ product_id, quantity }] } to refund and
+// restock specific lines, or { amount } (KES) for a partial refund without restock.
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const admin = await requireAdmin(req);
+    if (!admin.ok) {
+      return authError(admin.status, admin.error);
+    }
+
+    const { id } = await params;
+    const { data: order } = await supabaseAdmin.from("orders").select("supermarket_id").eq("id", id).maybeSingle();
+    if (!order) {
+      return NextResponse.json({ error: "Order not found" }, { status: 404 });
+    }
+    if (!canManageSupermarket(admin.profile, order.supermarket_id)) {
+      return authError(403, "Not an admin of this supermarket");
+    }
+
+    const body = (await req.json().catch(() => ({}))) as RefundRequest;
+    if (body.amount !== undefined && (typeof body.amount !== "number" || !(body.amount > 0))) {
+      return NextResponse.json({ error: "amount must be a positive number" }, { status: 400 });
+    }
+    if (body.items !== undefined && !Array.isArray(body.items)) {
+      return NextResponse.json({ error: "items must be an array" }, { status: 400 });
+    }
+    if (body.items?.some((item) => !isRefundLine(item))) {
+      return NextResponse.json({ error: "Each item needs a product_id and a quantity" }, { status: 400 });
+    }
+
+    const result = await requestRefund(id, body, admin.auth.user.id);
+    return NextResponse.json(result.body, { status: result.status });
+  } catch (err) {
+    console.error("❌ refund order error:", err);
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
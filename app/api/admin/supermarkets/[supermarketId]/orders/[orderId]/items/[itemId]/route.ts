@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+import { authError, requireAdmin } from "@/lib/serverAuth";
+import { createServiceSupabase } from "@/lib/supabase/service";
+import { transitionOrder } from "@/lib/orderStatus";
+
+const supabaseAdmin = createServiceSupabase();
+
+type Params = { params: Promise<{ supermarketId: string; orderId: string; itemId: string }> };
+
+// Orders whose lines can still be ticked off the picking checklist
+const PICKABLE_STATUSES = ["paid", "packing"];
+
+// Admin: tick or untick one line of an order's picking checklist. Body: { picked }.
+// Picking the first line of a paid order moves it to packing.
+export async function PATCH(req: Request, { params }: Params) {
+  try {
+    const { supermarketId, orderId, itemId } = await params;
+    const admin = await requireAdmin(req, supermarketId);
+    if (!admin.ok) {
+      return authError(admin.status, admin.error);
+    }
+
+    const { picked } = ((await req.json().catch(() => ({}))) ?? {}) as { picked?: unknown };
+    if (typeof picked !== "boolean") {
+      return NextResponse.json({ error: "picked must be true or false" }, { status: 400 });
+    }
+
+    const { data: order } = await supabaseAdmin
+      .from("orders")
+      .select("id, status")
+      .eq("id", orderId)
+      .eq("supermarket_id", supermarketId)
+      .maybeSingle();
+    if (!order) {
+      return NextResponse.json({ error: "Order not found" }, { status: 404 });
+    }
+    if (!PICKABLE_STATUSES.includes(order.status)) {
+      return NextResponse.json({ error: `Order is already ${order.status}` }, { status: 409 });
+    }
+
+    const { data: item, error } = await supabaseAdmin
+      .from("order_items")
+      .update(
+        picked
+          ? { picked_at: new Date().toISOString(), picked_by: admin.auth.user.id }
+          : { picked_at: null, picked_by: null }
+      )
+      .eq("id", itemId)
+      .eq("order_id", orderId)
+      .select()
+      .maybeSingle();
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    if (!item) {
+      return NextResponse.json({ error: "Order item not found" }, { status: 404 });
+    }
+
+    if (picked && order.status === "paid") {
+      await transitionOrder(supabaseAdmin, orderId, "packing", {
+        actor: `admin:${admin.auth.user.id}`,
+        reason: "picking started",
+      });
+    }
+
+    return NextResponse.json({ item });
+  } catch (err) {
+    console.error("❌ pick order item error:", err);
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
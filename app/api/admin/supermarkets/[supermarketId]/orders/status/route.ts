@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { authError, requireAdmin } from "@/lib/serverAuth";
+import { createServiceSupabase } from "@/lib/supabase/service";
+import { transitionOrder } from "@/lib/orderStatus";
+import {
+  validateBulkStatusRequest,
+  type BulkStatusRequest,
+  type BulkStatusResult,
+} from "@/lib/fulfilment";
+
+const supabaseAdmin = createServiceSupabase();
+
+type Params = { params: Promise<{ supermarketId: string }> };
+
+// Admin: move several orders of this supermarket to the same fulfilment status.
+// Body: { order_ids, status, reason? }. Each order is transitioned on its own, so
+// one that already moved (or cannot move) does not block the rest.
+export async function POST(req: Request, { params }: Params) {
+  try {
+    const { supermarketId } = await params;
+    const admin = await requireAdmin(req, supermarketId);
+    if (!admin.ok) {
+      return authError(admin.status, admin.error);
+    }
+
+    const body = await req.json().catch(() => null);
+    const invalid = validateBulkStatusRequest(body);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+    const { order_ids, status, reason } = body as BulkStatusRequest;
+    const orderIds = Array.from(new Set(order_ids));
+
+    const { data: orders, error } = await supabaseAdmin
+      .from("orders")
+      .select("id")
+      .in("id", orderIds)
+      .eq("supermarket_id", supermarketId);
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    const found = new Set((orders ?? []).map((o) => o.id));
+
+    const results: BulkStatusResult[] = [];
+    for (const orderId of orderIds) {
+      if (!found.has(orderId)) {
+        results.push({ order_id: orderId, ok: false, reason: "order not found" });
+        continue;
+      }
+      const result = await transitionOrder(supabaseAdmin, orderId, status, {
+        actor: `admin:${admin.auth.user.id}`,
+        reason,
+      });
+      results.push(result.ok ? { order_id: orderId, ok: true } : { order_id: orderId, ok: false, reason: result.reason });
+    }
+
+    const updated = results.filter((r) => r.ok).length;
+    console.log(`📦 ${updated}/${orderIds.length} orders moved to ${status} by ${admin.auth.user.id}`);
+    return NextResponse.json({ updated, results });
+  } catch (err) {
+    console.error("❌ bulk order status error:", err);
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
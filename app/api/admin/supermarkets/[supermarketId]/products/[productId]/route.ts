@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { authError, requireAdmin } from "@/lib/serverAuth";
+import { validateProductInput } from "@/lib/products";
+import type { TablesUpdate } from "@/lib/database.types";
+
+type Params = { params: Promise<{ supermarketId: string; productId: string }> };
+
+// Admin: edit product fields and/or archive it. Body: any subset of the product
+// fields, plus `archived: true | false`. Archived products disappear from the
+// shop but stay in the database for the orders that reference them.
+export async function PATCH(req: Request, { params }: Params) {
+  try {
+    const { supermarketId, productId } = await params;
+    const admin = await requireAdmin(req, supermarketId);
+    if (!admin.ok) {
+      return authError(admin.status, admin.error);
+    }
+
+    const body = await req.json().catch(() => null);
+    const validation = validateProductInput(body, { partial: true });
+    if (!validation.ok) {
+      return NextResponse.json({ error: "Invalid product", fields: validation.errors }, { status: 400 });
+    }
+
+    const changes: TablesUpdate<"products"> = { ...validation.value };
+    const archived = (body as { archived?: unknown }).archived;
+    if (archived !== undefined) {
+      if (typeof archived !== "boolean") {
+        return NextResponse.json({ error: "archived must be true or false" }, { status: 400 });
+      }
+      changes.archived_at = archived ? new Date().toISOString() : null;
+    }
+    if (Object.keys(changes).length === 0) {
+      return NextResponse.json({ error: "Nothing to update" }, { status: 400 });
+    }
+
+    const { data: product, error } = await admin.auth.supabase
+      .from("products")
+      .update(changes)
+      .eq("id", productId)
+      .eq("supermarket_id", supermarketId)
+      .select()
+      .maybeSingle();
+    if (error) {
+      console.error("❌ update product failed:", error);
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (!product) {
+      return NextResponse.json({ error: "Product not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ product });
+  } catch (err) {
+    console.error("❌ update product error:", err);
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { authError, requireAdmin } from "@/lib/serverAuth";
+
+type Params = { params: Promise<{ supermarketId: string; productId: string }> };
+
+// Admin: add or remove stock. Body: { delta } (whole number, may be negative).
+// Relative so a restock never overwrites stock reserved by a concurrent checkout.
+export async function POST(req: Request, { params }: Params) {
+  try {
+    const { supermarketId, productId } = await params;
+    const admin = await requireAdmin(req, supermarketId);
+    if (!admin.ok) {
+      return authError(admin.status, admin.error);
+    }
+
+    const { delta } = ((await req.json().catch(() => ({}))) ?? {}) as { delta?: unknown };
+    if (typeof delta !== "number" || !Number.isInteger(delta) || delta === 0) {
+      return NextResponse.json({ error: "delta must be a non-zero whole number" }, { status: 400 });
+    }
+
+    const { data: stock, error } = await admin.auth.supabase.rpc("adjust_product_stock", {
+      p_supermarket_id: supermarketId,
+      p_product_id: productId,
+      p_delta: delta,
+    });
+    if (error) {
+      if (error.code === "P0002") {
+        return NextResponse.json({ error: "Product not found" }, { status: 404 });
+      }
+      // products_stock_check
+      if (error.code === "23514") {
+        return NextResponse.json({ error: "Stock cannot go below zero" }, { status: 409 });
+      }
+      console.error("❌ adjust_product_stock failed:", error);
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json({ product_id: productId, stock });
+  } catch (err) {
+    console.error("❌ adjust stock error:", err);
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { authError, requireAdmin } from "@/lib/serverAuth";
+import { LOW_STOCK_THRESHOLD, parseExportFilters, productsToCsv } from "@/lib/productTransfer";
+
+type Params = { params: Promise<{ supermarketId: string }> };
+
+// Admin: download the catalogue. Query: format=csv|json, category,
+// stock=all|in_stock|low|out, archived=1 to include archived products.
+// The CSV can be edited and imported again.
+export async function GET(req: Request, { params }: Params) {
+  try {
+    const { supermarketId } = await params;
+    const admin = await requireAdmin(req, supermarketId);
+    if (!admin.ok) {
+      return authError(admin.status, admin.error);
+    }
+
+    const filters = parseExportFilters(new URL(req.url).searchParams);
+    if ("error" in filters) {
+      return NextResponse.json({ error: filters.error }, { status: 400 });
+    }
+
+    let query = admin.auth.supabase.from("products").select("*").eq("supermarket_id", supermarketId);
+    if (filters.category) query = query.eq("category", filters.category);
+    if (filters.stock === "in_stock") query = query.gt("stock", 0);
+    if (filters.stock === "low") query = query.gt("stock", 0).lte("stock", LOW_STOCK_THRESHOLD);
+    if (filters.stock === "out") query = query.eq("stock", 0);
+    if (!filters.includeArchived) query = query.is("archived_at", null);
+
+    const { data: products, error } = await query.order("name");
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    const filename = `products-${supermarketId.slice(0, 8)}-${new Date().toISOString().slice(0, 10)}.${filters.format}`;
+    const body = filters.format === "csv" ? productsToCsv(products) : JSON.stringify({ products }, null, 2);
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": filters.format === "csv" ? "text/csv; charset=utf-8" : "application/json",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (err) {
+    console.error("❌ export products error:", err);
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server";
+import { authError, requireAdmin } from "@/lib/serverAuth";
+import { FeedError } from "@/lib/feeds/types";
+import { importRows, planProductImport } from "@/lib/productTransfer";
+
+type Params = { params: Promise<{ supermarketId: string }> };
+
+// Roughly 2 MB of CSV text
+const MAX_CSV_LENGTH = 2_000_000;
+
+// Admin: import products from a CSV. Body: { csv, apply }. Without `apply` the
+// response is a preview: the rows that would be created or updated, and the
+// errors per row. With `apply` the file is checked again against the current
+// catalogue and, if every row is valid, written in one transaction.
+export async function POST(req: Request, { params }: Params) {
+  try {
+    const { supermarketId } = await params;
+    const admin = await requireAdmin(req, supermarketId);
+    if (!admin.ok) {
+      return authError(admin.status, admin.error);
+    }
+
+    const { csv, apply } = ((await req.json().catch(() => ({}))) ?? {}) as { csv?: unknown; apply?: unknown };
+    if (typeof csv !== "string" || !csv.trim()) {
+      return NextResponse.json({ error: "csv must be the text of a CSV file" }, { status: 400 });
+    }
+    if (csv.length > MAX_CSV_LENGTH) {
+      return NextResponse.json({ error: "File is too large; split it into smaller imports" }, { status: 413 });
+    }
+    if (apply !== undefined && typeof apply !== "boolean") {
+      return NextResponse.json({ error: "apply must be true or false" }, { status: 400 });
+    }
+
+    const { data: existing, error: loadError } = await admin.auth.supabase
+      .from("products")
+      .select("*")
+      .eq("supermarket_id", supermarketId);
+    if (loadError) {
+      return NextResponse.json({ error: loadError.message }, { status: 500 });
+    }
+
+    let plan;
+    try {
+      plan = planProductImport(csv, existing);
+    } catch (err) {
+      if (err instanceof FeedError) return NextResponse.json({ error: err.message }, { status: 400 });
+      throw err;
+    }
+
+    if (!apply) {
+      return NextResponse.json({ plan });
+    }
+    if (plan.errors.length > 0) {
+      return NextResponse.json({ error: "Fix the rows with errors before importing", plan }, { status: 422 });
+    }
+    if (plan.creates.length + plan.updates.length === 0) {
+      return NextResponse.json({ created: 0, updated: 0, plan });
+    }
+
+    const { data, error } = await admin.auth.supabase.rpc("import_products", {
+      p_supermarket_id: supermarketId,
+      p_rows: importRows(plan),
+    });
+    if (error) {
+      // Unique sku taken, a product removed, or its stock sold since the file was checked
+      const conflict = error.code === "23505" || error.code === "P0002" || error.code === "23514";
+      console.error("❌ import products failed:", error);
+      return NextResponse.json({ error: error.message }, { status: conflict ? 409 : 400 });
+    }
+
+    const result = data as { created: number; updated: number };
+    console.log(`📥 Imported ${result.created} new, ${result.updated} updated products into ${supermarketId}`);
+    return NextResponse.json({ ...result, plan });
+  } catch (err) {
+    console.error("❌ import products error:", err);
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import { authError, requireAdmin } from "@/lib/serverAuth";
+import { validateProductInput, type ProductInput } from "@/lib/products";
+
+type Params = { params: Promise<{ supermarketId: string }> };
+
+// Admin: every product of the supermarket, archived ones included
+export async function GET(req: Request, { params }: Params) {
+  try {
+    const { supermarketId } = await params;
+    const admin = await requireAdmin(req, supermarketId);
+    if (!admin.ok) {
+      return authError(admin.status, admin.error);
+    }
+
+    const { data, error } = await admin.auth.supabase
+      .from("products")
+      .select("*")
+      .eq("supermarket_id", supermarketId)
+      .order("name");
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ products: data });
+  } catch (err) {
+    console.error("❌ list products error:", err);
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// Admin: add a product. Writes go through the admin's own client so the
+// "store admins manage their products" policy applies as well.
+export async function POST(req: Request, { params }: Params) {
+  try {
+    const { supermarketId } = await params;
+    const admin = await requireAdmin(req, supermarketId);
+    if (!admin.ok) {
+      return authError(admin.status, admin.error);
+    }
+
+    const body = await req.json().catch(() => null);
+    const validation = validateProductInput(body);
+    if (!validation.ok) {
+      return NextResponse.json({ error: "Invalid product", fields: validation.errors }, { status: 400 });
+    }
+
+    const { data: product, error } = await admin.auth.supabase
+      .from("products")
+      .insert({ ...(validation.value as ProductInput), supermarket_id: supermarketId })
+      .select()
+      .single();
+    if (error) {
+      console.error("❌ create product failed:", error);
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.log(`🆕 Product ${product.id} created in ${supermarketId} by ${admin.auth.user.id}`);
+    return NextResponse.json({ product }, { status: 201 });
+  } catch (err) {
+    console.error("❌ create product error:", err);
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { authError, requireAdmin } from "@/lib/serverAuth";
+import { validateProductRequestUpdate } from "@/lib/productRequests";
+import type { TablesUpdate } from "@/lib/database.types";
+
+type Params = { params: Promise<{ supermarketId: string; requestId: string }> };
+
+// Admin: move a product request through the workflow. Body: any of
+// { status, admin_note, product_id }. Marking it fulfilled notifies every
+// shopper who voted for it (product_requests_notify_fulfilled trigger).
+export async function PATCH(req: Request, { params }: Params) {
+  try {
+    const { supermarketId, requestId } = await params;
+    const admin = await requireAdmin(req, supermarketId);
+    if (!admin.ok) {
+      return authError(admin.status, admin.error);
+    }
+
+    const body = await req.json().catch(() => null);
+    const validation = validateProductRequestUpdate(body);
+    if (!validation.ok) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+    const changes: TablesUpdate<"product_requests"> = { ...validation.value };
+
+    if (changes.product_id) {
+      const { data: product } = await admin.auth.supabase
+        .from("products")
+        .select("id")
+        .eq("id", changes.product_id)
+        .eq("supermarket_id", supermarketId)
+        .maybeSingle();
+      if (!product) {
+        return NextResponse.json({ error: "Product not found in this supermarket" }, { status: 400 });
+      }
+    }
+
+    const { data: request, error } = await admin.auth.supabase
+      .from("product_requests")
+      .update(changes)
+      .eq("id", requestId)
+      .eq("supermarket_id", supermarketId)
+      .select()
+      .maybeSingle();
+    if (error) {
+      // product_requests_live_name_key: reopening while a newer live request exists
+      if (error.code === "23505") {
+        return NextResponse.json({ error: "Another open request already covers this product" }, { status: 409 });
+      }
+      console.error("❌ update product request failed:", error);
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (!request) {
+      return NextResponse.json({ error: "Request not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ request });
+  } catch (err) {
+    console.error("❌ update product request error:", err);
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server";
+import { authError, requireAdmin } from "@/lib/serverAuth";
+import { createServiceSupabase } from "@/lib/supabase/service";
+import { syncCatalog } from "@/lib/catalogSync";
+
+const supabaseAdmin = createServiceSupabase();
+
+type Params = { params: Promise<{ supermarketId: string }> };
+
+// Most recent runs listed on the admin products page
+const RECENT_RUNS = 10;
+
+// Admin: recent catalogue sync runs of the supermarket
+export async function GET(req: Request, { params }: Params) {
+  try {
+    const { supermarketId } = await params;
+    const admin = await requireAdmin(req, supermarketId);
+    if (!admin.ok) {
+      return authError(admin.status, admin.error);
+    }
+
+    const { data: runs, error } = await admin.auth.supabase
+      .from("sync_runs")
+      .select("*")
+      .eq("supermarket_id", supermarketId)
+      .order("started_at", { ascending: false })
+      .limit(RECENT_RUNS);
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ runs });
+  } catch (err) {
+    console.error("❌ list sync runs error:", err);
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// Admin: sync the catalogue from the supermarket's feed now. Body: { dry_run }.
+// A dry run returns the diff without touching products.
+export async function POST(req: Request, { params }: Params) {
+  try {
+    const { supermarketId } = await params;
+    const admin = await requireAdmin(req, supermarketId);
+    if (!admin.ok) {
+      return authError(admin.status, admin.error);
+    }
+
+    const { dry_run } = ((await req.json().catch(() => ({}))) ?? {}) as { dry_run?: unknown };
+    if (dry_run !== undefined && typeof dry_run !== "boolean") {
+      return NextResponse.json({ error: "dry_run must be true or false" }, { status: 400 });
+    }
+
+    const { data: supermarket } = await supabaseAdmin
+      .from("supermarkets")
+      .select("id, api_url, feed_format, feed_mapping")
+      .eq("id", supermarketId)
+      .maybeSingle();
+    if (!supermarket) {
+      return NextResponse.json({ error: "Supermarket not found" }, { status: 404 });
+    }
+    if (!supermarket.api_url) {
+      return NextResponse.json({ error: "This supermarket has no product feed configured" }, { status: 400 });
+    }
+
+    const report = await syncCatalog(supabaseAdmin, supermarket, {
+      dryRun: dry_run ?? false,
+      triggeredBy: `admin:${admin.auth.user.id}`,
+    });
+    return NextResponse.json({ report }, { status: report.status === "failed" ? 502 : 200 });
+  } catch (err) {
+    console.error("❌ catalogue sync error:", err);
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { expireStaleOrders } from "@/lib/payments";
+import { authError } from "@/lib/serverAuth";
+
+// Scheduled job (see vercel.json): cancels unpaid orders past their TTL and
+// releases their stock. Authenticated with the shared CRON_SECRET.
+export async function GET(req: Request) {
+  if (!process.env.CRON_SECRET || req.headers.get("authorization") !== `Bearer ${process.env.CRON_SECRET}`) {
+    return authError(401, "Invalid cron secret");
+  }
+
+  try {
+    const result = await expireStaleOrders();
+    console.log(`⌛ Expired ${result.expired.length} orders, skipped ${result.skipped.length}`);
+    return NextResponse.json(result);
+  } catch (err) {
+    console.error("❌ expire-orders error:", err);
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
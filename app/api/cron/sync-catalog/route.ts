@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { syncAllCatalogs } from "@/lib/catalogSync";
+import { authError } from "@/lib/serverAuth";
+import { createServiceSupabase } from "@/lib/supabase/service";
+
+const supabaseAdmin = createServiceSupabase();
+
+// Scheduled job (see vercel.json): syncs every supermarket that has a feed URL.
+// `?dry_run=1` records the diff without changing products. Authenticated with
+// the shared CRON_SECRET.
+export async function GET(req: Request) {
+  if (!process.env.CRON_SECRET || req.headers.get("authorization") !== `Bearer ${process.env.CRON_SECRET}`) {
+    return authError(401, "Invalid cron secret");
+  }
+
+  try {
+    const dryRun = new URL(req.url).searchParams.get("dry_run") === "1";
+    const reports = await syncAllCatalogs(supabaseAdmin, { dryRun, triggeredBy: "cron" });
+    for (const r of reports) {
+      if (r.status === "failed") console.error(`❌ Sync failed for ${r.supermarket_id}: ${r.error}`);
+      else console.log(`🔄 Synced ${r.supermarket_id}: +${r.added} ~${r.updated} -${r.archived}${dryRun ? " (dry run)" : ""}`);
+    }
+    // Per-product diffs stay in sync_runs; the response only summarises
+    return NextResponse.json({ reports: reports.map((r) => ({ ...r, diff: undefined })) });
+  } catch (err) {
+    console.error("❌ sync-catalog error:", err);
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
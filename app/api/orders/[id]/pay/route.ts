@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { authError, getRequestUser } from "@/lib/serverAuth";
+import { startOrderPayment } from "@/lib/payments";
+
+// "Pay now" for an order left pending or failed: re-initializes Paystack with a
+// fresh reference linked to the same order.
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const auth = await getRequestUser(req);
+    if (!auth) {
+      return authError(401);
+    }
+
+    const { id } = await params;
+    const result = await startOrderPayment(auth.supabase, auth.user, id);
+    return NextResponse.json(result.body, { status: result.status });
+  } catch (err) {
+    console.error("❌ /api/orders/[id]/pay error:", err);
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
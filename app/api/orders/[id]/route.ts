@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { authError, getRequestUser } from "@/lib/serverAuth";
+import { loadOrderSummary } from "@/lib/orders";
+
+// Current state of a single order, used by the payment return page to poll
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const auth = await getRequestUser(req);
+    if (!auth) {
+      return authError(401);
+    }
+
+    const { id } = await params;
+    const order = await loadOrderSummary(auth.supabase, id);
+    if (!order) {
+      return NextResponse.json({ error: "Order not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ order });
+  } catch (err) {
+    console.error("❌ /api/orders/[id] error:", err);
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
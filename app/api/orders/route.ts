@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { authError, getRequestUser } from "@/lib/serverAuth";
+import {
+  validatePlaceOrderRequest,
+  type PlaceOrderRequest,
+  type PlaceOrderSuccess,
+  type StockShortage,
+} from "@/lib/orders";
+
+// Create an order from a cart. Stock is checked and reserved atomically by the
+// `place_order` database function, so two shoppers cannot oversell an item.
+export async function POST(req: Request) {
+  try {
+    const auth = await getRequestUser(req);
+    if (!auth) {
+      return authError(401);
+    }
+
+    const body = await req.json().catch(() => null);
+    const invalid = validatePlaceOrderRequest(body);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const { supermarket_id, items } = body as PlaceOrderRequest;
+    const { data, error } = await auth.supabase.rpc("place_order", {
+      p_supermarket_id: supermarket_id,
+      p_items: items.map((i) => ({ product_id: i.product_id, quantity: i.quantity })),
+    });
+
+    if (error) {
+      console.error("❌ place_order failed:", error);
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    const result = data as unknown as PlaceOrderSuccess & { shortages?: StockShortage[] };
+    if (result.shortages?.length) {
+      return NextResponse.json(
+        { error: "Insufficient stock", shortages: result.shortages },
+        { status: 409 }
+      );
+    }
+
+    console.log(`✅ Order ${result.order_id} placed by ${auth.user.id}`);
+    return NextResponse.json(
+      { order_id: result.order_id, total_amount: Number(result.total_amount) },
+      { status: 201 }
+    );
+  } catch (err) {
+    console.error("❌ /api/orders error:", err);
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -1,45 +1,30 @@
 import { NextResponse } from "next/server";
+import { authError, getRequestUser } from "@/lib/serverAuth";
+import { startOrderPayment } from "@/lib/payments";
 
+// Start a Paystack payment for an existing order. The browser only sends the
+// order id; the amount is recomputed here from live product prices.
 export async function POST(req: Request) {
   try {
-    const body = await req.json();
-    console.log("💡 /api/pay received body:", body);
-
-    const { email, amount, reference } = body;
-
-    if (!email || !amount || !reference) {
-      console.error("❌ Missing required fields");
-      return NextResponse.json(
-        { error: "Missing required fields: email, amount, reference" },
-        { status: 400 }
-      );
+    const auth = await getRequestUser(req);
+    if (!auth) {
+      return authError(401);
     }
 
-    const paystackRes = await fetch("https://api.paystack.co/transaction/initialize", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${process.env.PAYSTACK_SECRET_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        email,
-        amount: amount * 100, // Paystack expects kobo
-        reference,
-        callback_url: process.env.PAYMENT_SUCCESS_URL,
-      }),
-    });
-
-    const data = await paystackRes.json();
-    console.log("💡 Paystack response:", data);
+    const body = await req.json().catch(() => null);
+    console.log("💡 /api/pay received body:", body);
 
-    if (!paystackRes.ok) {
-      console.error("❌ Paystack initialization failed:", data);
-      return NextResponse.json({ error: data }, { status: 400 });
+    const orderId = body?.order_id;
+    if (!orderId || typeof orderId !== "string") {
+      console.error("❌ Missing required fields");
+      return NextResponse.json({ error: "Missing required field: order_id" }, { status: 400 });
     }
 
-    return NextResponse.json(data);
-  } catch (err: any) {
+    const result = await startOrderPayment(auth.supabase, auth.user, orderId);
+    return NextResponse.json(result.body, { status: result.status });
+  } catch (err) {
     console.error("❌ /api/pay error:", err);
-    return NextResponse.json({ error: err.message || "Unknown error" }, { status: 500 });
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
   }
 }
@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { authError, getRequestUser } from "@/lib/serverAuth";
+import { loadOrderSummary, type PaymentCheck } from "@/lib/orders";
+import { verifyTransaction } from "@/lib/paystack";
+import { resolvePaymentReference } from "@/lib/payments";
+
+// Called by the payment return page with the `reference` Paystack redirected
+// back with. Reports Paystack's view of the transaction next to the order; the
+// order itself is only settled by the webhook.
+export async function GET(req: Request) {
+  try {
+    const auth = await getRequestUser(req);
+    if (!auth) {
+      return authError(401);
+    }
+
+    const reference = new URL(req.url).searchParams.get("reference");
+    if (!reference) {
+      return NextResponse.json({ error: "Missing reference" }, { status: 400 });
+    }
+
+    const { orderId } = await resolvePaymentReference(auth.supabase, reference);
+    const order = orderId ? await loadOrderSummary(auth.supabase, orderId) : null;
+    if (!order) {
+      return NextResponse.json({ error: "Order not found" }, { status: 404 });
+    }
+
+    let payment: PaymentCheck = { status: "unknown", amount: null, currency: null, gateway_response: null };
+    try {
+      const { ok, body } = await verifyTransaction(reference);
+      if (ok) {
+        payment = {
+          status: body.data.status,
+          amount: body.data.amount / 100,
+          currency: body.data.currency,
+          gateway_response: body.data.gateway_response,
+        };
+      } else {
+        console.warn(`⚠️ Paystack verify for ${reference} failed:`, body.message);
+      }
+    } catch (err) {
+      console.warn(`⚠️ Paystack verify for ${reference} errored:`, err);
+    }
+
+    return NextResponse.json({ order, payment });
+  } catch (err) {
+    console.error("❌ /api/pay/verify error:", err);
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -1,15 +1,147 @@
-import { NextResponse } from "next/server";
 import crypto from "crypto";
-import { supabase } from "@/lib/supabaseClient";
+import { NextResponse } from "next/server";
+import { createServiceSupabase } from "@/lib/supabase/service";
+import { PAYSTACK_CURRENCY, toKobo, verifySignature, verifyTransaction } from "@/lib/paystack";
+import { canTransition, transitionOrder, type OrderStatus } from "@/lib/orderStatus";
+import { resolvePaymentReference } from "@/lib/payments";
+import { refundLatePayment, settleRefund } from "@/lib/refunds";
+import { authError } from "@/lib/serverAuth";
+import type { Json } from "@/lib/database.types";
+
+const supabaseAdmin = createServiceSupabase();
+
+interface PaystackEvent {
+  event: string;
+  data: {
+    id?: number;
+    reference?: string; // charge events
+    transaction_reference?: string; // refund events
+    amount?: number;
+    currency?: string;
+    status?: string;
+  };
+}
+
+const WEBHOOK_ACTOR = "system:paystack-webhook";
+
+type Outcome = "processed" | "ignored" | "rejected";
+
+interface HandledEvent {
+  outcome: Outcome;
+  reason?: string;
+  orderId?: string;
+}
 
-// Verify webhook signature
-function verifySignature(payload: string, signature: string | null) {
-  if (!signature) return false;
-  const hash = crypto
-    .createHmac("sha512", process.env.PAYSTACK_SECRET_KEY as string)
-    .update(payload)
-    .digest("hex");
-  return hash === signature;
+async function settleLedger(eventKey: string, { outcome, reason, orderId }: HandledEvent) {
+  await supabaseAdmin
+    .from("payment_events")
+    .update({
+      outcome,
+      outcome_reason: reason ?? null,
+      order_id: orderId ?? null,
+      processed_at: new Date().toISOString(),
+    })
+    .eq("event_key", eventKey);
+}
+
+async function markAttempt(reference: string, status: "success" | "rejected") {
+  await supabaseAdmin.from("payment_attempts").update({ status }).eq("reference", reference);
+}
+
+async function handleChargeSuccess(event: PaystackEvent, reference: string): Promise<HandledEvent> {
+  const { orderId, attempt } = await resolvePaymentReference(supabaseAdmin, reference);
+  if (!orderId) return { outcome: "ignored", reason: "unknown reference" };
+
+  const { data: order, error } = await supabaseAdmin
+    .from("orders")
+    .select("id, status, total_amount, supermarket_id")
+    .eq("id", orderId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!order) return { outcome: "rejected", reason: "unknown order reference" };
+
+  const payable = canTransition(order.status as OrderStatus, "paid");
+  if (!payable && order.status !== "cancelled") {
+    return { outcome: "ignored", reason: `order is ${order.status}`, orderId: order.id };
+  }
+
+  // Never trust the webhook body alone: ask Paystack what actually happened
+  const { ok, body } = await verifyTransaction(reference);
+  if (!ok) throw new Error(`Paystack verify failed: ${body.message}`);
+
+  const verified = body.data;
+  const expected = toKobo(order.total_amount);
+
+  if (verified.status !== "success") {
+    return { outcome: "rejected", reason: `verify status is ${verified.status}`, orderId: order.id };
+  }
+
+  // The shopper was charged for an order that was cancelled (usually expired)
+  // while the payment was in flight: give the money back
+  if (!payable) {
+    await markAttempt(reference, "rejected");
+    const refund = await refundLatePayment(order, reference, verified.amount);
+    return { outcome: "rejected", reason: `paid after the order was cancelled; ${refund.reason}`, orderId: order.id };
+  }
+
+  // The money moved but does not pay for this order: keep it out of "success"
+  // so refunds of the order never pick this charge
+  if (
+    verified.amount !== expected ||
+    event.data.amount !== verified.amount ||
+    (attempt && attempt.amount !== verified.amount)
+  ) {
+    await markAttempt(reference, "rejected");
+    return {
+      outcome: "rejected",
+      reason: `amount mismatch: expected ${expected}, event ${event.data.amount}, verified ${verified.amount}`,
+      orderId: order.id,
+    };
+  }
+  if (verified.currency !== PAYSTACK_CURRENCY) {
+    await markAttempt(reference, "rejected");
+    return { outcome: "rejected", reason: `currency mismatch: ${verified.currency}`, orderId: order.id };
+  }
+  await markAttempt(reference, "success");
+
+  // A verified success wins over an earlier (possibly out-of-order) failure
+  const result = await transitionOrder(supabaseAdmin, order.id, "paid", {
+    actor: WEBHOOK_ACTOR,
+    reason: `charge.success ${verified.reference}`,
+  });
+  if (!result.ok) return { outcome: "ignored", reason: result.reason, orderId: order.id };
+
+  console.log(`✅ Order ${order.id} marked as paid (${verified.amount / 100} ${verified.currency})`);
+  return { outcome: "processed", orderId: order.id };
+}
+
+async function handleChargeFailed(reference: string): Promise<HandledEvent> {
+  const { orderId } = await resolvePaymentReference(supabaseAdmin, reference);
+  if (!orderId) return { outcome: "ignored", reason: "unknown reference" };
+  // A late failure must not relabel a charge that already went through
+  await supabaseAdmin
+    .from("payment_attempts")
+    .update({ status: "failed" })
+    .eq("reference", reference)
+    .in("status", ["initialized", "abandoned"]);
+
+  // Only a pending order can fail; a late failure must not undo a payment
+  const result = await transitionOrder(supabaseAdmin, orderId, "failed", {
+    actor: WEBHOOK_ACTOR,
+    reason: `charge.failed ${reference}`,
+  });
+  if (!result.ok) return { outcome: "ignored", reason: result.reason, orderId };
+
+  console.log(`❌ Order ${orderId} marked as failed`);
+  return { outcome: "processed", orderId };
+}
+
+async function handleRefund(event: PaystackEvent, status: "processed" | "failed"): Promise<HandledEvent> {
+  const result = await settleRefund(event.data, status, WEBHOOK_ACTOR);
+  if (!result.settled) return { outcome: "ignored", reason: result.reason, orderId: result.orderId };
+
+  console.log(`💸 Refund for order ${result.orderId} ${status}`);
+  return { outcome: "processed", orderId: result.orderId };
 }
 
 export async function POST(req: Request) {
@@ -19,39 +151,69 @@ export async function POST(req: Request) {
 
     // Verify signature
     if (!verifySignature(rawBody, signature)) {
-      return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
+      return authError(401, "Invalid signature");
     }
 
-    const event = JSON.parse(rawBody);
+    const event = JSON.parse(rawBody) as PaystackEvent;
+    // Events unrelated to a transaction carry no reference; they are still
+    // recorded (and acknowledged) so Paystack does not keep retrying them
+    const reference = event.data?.reference ?? event.data?.transaction_reference ?? null;
 
     // Log all events for debugging
-    console.log("Webhook event:", event.event, event.data.reference);
+    console.log("Webhook event:", event.event, reference);
 
-    const reference = event.data.reference;
-    const amount = event.data.amount / 100; // Convert back from kobo
+    const eventId = event.data?.id ?? reference ?? crypto.createHash("sha256").update(rawBody).digest("hex");
+    const eventKey = `${event.event}:${eventId}`;
+    const { error: insertError } = await supabaseAdmin.from("payment_events").insert({
+      event_key: eventKey,
+      event: event.event,
+      reference,
+      amount: event.data?.amount ?? null,
+      currency: event.data?.currency ?? null,
+      payload: event as unknown as Json,
+    });
 
-    if (event.event === "charge.success") {
-      // ✅ Update order status to "paid"
-      await supabase
-        .from("orders")
-        .update({ status: "paid" })
-        .eq("id", reference);
+    if (insertError) {
+      if (insertError.code !== "23505") throw new Error(insertError.message);
 
-      console.log(`✅ Order ${reference} marked as paid (${amount})`);
+      // Seen before: acknowledge replays, but retry deliveries that never finished
+      const { data: existing } = await supabaseAdmin
+        .from("payment_events")
+        .select("outcome")
+        .eq("event_key", eventKey)
+        .maybeSingle();
+      if (existing && existing.outcome !== "received" && existing.outcome !== "error") {
+        console.log(`↩️ Duplicate webhook ${eventKey} (${existing.outcome})`);
+        return NextResponse.json({ status: "duplicate" });
+      }
     }
 
-    if (event.event === "charge.failed") {
-      await supabase
-        .from("orders")
-        .update({ status: "failed" })
-        .eq("id", reference);
+    let handled: HandledEvent;
+    try {
+      if (!reference) handled = { outcome: "ignored", reason: "no transaction reference" };
+      else if (event.event === "charge.success") handled = await handleChargeSuccess(event, reference);
+      else if (event.event === "charge.failed") handled = await handleChargeFailed(reference);
+      else if (event.event === "refund.processed") handled = await handleRefund(event, "processed");
+      else if (event.event === "refund.failed") handled = await handleRefund(event, "failed");
+      else handled = { outcome: "ignored", reason: "unhandled event type" };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      await supabaseAdmin
+        .from("payment_events")
+        .update({ outcome: "error", outcome_reason: message })
+        .eq("event_key", eventKey);
+      throw err;
+    }
 
-      console.log(`❌ Order ${reference} marked as failed`);
+    await settleLedger(eventKey, handled);
+    if (handled.outcome === "rejected") {
+      console.error(`⚠️ Webhook ${eventKey} rejected: ${handled.reason}`);
     }
 
     return NextResponse.json({ status: "ok" });
-  } catch (err: any) {
-    console.error("Webhook error:", err.message);
-    return NextResponse.json({ error: err.message }, { status: 500 });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    console.error("Webhook error:", message);
+    return NextResponse.json({ error: message }, { status: 500 });
   }
 }
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { createServerSupabase } from "@/lib/supabase/server";
+import { parseProductSearchParams, productFacets } from "@/lib/productSearch";
+
+type Params = { params: Promise<{ id: string }> };
+
+// Public: filter counts for a search, without the products. Takes the same
+// query as /api/supermarkets/[id]/products; the shop refetches these when the
+// catalogue changes.
+export async function GET(req: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    const search = parseProductSearchParams(new URL(req.url).searchParams);
+    if ("error" in search) {
+      return NextResponse.json({ error: search.error }, { status: 400 });
+    }
+
+    const supabase = await createServerSupabase();
+    return NextResponse.json(await productFacets(supabase, id, search));
+  } catch (err) {
+    console.error("❌ product facets error:", err);
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { createServerSupabase } from "@/lib/supabase/server";
+import { InvalidCursorError, parseProductSearchParams, searchProducts } from "@/lib/productSearch";
+
+type Params = { params: Promise<{ id: string }> };
+
+// Public: one page of a supermarket's active products. Query: q (full-text,
+// typo tolerant), category (repeat for several), min_price, max_price,
+// in_stock=1, on_sale=1, sort=relevance|best_selling|newest|price_asc|
+// price_desc|name_asc|stock_desc, limit, and cursor (the previous page's
+// next_cursor). The first page also carries the filter counts as `facets`.
+export async function GET(req: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    const search = parseProductSearchParams(new URL(req.url).searchParams);
+    if ("error" in search) {
+      return NextResponse.json({ error: search.error }, { status: 400 });
+    }
+
+    const supabase = await createServerSupabase();
+    const page = await searchProducts(supabase, id, search);
+    return NextResponse.json(page);
+  } catch (err) {
+    if (err instanceof InvalidCursorError) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+    console.error("❌ product search error:", err);
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
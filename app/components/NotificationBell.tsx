@@ -0,0 +1,112 @@
+// app/components/NotificationBell.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import toast from "react-hot-toast";
+import { Bell } from "lucide-react";
+import { supabase } from "@/lib/supabase/browser";
+import { subscribeToNotifications } from "@/lib/realtime";
+import { useAuth } from "@/app/context/AuthContext";
+import type { Notification } from "@/lib/models";
+
+const NOTIFICATIONS_SHOWN = 20;
+
+// Header bell with the signed-in user's latest in-app notifications
+export default function NotificationBell() {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [open, setOpen] = useState<boolean>(false);
+
+  // 1️⃣ Load the latest notifications, then follow new ones live
+  useEffect(() => {
+    if (!userId) {
+      setNotifications([]);
+      return;
+    }
+    supabase
+      .from("notifications")
+      .select("*")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false })
+      .limit(NOTIFICATIONS_SHOWN)
+      .then(({ data, error }) => {
+        if (error) console.error("Notifications load error", error);
+        setNotifications(data ?? []);
+      });
+
+    return subscribeToNotifications(userId, (notification) => {
+      setNotifications((prev) => [notification, ...prev].slice(0, NOTIFICATIONS_SHOWN));
+      toast.success(notification.title);
+    });
+  }, [userId]);
+
+  if (!userId) return null;
+
+  const unread = notifications.filter((n) => !n.read_at).length;
+
+  const markAllRead = async () => {
+    if (unread === 0) return;
+    const readAt = new Date().toISOString();
+    const { error } = await supabase
+      .from("notifications")
+      .update({ read_at: readAt })
+      .eq("user_id", userId)
+      .is("read_at", null);
+    if (error) return console.error("Mark notifications read error", error);
+    setNotifications((prev) => prev.map((n) => (n.read_at ? n : { ...n, read_at: readAt })));
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => {
+          setOpen((o) => !o);
+          if (!open) markAllRead();
+        }}
+        className="relative p-2 rounded-full bg-white hover:shadow"
+        aria-label="Notifications"
+      >
+        <Bell size={18} className="text-blue-700" />
+        {unread > 0 && (
+          <span className="absolute -top-1 -right-1 bg-red-500 text-white text-xs px-1.5 py-0.5 rounded-full">
+            {unread}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 max-h-96 overflow-y-auto bg-white rounded-lg shadow-lg z-40">
+          <h3 className="px-4 py-2 font-semibold border-b">Notifications</h3>
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-center text-gray-500">Nothing yet.</p>
+          ) : (
+            <ul className="divide-y">
+              {notifications.map((n) => {
+                const content = (
+                  <>
+                    <div className="font-medium text-sm">{n.title}</div>
+                    {n.body && <div className="text-xs text-gray-600">{n.body}</div>}
+                    <div className="text-xs text-gray-400 mt-1">{new Date(n.created_at).toLocaleString()}</div>
+                  </>
+                );
+                return (
+                  <li key={n.id} className={n.read_at ? "" : "bg-blue-50"}>
+                    {n.link ? (
+                      <Link href={n.link} onClick={() => setOpen(false)} className="block px-4 py-2 hover:bg-gray-50">
+                        {content}
+                      </Link>
+                    ) : (
+                      <div className="px-4 py-2">{content}</div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+// app/components/OrderStatus.tsx
+"use client";
+
+import { ORDER_STATUS_LABELS, type OrderStatus, type OrderStatusChange } from "@/lib/orderStatus";
+
+const STATUS_STYLES: Record<OrderStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  paid: "bg-blue-100 text-blue-800",
+  packing: "bg-indigo-100 text-indigo-800",
+  ready: "bg-purple-100 text-purple-800",
+  out_for_delivery: "bg-cyan-100 text-cyan-800",
+  delivered: "bg-green-100 text-green-800",
+  cancelled: "bg-gray-200 text-gray-700",
+  refunded: "bg-orange-100 text-orange-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+export function OrderStatusBadge({ status }: { status: OrderStatus }) {
+  return (
+    <span className={`inline-block px-2 py-0.5 rounded-full text-xs font-semibold ${STATUS_STYLES[status] ?? ""}`}>
+      {ORDER_STATUS_LABELS[status] ?? status}
+    </span>
+  );
+}
+
+// Chronological list of status changes for one order
+export function OrderTimeline({ history }: { history: OrderStatusChange[] }) {
+  if (history.length === 0) return null;
+  const sorted = [...history].sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+  return (
+    <ol className="mt-3 border-l-2 border-blue-100 pl-4 space-y-2">
+      {sorted.map((change) => (
+        <li key={change.id} className="relative">
+          <span className="absolute -left-[21px] top-1.5 w-2.5 h-2.5 rounded-full bg-blue-500" />
+          <div className="flex items-center gap-2 text-sm">
+            <OrderStatusBadge status={change.to_status} />
+            <span className="text-gray-500">{new Date(change.created_at).toLocaleString()}</span>
+          </div>
+          {change.reason && <p className="text-xs text-gray-600 mt-0.5">{change.reason}</p>}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,143 @@
+// app/context/AuthContext.tsx
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, ReactNode } from "react";
+import { Session, User } from "@supabase/supabase-js";
+import { supabase } from "@/lib/supabase/browser";
+import { canManageSupermarket, isAdminRole, isRole, type Profile, type Role } from "@/lib/roles";
+
+// Type for the Auth context
+interface AuthContextType {
+  session: Session | null;
+  user: User | null;
+  profile: Profile | null;
+  role: Role; // "shopper" while signed out
+  isAdmin: boolean;
+  loading: boolean; // true until the session (and profile, if signed in) is known
+  canManage: (supermarketId: string) => boolean;
+  signIn: (email: string, password: string) => Promise<{ error: string | null }>;
+  signOut: () => Promise<void>;
+  refreshProfile: () => Promise<void>;
+}
+
+// Create context with default value
+const AuthContext = createContext<AuthContextType>({
+  session: null,
+  user: null,
+  profile: null,
+  role: "shopper",
+  isAdmin: false,
+  loading: true,
+  canManage: () => false,
+  signIn: async () => ({ error: "AuthProvider missing" }),
+  signOut: async () => {},
+  refreshProfile: async () => {},
+});
+
+// Props type for provider
+interface AuthProviderProps {
+  children: ReactNode;
+}
+
+async function fetchProfile(userId: string): Promise<Profile | null> {
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("id, role, supermarket_id")
+    .eq("id", userId)
+    .maybeSingle<{ id: string; role: string | null; supermarket_id: string | null }>();
+
+  if (error) {
+    console.error("Error fetching profile:", error.message);
+    return null;
+  }
+  if (!data) return null;
+  return { ...data, role: isRole(data.role) ? data.role : "shopper" };
+}
+
+// AuthProvider component
+export const AuthProvider = ({ children }: AuthProviderProps) => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [sessionLoading, setSessionLoading] = useState<boolean>(true);
+  const [profileLoading, setProfileLoading] = useState<boolean>(false);
+
+  const userId = session?.user.id ?? null;
+
+  useEffect(() => {
+    // 1️⃣ Get initial session
+    const getInitialSession = async () => {
+      const {
+        data: { session },
+        error,
+      } = await supabase.auth.getSession();
+
+      if (error) {
+        console.error("Error fetching session:", error.message);
+      }
+      setSession(session ?? null);
+      setSessionLoading(false);
+    };
+
+    getInitialSession();
+
+    // 2️⃣ Listen for auth state changes
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange((_event, newSession) => {
+      setSession(newSession ?? null);
+      setSessionLoading(false);
+    });
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  // 3️⃣ Load the profile (role + supermarket scope) whenever the user changes
+  const refreshProfile = useCallback(async () => {
+    if (!userId) {
+      setProfile(null);
+      return;
+    }
+    setProfileLoading(true);
+    setProfile(await fetchProfile(userId));
+    setProfileLoading(false);
+  }, [userId]);
+
+  useEffect(() => {
+    refreshProfile();
+  }, [refreshProfile]);
+
+  const signIn = useCallback(async (email: string, password: string) => {
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+    return { error: error?.message ?? null };
+  }, []);
+
+  const signOut = useCallback(async () => {
+    const { error } = await supabase.auth.signOut();
+    if (error) console.error("Error signing out:", error.message);
+    setSession(null);
+    setProfile(null);
+  }, []);
+
+  const value = useMemo<AuthContextType>(() => {
+    const role: Role = profile?.role ?? "shopper";
+    return {
+      session,
+      user: session?.user ?? null,
+      profile,
+      role,
+      isAdmin: isAdminRole(role),
+      loading: sessionLoading || profileLoading,
+      canManage: (supermarketId: string) => canManageSupermarket(profile, supermarketId),
+      signIn,
+      signOut,
+      refreshProfile,
+    };
+  }, [session, profile, sessionLoading, profileLoading, signIn, signOut, refreshProfile]);
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+// Hook to use auth context
+export const useAuth = () => useContext(AuthContext);
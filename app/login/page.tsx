@@ -1,464 +1,285 @@
-// app/supermarket/[id]/page.tsx
+// app/login/page.tsx
 "use client";
 
-import React, { useEffect, useState } from "react";
-import { useRouter } from "next/navigation";
-import { supabase } from "@/lib/supabaseClient";
+import { Suspense, useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import toast from "react-hot-toast";
+import { supabase } from "@/lib/supabase/browser";
+import { useAuth } from "@/app/context/AuthContext";
 
-interface Product {
-  id: string;
-  name: string;
-  price: number;
-  stock: number;
-  image_url?: string | null;
-  description?: string | null;
-  category?: string | null;
-}
-
-interface CartItem {
-  product: Product;
-  quantity: number;
-}
-
-interface OrderItem {
-  product_id: string;
-  quantity: number;
-  price: number;
-}
-
-interface Order {
-  id: string;
-  total_amount: number;
-  status: string;
-  created_at: string;
-  order_items?: OrderItem[] | null;
-  user_id?: string | null;
-}
+type Mode = "login" | "signup" | "forgot" | "reset";
 
-type SortOption = "priceAsc" | "priceDesc" | "stock";
+const MODES: Mode[] = ["login", "signup", "forgot", "reset"];
 
-interface Props {
-  params: { id: string };
-}
+const TITLES: Record<Mode, string> = {
+  login: "Welcome back",
+  signup: "Create your account",
+  forgot: "Forgot your password?",
+  reset: "Choose a new password",
+};
 
-/** Simple image fallback component using <img> to avoid next/image remote host config issues. */
-function ImageWithFallback({ src, alt }: { src?: string | null; alt?: string }) {
-  const defaultSrc = "/placeholder.png";
-  const [currentSrc, setCurrentSrc] = useState<string>(src ?? defaultSrc);
+const MIN_PASSWORD_LENGTH = 8;
 
-  useEffect(() => {
-    setCurrentSrc(src ?? defaultSrc);
-  }, [src]);
+// Only follow same-site relative paths, never an arbitrary URL from the query string.
+// Browsers read "/\evil.com" (and "/\t/evil.com") as another host, so the path is
+// resolved the way they do it and must stay on the placeholder origin.
+const REDIRECT_BASE = "http://same.site";
 
-  return (
-    <div className="w-full h-32 mb-2 bg-white flex items-center justify-center overflow-hidden rounded">
-      <img
-        src={currentSrc}
-        alt={alt ?? "Product"}
-        className="object-cover w-full h-full"
-        onError={(e) => {
-          (e.target as HTMLImageElement).src = defaultSrc;
-        }}
-      />
-    </div>
-  );
+function safeRedirect(value: string | null) {
+  if (!value || !value.startsWith("/")) return "/";
+  const url = new URL(value, REDIRECT_BASE);
+  if (url.origin !== REDIRECT_BASE) return "/";
+  return `${url.pathname}${url.search}${url.hash}`;
 }
 
-export default function SupermarketPage({ params }: Props) {
-  const supermarketId = params.id;
+function AuthForm() {
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const { session, loading, signIn } = useAuth();
+
+  const modeParam = searchParams.get("mode") as Mode | null;
+  const mode: Mode = modeParam && MODES.includes(modeParam) ? modeParam : "login";
+  const redirectTo = safeRedirect(searchParams.get("redirect"));
+
+  const [email, setEmail] = useState<string>("");
+  const [password, setPassword] = useState<string>("");
+  const [confirmPassword, setConfirmPassword] = useState<string>("");
+  const [submitting, setSubmitting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(searchParams.get("error_description"));
+  const [notice, setNotice] = useState<string | null>(null);
+  const [needsConfirmation, setNeedsConfirmation] = useState<boolean>(false);
+
+  // Build a link to another mode, keeping the redirect target
+  const hrefFor = (next: Mode) => {
+    const params = new URLSearchParams();
+    if (next !== "login") params.set("mode", next);
+    if (redirectTo !== "/") params.set("redirect", redirectTo);
+    const qs = params.toString();
+    return qs ? `/login?${qs}` : "/login";
+  };
 
-  const [products, setProducts] = useState<Product[]>([]);
-  const [cart, setCart] = useState<CartItem[]>([]);
-  const [orders, setOrders] = useState<Order[]>([]);
-  const [search, setSearch] = useState("");
-  const [sortOption, setSortOption] = useState<SortOption>("priceAsc");
-  const [requestProduct, setRequestProduct] = useState("");
-  const [requestSuccess, setRequestSuccess] = useState(false);
-  const [user, setUser] = useState<any>(null);
-  const [role, setRole] = useState<string>("user");
+  const callbackUrl = (next: Mode) => `${window.location.origin}${hrefFor(next)}`;
 
-  // --- Auth (client-side)
+  // Supabase reports expired or invalid email links via error_description (query or hash)
   useEffect(() => {
-    const getUser = async () => {
-      try {
-        const { data } = await supabase.auth.getUser();
-        const currentUser = data?.user ?? null;
-        setUser(currentUser);
-
-        if (currentUser) {
-          const profileRes = await supabase
-            .from("profiles")
-            .select("role")
-            .eq("id", currentUser.id)
-            .single();
-          const profile = profileRes.data as { role?: string } | null;
-          setRole(profile?.role ?? "user");
-        } else {
-          setRole("user");
-        }
-      } catch (err) {
-        console.warn("getUser error:", err);
-        setUser(null);
-        setRole("user");
-      }
-    };
-
-    getUser();
-  }, []);
-
-  // --- Persist cart per supermarket
+    const hash = new URLSearchParams(window.location.hash.slice(1));
+    setError(searchParams.get("error_description") ?? hash.get("error_description"));
+    setNotice(null);
+    setNeedsConfirmation(false);
+  }, [mode, searchParams]);
+
+  // Already signed in: go straight back, except while resetting a password
+  // (the recovery link from the email is what signs the user in for that).
   useEffect(() => {
-    try {
-      const raw = localStorage.getItem(`cart_${supermarketId}`);
-      if (raw) setCart(JSON.parse(raw));
-    } catch (err) {
-      console.warn("Load cart error:", err);
-    }
-  }, [supermarketId]);
+    if (loading || !session || mode === "reset") return;
+    router.replace(redirectTo);
+  }, [loading, session, mode, redirectTo, router]);
 
-  useEffect(() => {
-    try {
-      localStorage.setItem(`cart_${supermarketId}`, JSON.stringify(cart));
-    } catch (err) {
-      console.warn("Save cart error:", err);
-    }
-  }, [cart, supermarketId]);
-
-  // --- Products + realtime
-  useEffect(() => {
-    let channel: any = null;
-
-    const fetchProducts = async () => {
-      try {
-        const res = await supabase.from("products").select("*").eq("supermarket_id", supermarketId);
-        const data = res.data as Product[] | null;
-        if (data) setProducts(data);
-      } catch (err) {
-        console.warn("fetchProducts error:", err);
-      }
-    };
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setNotice(null);
 
-    fetchProducts();
-
-    try {
-      channel = supabase
-        .channel(`products-${supermarketId}`)
-        .on(
-          "postgres_changes",
-          {
-            event: "*",
-            schema: "public",
-            table: "products",
-            filter: `supermarket_id=eq.${supermarketId}`,
-          },
-          (payload: any) => {
-            setProducts((prev) => {
-              const newRow = payload?.new;
-              const oldRow = payload?.old;
-              if (payload.eventType === "DELETE" && oldRow) {
-                return prev.filter((p) => p.id !== oldRow.id);
-              }
-              if (!newRow) return prev;
-              const idx = prev.findIndex((p) => p.id === newRow.id);
-              if (idx > -1) {
-                const copy = [...prev];
-                copy[idx] = newRow;
-                return copy;
-              } else {
-                return [newRow, ...prev];
-              }
-            });
-          }
-        )
-        .subscribe();
-    } catch (err) {
-      console.warn("product subscription error:", err);
+    if ((mode === "signup" || mode === "reset") && password.length < MIN_PASSWORD_LENGTH) {
+      return setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
     }
-
-    return () => {
-      try {
-        if (channel?.unsubscribe) channel.unsubscribe();
-      } catch (err) {
-        // ignore
-      }
-    };
-  }, [supermarketId]);
-
-  // --- Orders + realtime (only when user known)
-  useEffect(() => {
-    if (!user) return;
-    let ordersChannel: any = null;
-
-    const fetchOrders = async () => {
-      try {
-        let q = supabase.from("orders").select("*, order_items(*)").eq("supermarket_id", supermarketId).order("created_at", { ascending: false });
-        if (role !== "admin") q = q.eq("user_id", user.id);
-        const res = await q;
-        const data = res.data as Order[] | null;
-        if (data) setOrders(data);
-      } catch (err) {
-        console.warn("fetchOrders error:", err);
-      }
-    };
-
-    fetchOrders();
-
-    try {
-      ordersChannel = supabase
-        .channel(`orders-${supermarketId}`)
-        .on(
-          "postgres_changes",
-          {
-            event: "*",
-            schema: "public",
-            table: "orders",
-            filter: `supermarket_id=eq.${supermarketId}`,
-          },
-          (payload: any) => {
-            setOrders((prev) => {
-              if (payload.eventType === "DELETE" && payload.old) return prev.filter((o) => o.id !== payload.old.id);
-              const newRow = payload?.new;
-              if (!newRow) return prev;
-              const idx = prev.findIndex((o) => o.id === newRow.id);
-              if (idx > -1) {
-                const copy = [...prev];
-                copy[idx] = newRow;
-                return copy;
-              } else {
-                return [newRow, ...prev];
-              }
-            });
-          }
-        )
-        .subscribe();
-    } catch (err) {
-      console.warn("orders subscription error:", err);
+    if ((mode === "signup" || mode === "reset") && password !== confirmPassword) {
+      return setError("Passwords do not match");
     }
 
-    return () => {
-      try {
-        if (ordersChannel?.unsubscribe) ordersChannel.unsubscribe();
-      } catch (err) {
-        // ignore
-      }
-    };
-  }, [supermarketId, user, role]);
-
-  // --- Cart helpers
-  const addToCart = (product: Product) => {
-    if (!product || product.stock === 0) return;
-    setCart((prev) => {
-      const found = prev.find((i) => i.product.id === product.id);
-      if (found) {
-        if (found.quantity < (product.stock ?? Infinity)) {
-          return prev.map((i) => (i.product.id === product.id ? { ...i, quantity: i.quantity + 1 } : i));
+    setSubmitting(true);
+    try {
+      if (mode === "login") {
+        const { error } = await signIn(email, password);
+        if (error) {
+          if (error.toLowerCase().includes("email not confirmed")) setNeedsConfirmation(true);
+          throw new Error(error);
         }
-        return prev;
+        toast.success("Login successful");
+        router.replace(redirectTo);
       }
-      return [...prev, { product, quantity: 1 }];
-    });
-  };
-
-  const removeFromCart = (productId: string) => setCart((prev) => prev.filter((i) => i.product.id !== productId));
-  const updateQuantity = (productId: string, qty: number) => setCart((prev) => prev.map((i) => (i.product.id === productId ? { ...i, quantity: Math.min(Math.max(qty, 1), i.product.stock ?? qty) } : i)));
-
-  // --- Checkout: ensure logged in; create order & redirect to Paystack
-  const handleCheckout = async () => {
-    if (!user) {
-      router.push("/login");
-      return;
-    }
-    if (cart.length === 0) {
-      alert("Cart is empty");
-      return;
-    }
-
-    try {
-      const ids = cart.map((i) => i.product.id);
-      const prodRes = await supabase.from("products").select("*").in("id", ids);
-      const latestProducts = prodRes.data as Product[] | null;
 
-      for (const item of cart) {
-        const latest = latestProducts?.find((p) => p.id === item.product.id);
-        if (!latest || latest.stock < item.quantity) {
-          alert(`Not enough stock for ${item.product.name}`);
-          return;
+      if (mode === "signup") {
+        const { data, error } = await supabase.auth.signUp({
+          email,
+          password,
+          options: { emailRedirectTo: callbackUrl("login") },
+        });
+        if (error) throw error;
+        if (data.session) {
+          toast.success("Signup successful");
+          router.replace(redirectTo);
+        } else {
+          // Email confirmation is on: no session until the link is clicked
+          setNeedsConfirmation(true);
+          setNotice(`We sent a confirmation link to ${email}. Open it to finish signing up.`);
         }
       }
 
-      const total = cart.reduce((sum, i) => sum + i.quantity * (i.product.price ?? 0), 0);
-
-      const orderRes = await supabase.from("orders").insert([{ supermarket_id: supermarketId, user_id: user.id, total_amount: total, status: "pending" }]).select().single();
-      const orderData = orderRes.data as any;
-      if (!orderData || !orderData.id) throw new Error("Order creation failed");
-
-      const orderItems = cart.map((i) => ({ order_id: orderData.id, product_id: i.product.id, quantity: i.quantity, price: i.product.price }));
-      await supabase.from("order_items").insert(orderItems);
-
-      // call server-side API to create Paystack transaction and return authorization_url
-      const res = await fetch("/api/pay", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ email: user.email, amount: total, reference: orderData.id }),
-      });
-      const result = await res.json();
-      if (result?.data?.authorization_url) {
-        window.location.href = result.data.authorization_url;
-      } else {
-        alert("Failed to start payment");
+      if (mode === "forgot") {
+        const { error } = await supabase.auth.resetPasswordForEmail(email, { redirectTo: callbackUrl("reset") });
+        if (error) throw error;
+        setNotice(`If an account exists for ${email}, a password reset link is on its way.`);
       }
-    } catch (err: any) {
-      console.error("checkout error:", err);
-      alert("Checkout error: " + (err?.message || String(err)));
-    }
-  };
-
-  // --- Clear orders
-  const clearOrders = async () => {
-    if (!user) {
-      router.push("/login");
-      return;
-    }
-    try {
-      let q = supabase.from("orders").delete().eq("supermarket_id", supermarketId);
-      if (role !== "admin") q = q.eq("user_id", user.id);
-      const { error } = await q;
-      if (error) throw error;
-      setOrders([]);
-      alert("Orders cleared");
-    } catch (err: any) {
-      console.error("clearOrders error:", err);
-      alert("Error clearing orders: " + (err?.message || String(err)));
-    }
-  };
 
-  // --- Request product
-  const handleRequestProduct = async () => {
-    if (!requestProduct.trim()) return;
-    try {
-      const { error } = await supabase.from("product_requests").insert([{ supermarket_id: supermarketId, request: requestProduct.trim(), created_at: new Date().toISOString() }]);
-      if (error) throw error;
-      setRequestProduct("");
-      setRequestSuccess(true);
-      setTimeout(() => setRequestSuccess(false), 3000);
+      if (mode === "reset") {
+        const { error } = await supabase.auth.updateUser({ password });
+        if (error) throw error;
+        toast.success("Password updated");
+        router.replace(redirectTo);
+      }
     } catch (err) {
-      console.error("request product error:", err);
-      alert("Failed to submit request");
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setSubmitting(false);
     }
   };
 
-  // --- Filter & sort
-  const filteredProducts = products
-    .filter((p) => (p.name || "").toLowerCase().includes(search.toLowerCase()))
-    .sort((a, b) => {
-      if (sortOption === "priceAsc") return (a.price ?? 0) - (b.price ?? 0);
-      if (sortOption === "priceDesc") return (b.price ?? 0) - (a.price ?? 0);
-      if (sortOption === "stock") return (b.stock ?? 0) - (a.stock ?? 0);
-      return 0;
+  const resendConfirmation = async () => {
+    if (!email) return setError("Enter your email first");
+    const { error } = await supabase.auth.resend({
+      type: "signup",
+      email,
+      options: { emailRedirectTo: callbackUrl("login") },
     });
+    if (error) setError(error.message);
+    else setNotice(`Confirmation email re-sent to ${email}.`);
+  };
 
-  return (
-    <div className="p-6 min-h-screen bg-white text-gray-900">
-      {/* Header */}
-      <div className="flex justify-between items-center mb-6">
-        <h1 className="text-2xl font-bold text-blue-700">Supermarket</h1>
+  const showEmail = mode !== "reset";
+  const showPassword = mode !== "forgot";
+  const showConfirm = mode === "signup" || mode === "reset";
+  const resetBlocked = mode === "reset" && !loading && !session;
 
-        <div className="flex gap-2">
-          {!user ? (
-            <>
-              <button onClick={() => router.push("/login")} className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded">Login</button>
-              <button onClick={() => router.push("/login?mode=signup")} className="bg-pink-500 hover:bg-pink-600 text-white px-3 py-1 rounded">Signup</button>
-            </>
-          ) : (
-            <button onClick={async () => { await supabase.auth.signOut(); setUser(null); router.push("/login"); }} className="bg-gray-300 hover:bg-gray-400 text-gray-800 px-3 py-1 rounded">
-              Logout {user?.email ? `(${user.email})` : ""}
-            </button>
-          )}
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-red-50 p-4">
+      <div className="bg-white rounded-lg shadow-md p-8 w-full max-w-md">
+        <div className="text-2xl font-extrabold text-transparent bg-clip-text bg-gradient-to-r from-blue-600 to-red-500 mb-1">
+          SnapCart
         </div>
-      </div>
-
-      {/* Toolbar */}
-      <div className="mb-4 flex flex-col md:flex-row md:items-center md:justify-between gap-2">
-        <input type="text" placeholder="Search products..." value={search} onChange={(e) => setSearch(e.target.value)} className="border p-2 rounded w-full md:w-1/3" />
-        <select value={sortOption} onChange={(e) => setSortOption(e.target.value as SortOption)} className="border p-2 rounded">
-          <option value="priceAsc">Price: Low → High</option>
-          <option value="priceDesc">Price: High → Low</option>
-          <option value="stock">Stock: High → Low</option>
-        </select>
-      </div>
+        <h1 className="text-xl font-semibold mb-6">{TITLES[mode]}</h1>
+
+        {error && <p className="mb-4 rounded bg-red-50 text-red-700 px-3 py-2 text-sm">{error}</p>}
+        {notice && <p className="mb-4 rounded bg-blue-50 text-blue-700 px-3 py-2 text-sm">{notice}</p>}
+        {resetBlocked && (
+          <p className="mb-4 rounded bg-yellow-50 text-yellow-800 px-3 py-2 text-sm">
+            Open the reset link from your email to set a new password. Links expire after a while —{" "}
+            <Link href={hrefFor("forgot")} className="underline">
+              request a new one
+            </Link>
+            .
+          </p>
+        )}
 
-      {/* Products */}
-      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-        {filteredProducts.map((product) => (
-          <div key={product.id} className="border p-3 rounded flex flex-col items-center bg-blue-50">
-            <ImageWithFallback src={product.image_url ?? undefined} alt={product.name ?? "Product"} />
-            <h3 className="font-semibold text-center">{product.name}</h3>
-            {product.description && <p className="text-sm text-center mb-1">{product.description}</p>}
-            <p className="mt-1">KES {product.price}</p>
-            <p className={product.stock && product.stock > 0 ? "text-green-600" : "text-red-600"}>{product.stock && product.stock > 0 ? `${product.stock} in stock` : "Out of stock"}</p>
-            <button onClick={() => addToCart(product)} disabled={!product.stock || product.stock === 0} className="mt-3 bg-pink-500 hover:bg-pink-600 text-white px-3 py-1 rounded disabled:bg-gray-400">Add to Cart</button>
-          </div>
-        ))}
-      </div>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {showEmail && (
+            <div>
+              <label htmlFor="email" className="block font-medium mb-1">
+                Email
+              </label>
+              <input
+                id="email"
+                type="email"
+                required
+                autoComplete="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="w-full border rounded px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-300"
+              />
+            </div>
+          )}
 
-      {/* Cart */}
-      <div className="mt-6 border-t pt-4">
-        <h2 className="text-xl font-bold mb-2 text-blue-700">Cart</h2>
-        {cart.length === 0 && <p>Your cart is empty</p>}
-        {cart.map((item) => (
-          <div key={item.product.id} className="flex justify-between items-center mb-2">
+          {showPassword && (
             <div>
-              <div className="font-medium">{item.product.name}</div>
-              <div className="flex items-center gap-2 mt-1">
-                <button onClick={() => updateQuantity(item.product.id, item.quantity - 1)} disabled={item.quantity <= 1} className="bg-gray-300 px-2 py-1 rounded">−</button>
-                <span className="px-2">{item.quantity}</span>
-                <button onClick={() => updateQuantity(item.product.id, item.quantity + 1)} disabled={item.quantity >= (item.product.stock ?? Infinity)} className="bg-gray-300 px-2 py-1 rounded">+</button>
+              <div className="flex items-center justify-between mb-1">
+                <label htmlFor="password" className="block font-medium">
+                  {mode === "reset" ? "New password" : "Password"}
+                </label>
+                {mode === "login" && (
+                  <Link href={hrefFor("forgot")} className="text-sm text-blue-600 hover:underline">
+                    Forgot password?
+                  </Link>
+                )}
               </div>
+              <input
+                id="password"
+                type="password"
+                required
+                autoComplete={mode === "login" ? "current-password" : "new-password"}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="w-full border rounded px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-300"
+              />
             </div>
+          )}
 
-            <div className="flex items-center gap-4">
-              <div className="text-sm">KES {item.product.price * item.quantity}</div>
-              <button className="text-pink-600" onClick={() => removeFromCart(item.product.id)}>Remove</button>
+          {showConfirm && (
+            <div>
+              <label htmlFor="confirm-password" className="block font-medium mb-1">
+                Confirm password
+              </label>
+              <input
+                id="confirm-password"
+                type="password"
+                required
+                autoComplete="new-password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                className="w-full border rounded px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-300"
+              />
             </div>
-          </div>
-        ))}
+          )}
 
-        {cart.length > 0 && (
-          <>
-            <p className="font-semibold mt-2">Total: KES {cart.reduce((acc, item) => acc + item.quantity * (item.product.price ?? 0), 0)}</p>
-            <button onClick={handleCheckout} className="mt-2 bg-pink-500 hover:bg-pink-600 text-white px-4 py-2 rounded">Checkout</button>
-          </>
+          <button
+            type="submit"
+            disabled={submitting || resetBlocked}
+            className="w-full bg-gradient-to-r from-blue-600 to-red-500 text-white py-2 rounded disabled:opacity-60"
+          >
+            {submitting
+              ? "Please wait…"
+              : { login: "Log in", signup: "Sign up", forgot: "Send reset link", reset: "Update password" }[mode]}
+          </button>
+        </form>
+
+        {needsConfirmation && (
+          <button onClick={resendConfirmation} className="mt-3 text-sm text-blue-600 hover:underline">
+            Resend confirmation email
+          </button>
         )}
-      </div>
-
-      {/* Orders */}
-      <div className="mt-6 border-t pt-4">
-        <div className="flex justify-between items-center mb-2">
-          <h2 className="text-xl font-bold text-blue-700">{role === "admin" ? "All Orders" : "My Orders"}</h2>
-          {orders.length > 0 && <button onClick={clearOrders} className="bg-pink-500 hover:bg-pink-600 text-white px-3 py-1 rounded">Clear Orders</button>}
-        </div>
 
-        {orders.length === 0 && <p>No past orders.</p>}
-        {orders.map((order) => (
-          <div key={order.id} className="border p-2 mb-2 rounded bg-blue-50">
-            <p><span className="font-semibold">Order ID:</span> {order.id}</p>
-            <p><span className="font-semibold">Total:</span> KES {order.total_amount}</p>
-            <p><span className="font-semibold">Status:</span> {order.status}</p>
-            <p><span className="font-semibold">Date:</span> {new Date(order.created_at).toLocaleString()}</p>
-          </div>
-        ))}
-      </div>
-
-      {/* Product request */}
-      <div className="mt-6 border-t pt-4">
-        <h2 className="text-xl font-bold mb-2 text-blue-700">Request a Product</h2>
-        <div className="flex gap-2">
-          <input type="text" placeholder="Enter product name" value={requestProduct} onChange={(e) => setRequestProduct(e.target.value)} className="border p-2 rounded w-full" />
-          <button onClick={handleRequestProduct} className="bg-pink-500 hover:bg-pink-600 text-white px-4 py-2 rounded">Submit</button>
+        <div className="mt-6 text-sm text-gray-600 space-y-1">
+          {mode === "login" && (
+            <p>
+              New to SnapCart?{" "}
+              <Link href={hrefFor("signup")} className="text-red-500 hover:underline">
+                Create an account
+              </Link>
+            </p>
+          )}
+          {mode !== "login" && (
+            <p>
+              {mode === "signup" ? "Already have an account? " : ""}
+              <Link href={hrefFor("login")} className="text-blue-600 hover:underline">
+                Back to log in
+              </Link>
+            </p>
+          )}
+          <p>
+            <Link href={redirectTo} className="text-gray-500 hover:underline">
+              Continue shopping without an account
+            </Link>
+          </p>
         </div>
-        {requestSuccess && <p className="text-green-600 mt-2">Request submitted successfully!</p>}
       </div>
     </div>
   );
 }
+
+export default function LoginPage() {
+  return (
+    <Suspense fallback={null}>
+      <AuthForm />
+    </Suspense>
+  );
+}
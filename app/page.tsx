@@ -2,16 +2,7 @@
 "use client";
 
 import { useEffect, useState } from "react";
-
-interface Product {
-  id: number;
-  name: string;
-  price: number;
-  stock: number;
-  image_url: string;
-  description: string;
-  category: string;
-}
+import type { Product } from "@/lib/models";
 
 export default function HomePage() {
   const [products, setProducts] = useState<Product[]>([]);
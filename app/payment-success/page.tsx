@@ -1,24 +1,16 @@
-"use client";
+import { redirect } from "next/navigation";
 
-import Link from "next/link";
-
-export default function PaymentSuccessPage() {
-  return (
-    <div className="min-h-screen flex items-center justify-center bg-green-50">
-      <div className="bg-white p-8 rounded shadow-md text-center">
-        <h1 className="text-3xl font-bold text-green-700 mb-4">
-          Payment Successful 🎉
-        </h1>
-        <p className="mb-4">
-          Thank you for your order! Your payment has been confirmed.
-        </p>
-        <Link
-          href="/"
-          className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded inline-block"
-        >
-          Back to Home
-        </Link>
-      </div>
-    </div>
-  );
+// Kept for old PAYMENT_SUCCESS_URL values: the return page shows the real outcome
+export default async function PaymentSuccessPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(await searchParams)) {
+    // Repeated params arrive as arrays; forward every value
+    for (const v of [value].flat()) if (v !== undefined) query.append(key, v);
+  }
+  const qs = query.toString();
+  redirect(qs ? `/payment/return?${qs}` : "/payment/return");
 }
@@ -0,0 +1,233 @@
+"use client";
+
+import { Suspense, useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { authFetch } from "@/lib/apiClient";
+import type { OrderSummary, PaymentCheck, VerifyPaymentResponse } from "@/lib/orders";
+import { OrderStatusBadge } from "@/app/components/OrderStatus";
+
+const POLL_INTERVAL_MS = 3000;
+const MAX_POLLS = 20;
+
+type Outcome = "checking" | "confirming" | "success" | "failed" | "cancelled" | "timeout" | "error";
+
+// Paystack statuses after which no charge.success webhook will follow
+const FINAL_FAILED_PAYMENTS = ["failed", "abandoned", "reversed"];
+
+function outcomeFor(order: OrderSummary, payment: PaymentCheck | null): Outcome {
+  if (order.status === "pending") {
+    if (payment && FINAL_FAILED_PAYMENTS.includes(payment.status)) return "failed";
+    return "confirming";
+  }
+  if (order.status === "failed") return "failed";
+  if (order.status === "cancelled") return "cancelled";
+  return "success";
+}
+
+function PaymentReturn() {
+  const searchParams = useSearchParams();
+  const reference = searchParams.get("reference") ?? searchParams.get("trxref");
+
+  const [order, setOrder] = useState<OrderSummary | null>(null);
+  const [payment, setPayment] = useState<PaymentCheck | null>(null);
+  const [outcome, setOutcome] = useState<Outcome>("checking");
+  const [error, setError] = useState<string | null>(null);
+  const [retrying, setRetrying] = useState(false);
+
+  // 1️⃣ Verify the transaction server-side
+  useEffect(() => {
+    if (!reference) return;
+    const verify = async () => {
+      try {
+        const res = await authFetch(`/api/pay/verify?reference=${encodeURIComponent(reference)}`);
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || "Could not verify payment");
+        const verified = data as VerifyPaymentResponse;
+        setOrder(verified.order);
+        setPayment(verified.payment);
+        setOutcome(outcomeFor(verified.order, verified.payment));
+      } catch (err) {
+        console.error("Verify payment error", err);
+        setError(err instanceof Error ? err.message : "Could not verify payment");
+        setOutcome("error");
+      }
+    };
+    verify();
+  }, [reference]);
+
+  // 2️⃣ Poll the order until the webhook settles it
+  const orderId = order?.id;
+  useEffect(() => {
+    if (outcome !== "confirming" || !orderId) return;
+    let polls = 0;
+    const timer = setInterval(async () => {
+      polls += 1;
+      try {
+        const res = await authFetch(`/api/orders/${orderId}`);
+        if (res.ok) {
+          const { order: latest } = (await res.json()) as { order: OrderSummary };
+          setOrder(latest);
+          const next = outcomeFor(latest, payment);
+          if (next !== "confirming") {
+            setOutcome(next);
+            clearInterval(timer);
+            return;
+          }
+        }
+      } catch (err) {
+        console.warn("Order poll error", err);
+      }
+      if (polls >= MAX_POLLS) {
+        setOutcome("timeout");
+        clearInterval(timer);
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [outcome, orderId, payment]);
+
+  const retryPayment = useCallback(async () => {
+    if (!order) return;
+    setRetrying(true);
+    try {
+      const res = await authFetch(`/api/orders/${order.id}/pay`, { method: "POST" });
+      const result = await res.json();
+      if (result?.data?.authorization_url) {
+        window.location.href = result.data.authorization_url;
+        return;
+      }
+      setError(typeof result?.error === "string" ? result.error : "Failed to start payment");
+    } catch (err) {
+      console.error("Retry payment error", err);
+      setError("Failed to start payment");
+    }
+    setRetrying(false);
+  }, [order]);
+
+  if (!reference) {
+    return (
+      <Panel tone="red" title="No payment reference">
+        <p className="mb-4">We could not tell which payment you are returning from.</p>
+        <Link href="/" className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded inline-block">
+          Back to Home
+        </Link>
+      </Panel>
+    );
+  }
+
+  const shopHref = order ? `/supermarket/${order.supermarket_id}` : "/";
+
+  return (
+    <Panel
+      tone={outcome === "success" ? "green" : outcome === "failed" || outcome === "error" ? "red" : "blue"}
+      title={
+        {
+          checking: "Checking your payment…",
+          confirming: "Confirming your payment…",
+          success: "Payment Successful 🎉",
+          failed: "Payment Failed ❌",
+          cancelled: "Order Cancelled",
+          timeout: "Still confirming your payment",
+          error: "We couldn't check your payment",
+        }[outcome]
+      }
+    >
+      {outcome === "confirming" && (
+        <p className="mb-4">Waiting for the payment provider to confirm. This usually takes a few seconds.</p>
+      )}
+      {outcome === "timeout" && (
+        <p className="mb-4">
+          Your payment has not been confirmed yet. You will not be charged twice — check your orders again in a
+          minute.
+        </p>
+      )}
+      {outcome === "failed" && (
+        <p className="mb-4">
+          {payment?.gateway_response || "Your payment did not go through."} Your order is saved, so you can try again.
+        </p>
+      )}
+      {outcome === "cancelled" && <p className="mb-4">This order was cancelled or expired and can no longer be paid.</p>}
+      {error && <p className="mb-4 text-red-600">{error}</p>}
+
+      {order && (
+        <div className="text-left border rounded p-4 mb-4">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-sm text-gray-500">Order {order.id}</span>
+            <OrderStatusBadge status={order.status} />
+          </div>
+          <ul className="divide-y">
+            {order.items.map((item) => (
+              <li key={item.product_id} className="flex justify-between py-1 text-sm">
+                <span>
+                  {item.name ?? "Unavailable product"} × {item.quantity}
+                </span>
+                <span>KES {item.price * item.quantity}</span>
+              </li>
+            ))}
+          </ul>
+          <div className="flex justify-between font-semibold mt-2">
+            <span>Total</span>
+            <span>KES {order.total_amount}</span>
+          </div>
+        </div>
+      )}
+
+      <div className="flex gap-2 justify-center">
+        {outcome === "failed" && order && (
+          <button
+            onClick={retryPayment}
+            disabled={retrying}
+            className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded disabled:opacity-60"
+          >
+            {retrying ? "Starting payment…" : "Retry payment"}
+          </button>
+        )}
+        {outcome === "timeout" && (
+          <button
+            onClick={() => window.location.reload()}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded"
+          >
+            Check again
+          </button>
+        )}
+        <Link href={shopHref} className="bg-gray-100 hover:bg-gray-200 px-4 py-2 rounded inline-block">
+          Back to shop
+        </Link>
+      </div>
+    </Panel>
+  );
+}
+
+function Panel({
+  tone,
+  title,
+  children,
+}: {
+  tone: "green" | "red" | "blue";
+  title: string;
+  children: React.ReactNode;
+}) {
+  const styles = {
+    green: { bg: "bg-green-50", text: "text-green-700" },
+    red: { bg: "bg-red-50", text: "text-red-700" },
+    blue: { bg: "bg-blue-50", text: "text-blue-700" },
+  }[tone];
+
+  return (
+    <div className={`min-h-screen flex items-center justify-center ${styles.bg}`}>
+      <div className="bg-white p-8 rounded shadow-md text-center w-full max-w-md">
+        <h1 className={`text-3xl font-bold mb-4 ${styles.text}`}>{title}</h1>
+        {children}
+      </div>
+    </div>
+  );
+}
+
+export default function PaymentReturnPage() {
+  return (
+    <Suspense fallback={<Panel tone="blue" title="Checking your payment…">{null}</Panel>}>
+      <PaymentReturn />
+    </Suspense>
+  );
+}
@@ -0,0 +1,1115 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState, useTransition } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { useParams, usePathname, useRouter, useSearchParams } from "next/navigation";
+import { supabase } from "@/lib/supabase/browser";
+import { authFetch } from "@/lib/apiClient";
+import type { PlaceOrderResponse } from "@/lib/orders";
+import type { OrderWithItems, Product, Supermarket } from "@/lib/models";
+import { isArchived, isOnSale, normalizeProduct } from "@/lib/products";
+import {
+  PRODUCT_SORTS,
+  PRODUCT_SORT_LABELS,
+  productSearchQuery,
+  shopSearchParams,
+  type ProductFacets,
+  type ProductSearchPage,
+  type ProductSearchParams,
+  type ProductSort,
+} from "@/lib/productSearch";
+import { applyProductChange, subscribeToProducts } from "@/lib/realtime";
+import { canTransition } from "@/lib/orderStatus";
+import { OrderStatusBadge, OrderTimeline } from "@/app/components/OrderStatus";
+import NotificationBell from "@/app/components/NotificationBell";
+import { REQUEST_NAME_MAX, validateRequestName, type RequestProductResult } from "@/lib/productRequests";
+import toast from "react-hot-toast";
+import { motion, AnimatePresence } from "framer-motion";
+import {
+  ShoppingCart,
+  Trash2,
+  LogOut,
+  Plus,
+  Minus,
+  Filter,
+  X,
+  Package,
+} from "lucide-react";
+import { useAuth } from "@/app/context/AuthContext";
+import { useCart } from "./useCart";
+
+// IMAGE FALLBACK COMPONENT
+function ImageWithFallback({ src, alt }: { src?: string | null; alt?: string }) {
+  const defaultSrc = "/placeholder.png";
+  const [s, setS] = useState<string>(src || defaultSrc);
+
+  return (
+    <Image
+      src={s}
+      alt={alt ?? "Product"}
+      width={400}
+      height={400}
+      className="object-cover w-full h-40 rounded-lg"
+      onError={() => setS(defaultSrc)}
+      unoptimized
+    />
+  );
+}
+
+// Search, filters and sort live in the URL (?q=&category=&min_price=&max_price=&in_stock=1&on_sale=1&sort=),
+// so links, refreshes and the back button reproduce the view. The server
+// renders the first page for the URL; further pages load on scroll.
+export default function SupermarketShop({ initialPage }: { initialPage: ProductSearchPage | null }) {
+  const params = useParams();
+  const paramsTyped = useParams<{ id?: string }>();
+  const urlSupermarketId = paramsTyped.id ?? null;
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const urlFilters = useMemo<ProductSearchParams>(() => shopSearchParams(searchParams), [searchParams]);
+  const [isNavigating, startTransition] = useTransition();
+
+  // Data states
+  const [supermarkets, setSupermarkets] = useState<Supermarket[]>([]);
+  const [selectedSupermarket, setSelectedSupermarket] = useState<Supermarket | null>(null);
+  const [products, setProducts] = useState<Product[]>(initialPage?.products ?? []);
+  const [nextCursor, setNextCursor] = useState<string | null>(initialPage?.next_cursor ?? null);
+  const [loadingProducts, setLoadingProducts] = useState<boolean>(false);
+  const { user, signOut, canManage } = useAuth();
+  const isStoreAdmin: boolean = selectedSupermarket ? canManage(selectedSupermarket.id) : false;
+  const cartStore = useCart(selectedSupermarket?.id ?? null);
+  const { items: cart, refreshProduct } = cartStore;
+  const [orders, setOrders] = useState<OrderWithItems[]>([]);
+  const [archivedOrderIds, setArchivedOrderIds] = useState<string[]>([]);
+
+  // UI states
+  const [search, setSearch] = useState<string>(urlFilters.q ?? "");
+  const [sortOption, setSortOption] = useState<ProductSort>(urlFilters.sort);
+  const [cartOpen, setCartOpen] = useState<boolean>(false);
+  const [filtersOpen, setFiltersOpen] = useState<boolean>(false); // mobile filter drawer
+  const [payingOrderId, setPayingOrderId] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState<boolean>(false);
+
+  // Filters
+  const [facets, setFacets] = useState<ProductFacets | null>(initialPage?.facets ?? null);
+  const [selectedCategories, setSelectedCategories] = useState<string[]>(urlFilters.categories);
+  // Price bounds are kept as typed; empty means no bound
+  const [minPrice, setMinPrice] = useState<string>(urlFilters.minPrice?.toString() ?? "");
+  const [maxPrice, setMaxPrice] = useState<string>(urlFilters.maxPrice?.toString() ?? "");
+  const [inStockOnly, setInStockOnly] = useState<boolean>(urlFilters.inStock);
+  const [onSaleOnly, setOnSaleOnly] = useState<boolean>(urlFilters.onSale);
+  // Typed inputs reach the URL (and the server) 300ms after the last keystroke
+  const [typed, setTyped] = useState({ search, minPrice, maxPrice });
+
+  // Fetch supermarkets (and select from URL if present)
+  useEffect(() => {
+    const fetchSupermarkets = async () => {
+      const { data, error } = await supabase.from("supermarkets").select("*");
+      if (error) {
+        toast.error("Failed to load supermarkets");
+        console.error(error);
+        return;
+      }
+      if (data) {
+        setSupermarkets(data);
+        // If URL contains supermarket id, pick that one (if exists)
+        if (urlSupermarketId) {
+          const found = data.find((s) => s.id === urlSupermarketId);
+          if (found) {
+            setSelectedSupermarket(found);
+            return;
+          }
+        }
+        // otherwise default to first
+        if (data.length > 0) router.replace(`/supermarket/${data[0].id}`);
+      }
+    };
+    fetchSupermarkets();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [urlSupermarketId]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setTyped({ search, minPrice, maxPrice }), 300);
+    return () => clearTimeout(timer);
+  }, [search, minPrice, maxPrice]);
+
+  const filters = useMemo<ProductSearchParams>(
+    () =>
+      shopSearchParams(
+        productSearchQuery({
+          q: typed.search.trim(),
+          categories: selectedCategories,
+          minPrice: typed.minPrice.trim() ? Number(typed.minPrice) : null,
+          maxPrice: typed.maxPrice.trim() ? Number(typed.maxPrice) : null,
+          inStock: inStockOnly,
+          onSale: onSaleOnly,
+          sort: sortOption,
+        })
+      ),
+    [typed, selectedCategories, inStockOnly, onSaleOnly, sortOption]
+  );
+
+  // Query string last written to (or read from) the URL
+  const syncedQuery = useRef<string>(productSearchQuery(urlFilters).toString());
+
+  // Filter changes go into the URL; the server renders their first page.
+  // Refining a search replaces the history entry, anything else pushes one.
+  useEffect(() => {
+    const query = productSearchQuery(filters);
+    const next = query.toString();
+    if (next === syncedQuery.current) return;
+
+    const previous = new URLSearchParams(syncedQuery.current);
+    const refining = Boolean(previous.get("q") && query.get("q"));
+    previous.delete("q");
+    query.delete("q");
+    syncedQuery.current = next;
+
+    const href = next ? `${pathname}?${next}` : pathname;
+    startTransition(() => {
+      if (refining && previous.toString() === query.toString()) router.replace(href, { scroll: false });
+      else router.push(href, { scroll: false });
+    });
+  }, [filters, pathname, router]);
+
+  // Back/forward and followed links change the URL under us: adopt its filters
+  useEffect(() => {
+    const query = productSearchQuery(urlFilters).toString();
+    if (query === syncedQuery.current) return;
+    syncedQuery.current = query;
+
+    const typedFromUrl = {
+      search: urlFilters.q ?? "",
+      minPrice: urlFilters.minPrice?.toString() ?? "",
+      maxPrice: urlFilters.maxPrice?.toString() ?? "",
+    };
+    setSearch(typedFromUrl.search);
+    setMinPrice(typedFromUrl.minPrice);
+    setMaxPrice(typedFromUrl.maxPrice);
+    setTyped(typedFromUrl);
+    setSelectedCategories(urlFilters.categories);
+    setInStockOnly(urlFilters.inStock);
+    setOnSaleOnly(urlFilters.onSale);
+    setSortOption(urlFilters.sort);
+  }, [urlFilters]);
+
+  // A new server-rendered first page replaces the list; any page still
+  // loading for the previous filters is dropped
+  const searchSeq = useRef<number>(0);
+  useEffect(() => {
+    searchSeq.current++;
+    setProducts(initialPage?.products ?? []);
+    setNextCursor(initialPage?.next_cursor ?? null);
+    if (initialPage?.facets) setFacets(initialPage.facets);
+    if (!initialPage) toast.error("Failed to load products");
+  }, [initialPage]);
+
+  // Further pages come from the search API, for the filters in the URL
+  const fetchNextPage = useCallback(
+    async (cursor: string) => {
+      if (!selectedSupermarket) return;
+      const seq = searchSeq.current;
+      const query = productSearchQuery({ ...urlFilters, cursor });
+
+      setLoadingProducts(true);
+      try {
+        const res = await fetch(`/api/supermarkets/${selectedSupermarket.id}/products?${query}`);
+        const data = await res.json();
+        if (seq !== searchSeq.current) return;
+        if (!res.ok) throw new Error(data.error || "Failed to load products");
+
+        const page = data as ProductSearchPage;
+        setProducts((prev) => {
+          const seen = new Set(prev.map((p) => p.id));
+          return [...prev, ...page.products.filter((p) => !seen.has(p.id))];
+        });
+        setNextCursor(page.next_cursor);
+      } catch (err) {
+        if (seq !== searchSeq.current) return;
+        console.error("Products error", err);
+        toast.error(err instanceof Error ? err.message : "Failed to load products");
+      } finally {
+        setLoadingProducts(false);
+      }
+    },
+    [selectedSupermarket, urlFilters]
+  );
+
+  // Infinite scroll: load the next page when the sentinel below the grid shows
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor || loadingProducts || isNavigating) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((e) => e.isIntersecting)) fetchNextPage(nextCursor);
+      },
+      { rootMargin: "400px" }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadingProducts, isNavigating, fetchNextPage]);
+
+  // Facet counts follow the catalogue: refetched (at most once a second)
+  // after admins change products
+  const facetsTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const refreshFacets = useCallback(() => {
+    if (!selectedSupermarket || facetsTimer.current) return;
+    const supermarketId = selectedSupermarket.id;
+    facetsTimer.current = setTimeout(async () => {
+      facetsTimer.current = null;
+      const seq = searchSeq.current;
+      try {
+        const res = await fetch(`/api/supermarkets/${supermarketId}/products/facets?${productSearchQuery(urlFilters)}`);
+        if (res.ok && seq === searchSeq.current) setFacets((await res.json()) as ProductFacets);
+      } catch (err) {
+        console.error("Facets error", err);
+      }
+    }, 1000);
+  }, [selectedSupermarket, urlFilters]);
+
+  useEffect(
+    () => () => {
+      if (facetsTimer.current) clearTimeout(facetsTimer.current);
+    },
+    []
+  );
+
+  // Live catalogue changes made by store admins. Only products already listed
+  // are updated; new ones show up on the next search.
+  useEffect(() => {
+    if (!selectedSupermarket) return;
+    return subscribeToProducts(selectedSupermarket.id, (change) => {
+      setProducts((prev) => applyProductChange(prev, change, { addNew: false }));
+      refreshFacets();
+      // Cart lines follow the current price and stock, and go when the product does
+      if (change.type === "delete") refreshProduct(change.id, null);
+      else refreshProduct(change.product.id, isArchived(change.product) ? null : normalizeProduct(change.product));
+    });
+  }, [selectedSupermarket, refreshFacets, refreshProduct]);
+
+  // Fetch orders for current user / supermarket
+  useEffect(() => {
+    if (!selectedSupermarket || !user) return;
+    const fetchOrders = async () => {
+      let query = supabase
+        .from("orders")
+        .select("*, order_items(*), order_status_history(*)")
+        .eq("supermarket_id", selectedSupermarket.id)
+        .order("created_at", { ascending: false });
+      if (!isStoreAdmin) query = query.eq("user_id", user.id);
+      const { data, error } = await query;
+      if (error) {
+        console.error("Orders fetch error", error);
+        toast.error("Failed to load orders");
+        return;
+      }
+      if (data) setOrders(data as OrderWithItems[]);
+
+      // Orders this user archived stay in the database, just out of the main list
+      const { data: archived } = await supabase.from("order_archives").select("order_id").eq("user_id", user.id);
+      setArchivedOrderIds((archived ?? []).map((a) => a.order_id));
+    };
+    fetchOrders();
+  }, [selectedSupermarket, user, isStoreAdmin]);
+
+  // --- AUTH HANDLERS (the /login page sends the user back here afterwards) ---
+  const handleLogin = () => router.push(`/login?redirect=${encodeURIComponent(pathname)}`);
+  const handleSignup = () => router.push(`/login?mode=signup&redirect=${encodeURIComponent(pathname)}`);
+
+  const handleLogout = async () => {
+    await signOut();
+    toast.success("Logged out");
+  };
+
+  // --- CART HELPERS (same functionality) ---
+  const addToCart = (product: Product) => {
+    if (!product || product.stock === 0) {
+      toast.error("Out of stock");
+      return;
+    }
+    if (!cartStore.loaded) return;
+    const existing = cart.some((i) => i.product.id === product.id);
+    if (cartStore.add(product) === 0) return toast.error("No more stock available");
+    toast.success(existing ? `${product.name} quantity updated` : `${product.name} added to cart`);
+  };
+
+  const removeFromCart = (productId: string) => {
+    cartStore.remove(productId);
+    toast.success("Removed from cart");
+  };
+
+  const updateQuantity = (productId: string, qty: number) => {
+    if (qty <= 0) return;
+    cartStore.setQuantity(productId, qty);
+  };
+
+  // --- CHECKOUT (stock is validated and reserved server-side by /api/orders) ---
+  const handleCheckout = async () => {
+    if (!user || !selectedSupermarket) return toast.error("Please login first");
+    if (cart.length === 0) return toast.error("Cart is empty");
+
+    try {
+      const res = await authFetch("/api/orders", {
+        method: "POST",
+        body: JSON.stringify({
+          supermarket_id: selectedSupermarket.id,
+          items: cart.map((i) => ({ product_id: i.product.id, quantity: i.quantity })),
+        }),
+      });
+      const result: PlaceOrderResponse = await res.json();
+
+      if ("error" in result) {
+        if (result.shortages?.length) {
+          // Cut the cart to what is actually available so the shopper can retry;
+          // the cart reports each change. No name means the product is gone.
+          for (const s of result.shortages) {
+            const item = cart.find((i) => i.product.id === s.product_id);
+            if (!item) continue;
+            refreshProduct(s.product_id, s.name === null ? null : { ...item.product, stock: s.available });
+          }
+          return;
+        }
+        throw new Error(result.error);
+      }
+
+      cartStore.clear();
+      toast.success("Order placed successfully!");
+      // refresh orders list
+      let query = supabase
+        .from("orders")
+        .select("*, order_items(*), order_status_history(*)")
+        .eq("supermarket_id", selectedSupermarket.id)
+        .order("created_at", { ascending: false });
+      if (!isStoreAdmin) query = query.eq("user_id", user.id);
+      const { data: newOrders } = await query;
+      if (newOrders) setOrders(newOrders as OrderWithItems[]);
+    } catch (err) {
+      console.error("Checkout error:", err);
+      toast.error("Something went wrong during checkout");
+    }
+  };
+
+  // Resume payment for an order left pending (e.g. the Paystack tab was closed)
+  const payNow = async (orderId: string) => {
+    setPayingOrderId(orderId);
+    try {
+      const res = await authFetch(`/api/orders/${orderId}/pay`, { method: "POST" });
+      const result = await res.json();
+      if (result?.data?.authorization_url) {
+        window.location.href = result.data.authorization_url;
+        return;
+      }
+      toast.error(typeof result?.error === "string" ? result.error : "Failed to start payment");
+      if (res.status === 410) {
+        setOrders((prev) => prev.map((o) => (o.id === orderId ? { ...o, status: "cancelled" } : o)));
+      }
+    } catch (err) {
+      console.error("Pay now error:", err);
+      toast.error("Failed to start payment");
+    }
+    setPayingOrderId(null);
+  };
+
+  // --- ADMIN ORDER ACTIONS ---
+  const cancelOrder = async (orderId: string) => {
+    if (!confirm("Cancel this unpaid order and release its stock?")) return;
+    const res = await authFetch(`/api/admin/orders/${orderId}/cancel`, { method: "POST", body: "{}" });
+    const result = await res.json();
+    if (!res.ok) return toast.error(result.error || "Failed to cancel order");
+    setOrders((prev) => prev.map((o) => (o.id === orderId ? { ...o, status: "cancelled" } : o)));
+    toast.success("Order cancelled");
+  };
+
+  const refundOrder = async (order: OrderWithItems) => {
+    const input = prompt(`Refund amount in KES (leave empty for a full refund of KES ${order.total_amount}):`);
+    if (input === null) return;
+    const amount = input.trim() ? Number(input) : undefined;
+    if (amount !== undefined && !(amount > 0)) return toast.error("Enter a positive amount");
+    const res = await authFetch(`/api/admin/orders/${order.id}/refund`, {
+      method: "POST",
+      body: JSON.stringify(amount !== undefined ? { amount } : {}),
+    });
+    const result = await res.json();
+    if (!res.ok) return toast.error(result.error || "Refund failed");
+    toast.success("Refund requested — it will complete once Paystack confirms");
+  };
+
+  // Archive (hide) orders for the current user; nothing is deleted
+  const archiveOrders = async (orderIds: string[]) => {
+    if (!user || orderIds.length === 0) return;
+    const { error } = await supabase
+      .from("order_archives")
+      .upsert(
+        orderIds.map((order_id) => ({ order_id, user_id: user.id })),
+        { onConflict: "order_id,user_id", ignoreDuplicates: true }
+      );
+    if (error) {
+      toast.error("Failed to archive orders");
+      console.error(error);
+      return;
+    }
+    setArchivedOrderIds((prev) => Array.from(new Set([...prev, ...orderIds])));
+    toast.success(orderIds.length === 1 ? "Order archived" : "Orders archived");
+  };
+
+  const restoreOrders = async (orderIds: string[]) => {
+    if (!user || orderIds.length === 0) return;
+    const { error } = await supabase
+      .from("order_archives")
+      .delete()
+      .eq("user_id", user.id)
+      .in("order_id", orderIds);
+    if (error) {
+      toast.error("Failed to restore orders");
+      console.error(error);
+      return;
+    }
+    setArchivedOrderIds((prev) => prev.filter((id) => !orderIds.includes(id)));
+    toast.success(orderIds.length === 1 ? "Order restored" : "Orders restored");
+  };
+
+  // Product request: merged with other shoppers' requests for the same product
+  const handleRequestProduct = async (requestName: string) => {
+    if (!requestName || !selectedSupermarket) return;
+    if (!user) return toast.error("Please login to request a product");
+    const { data, error } = await supabase.rpc("request_product", {
+      p_supermarket_id: selectedSupermarket.id,
+      p_name: requestName,
+    });
+    if (error) {
+      toast.error("Failed to submit request");
+      console.error(error);
+      return;
+    }
+    const result = data as unknown as RequestProductResult;
+    if (result.status === "in_stock") {
+      toast.success(`${requestName} is already in stock`);
+      setSearch(requestName);
+    } else if (result.already_voted) {
+      toast("You have already requested this product");
+    } else if (result.created) {
+      toast.success("Product request submitted. We'll notify you when it's stocked.");
+    } else {
+      toast.success(`Added your vote: ${result.votes} shoppers want this. We'll notify you when it's stocked.`);
+    }
+  };
+
+  const resetFilters = () => {
+    setMinPrice("");
+    setMaxPrice("");
+    setTyped((prev) => ({ ...prev, minPrice: "", maxPrice: "" }));
+    setInStockOnly(false);
+    setSelectedCategories([]);
+    setOnSaleOnly(false);
+    toast.success("Filters reset");
+  };
+
+  // UI helpers
+  const visibleOrders: OrderWithItems[] = orders.filter((o) => archivedOrderIds.includes(o.id) === showArchived);
+  const cartTotal: number = cart.reduce((sum, item) => sum + (item.product.price ?? 0) * item.quantity, 0);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-red-50 text-gray-900">
+      {/* HEADER */}
+      <header className="flex items-center justify-between px-4 py-3 bg-white shadow-md sticky top-0 z-30">
+        <div className="flex items-center gap-4">
+          <div className="text-2xl font-extrabold text-transparent bg-clip-text bg-gradient-to-r from-blue-600 to-red-500">
+            SnapCart
+          </div>
+          <div className="hidden md:block">
+            <select
+              value={selectedSupermarket?.id ?? ""}
+              onChange={(e) => {
+                if (e.target.value !== selectedSupermarket?.id) router.push(`/supermarket/${e.target.value}`);
+              }}
+              className="border rounded-lg px-3 py-1"
+            >
+              {supermarkets.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="flex-1 px-4 hidden md:flex items-center justify-center">
+          <div className="w-full max-w-2xl">
+            <input
+              type="search"
+              placeholder="Search products..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="w-full border rounded-lg px-4 py-2 shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-300"
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => setFiltersOpen((s) => !s)}
+            className="inline-flex items-center gap-2 px-3 py-2 rounded bg-white hover:shadow"
+            title="Filters"
+          >
+            <Filter size={16} className="text-blue-600" />
+            <span className="hidden sm:inline text-sm">Filters</span>
+          </button>
+
+          {isStoreAdmin && selectedSupermarket && (
+            <Link
+              href={`/admin/${selectedSupermarket.id}/orders`}
+              className="hidden sm:inline-flex items-center gap-2 px-3 py-2 rounded bg-blue-50 text-blue-700 text-sm hover:shadow"
+            >
+              <Package size={16} /> Manage store
+            </Link>
+          )}
+
+          <NotificationBell />
+
+          {!user ? (
+            <>
+              <button onClick={handleLogin} className="px-3 py-2 rounded bg-blue-600 text-white hover:opacity-95">
+                Login
+              </button>
+              <button onClick={handleSignup} className="px-3 py-2 rounded bg-red-500 text-white hover:opacity-95">
+                Signup
+              </button>
+            </>
+          ) : (
+            <button onClick={handleLogout} className="px-3 py-2 rounded bg-gray-100 flex items-center gap-2">
+              <LogOut size={16} /> <span className="hidden sm:inline">Logout</span>
+            </button>
+          )}
+
+          <button
+            onClick={() => setCartOpen(true)}
+            className="relative p-2 rounded-full bg-gradient-to-r from-blue-100 to-red-100"
+            aria-label="Open cart"
+          >
+            <ShoppingCart className="text-blue-700" />
+            {cart.length > 0 && (
+              <span className="absolute -top-1 -right-1 bg-red-500 text-white text-xs px-2 py-0.5 rounded-full">
+                {cart.length}
+              </span>
+            )}
+          </button>
+        </div>
+      </header>
+
+      <div className="flex">
+        {/* DESKTOP FILTERS */}
+        <aside className="hidden md:block w-64 p-4">
+          <div className="bg-white rounded-lg shadow p-4 sticky top-20">
+            <h3 className="font-semibold text-lg mb-3 flex items-center gap-2">
+              <Filter size={18} /> Filters
+            </h3>
+
+            <CategoryFacet facets={facets} selected={selectedCategories} onChange={setSelectedCategories} />
+
+            <div className="mb-3">
+              <label className="block font-medium mb-2">Price range</label>
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  min={0}
+                  placeholder="Min"
+                  value={minPrice}
+                  onChange={(e) => setMinPrice(e.target.value)}
+                  className="w-1/2 border rounded px-2 py-1"
+                />
+                <input
+                  type="number"
+                  min={0}
+                  placeholder="Max"
+                  value={maxPrice}
+                  onChange={(e) => setMaxPrice(e.target.value)}
+                  className="w-1/2 border rounded px-2 py-1"
+                />
+              </div>
+            </div>
+
+            <div className="mb-4 space-y-1">
+              <ToggleFacet label="In stock only" count={facets?.in_stock} checked={inStockOnly} onChange={setInStockOnly} />
+              <ToggleFacet label="On sale" count={facets?.on_sale} checked={onSaleOnly} onChange={setOnSaleOnly} />
+            </div>
+
+            <div className="flex gap-2">
+              <button onClick={resetFilters} className="px-3 py-2 bg-blue-600 text-white rounded">
+                Reset
+              </button>
+              <button
+                onClick={() => setFiltersOpen(false)}
+                className="px-3 py-2 bg-gray-100 rounded"
+              >
+                Done
+              </button>
+            </div>
+          </div>
+        </aside>
+
+        {/* MAIN */}
+        <main className="flex-1 p-6">
+          {/* Toolbar row (mobile search + sort) */}
+          <div className="flex flex-col md:flex-row items-start md:items-center justify-between gap-4 mb-6">
+            <div className="md:hidden w-full">
+              <input
+                type="search"
+                placeholder="Search products..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="w-full border rounded-lg px-4 py-2 shadow-sm"
+              />
+            </div>
+
+            <div className="flex items-center gap-3 w-full md:w-auto">
+              {facets && (
+                <span className="text-sm text-gray-500 whitespace-nowrap">
+                  {facets.total} product{facets.total === 1 ? "" : "s"}
+                </span>
+              )}
+              <select
+                value={sortOption}
+                onChange={(e) => setSortOption(e.target.value as ProductSort)}
+                className="border rounded px-3 py-2"
+              >
+                {PRODUCT_SORTS.map((s) => (
+                  <option key={s} value={s}>
+                    {PRODUCT_SORT_LABELS[s]}
+                  </option>
+                ))}
+              </select>
+
+              {/* mobile filters button */}
+              <button
+                onClick={() => setFiltersOpen(true)}
+                className="md:hidden px-3 py-2 bg-white rounded shadow inline-flex items-center gap-2"
+              >
+                <Filter size={16} /> Filters
+              </button>
+            </div>
+          </div>
+
+          {/* PRODUCTS GRID */}
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-6">
+            <AnimatePresence mode="popLayout">
+              {products.map((product) => (
+                <motion.div
+                  key={product.id}
+                  layout
+                  whileHover={{ scale: 1.03 }}
+                  initial={{ opacity: 0, y: 6 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: 6 }}
+                  transition={{ type: "spring", stiffness: 300, damping: 20 }}
+                  className="bg-white rounded-lg shadow p-4 flex flex-col"
+                >
+                  <Link
+                    href={`/supermarket/${product.supermarket_id}/product/${product.id}`}
+                    className="relative block h-40 w-full overflow-hidden rounded"
+                  >
+                    <ImageWithFallback src={product.image_url ?? undefined} alt={product.name} />
+                    {isOnSale(product) && (
+                      <span className="absolute top-2 left-2 bg-red-500 text-white text-xs font-semibold px-2 py-0.5 rounded">
+                        Sale
+                      </span>
+                    )}
+                  </Link>
+                  <h3 className="font-semibold mt-3 text-blue-700">
+                    <Link href={`/supermarket/${product.supermarket_id}/product/${product.id}`} className="hover:underline">
+                      {product.name}
+                    </Link>
+                  </h3>
+                  <p className="text-sm text-gray-600 line-clamp-2">{product.description}</p>
+                  <div className="mt-2 flex items-center justify-between gap-4">
+                    <div>
+                      <div className="text-red-600 font-bold">
+                        KES {product.price}
+                        {isOnSale(product) && (
+                          <span className="ml-2 text-xs text-gray-400 line-through font-normal">
+                            KES {product.compare_at_price}
+                          </span>
+                        )}
+                      </div>
+                      <div className={product.stock && product.stock > 0 ? "text-green-600 text-sm" : "text-red-600 text-sm"}>
+                        {product.stock && product.stock > 0 ? `${product.stock} in stock` : "Out of stock"}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => addToCart(product)}
+                      disabled={!product.stock || product.stock === 0}
+                      className="bg-gradient-to-r from-blue-600 to-red-500 text-white px-3 py-2 rounded shadow hover:opacity-95"
+                    >
+                      Add
+                    </button>
+                  </div>
+                </motion.div>
+              ))}
+            </AnimatePresence>
+          </div>
+
+          {!loadingProducts && !isNavigating && products.length === 0 && (
+            <p className="text-center text-gray-500 py-10">No products match your search.</p>
+          )}
+          <div ref={sentinelRef} className="h-10 flex items-center justify-center text-sm text-gray-500">
+            {(loadingProducts || isNavigating) && "Loading products…"}
+          </div>
+
+          {/* REQUEST PRODUCT */}
+          <div className="mt-8 bg-white rounded-lg p-4 shadow">
+            <h3 className="font-semibold mb-3">Request a Product</h3>
+            <ProductRequestForm onRequest={handleRequestProduct} />
+          </div>
+        </main>
+      </div>
+
+      {/* ORDERS SECTION */}
+      <section className="p-6 bg-gray-50 border-t">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold text-blue-700">
+            {showArchived ? "Archived Orders" : isStoreAdmin ? "All Orders" : "My Orders"}
+          </h2>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setShowArchived((v) => !v)}
+              className="bg-white px-3 py-2 rounded shadow text-sm"
+            >
+              {showArchived ? "Back to orders" : `Archived (${archivedOrderIds.length})`}
+            </button>
+            {visibleOrders.length > 0 && (
+              <button
+                onClick={() => {
+                  const ids = visibleOrders.map((o) => o.id);
+                  if (showArchived) restoreOrders(ids);
+                  else if (confirm("Archive all orders shown? You can restore them from Archived.")) archiveOrders(ids);
+                }}
+                className="bg-red-500 text-white px-3 py-2 rounded hover:scale-105 transform transition"
+              >
+                {showArchived ? "Restore all" : "Archive all"}
+              </button>
+            )}
+          </div>
+        </div>
+
+        {visibleOrders.length === 0 ? (
+          <p>{showArchived ? "No archived orders." : "No past orders."}</p>
+        ) : (
+          <div className="grid gap-4">
+            <AnimatePresence>
+              {visibleOrders.map((order) => (
+                <motion.div
+                  key={order.id}
+                  initial={{ opacity: 0, y: 6 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: 6 }}
+                  transition={{ duration: 0.18 }}
+                  className="bg-white rounded shadow p-4"
+                >
+                  <p><span className="font-semibold">Order ID:</span> {order.id}</p>
+                  <p><span className="font-semibold">Total:</span> KES {order.total_amount}</p>
+                  <p><span className="font-semibold">Status:</span> <OrderStatusBadge status={order.status} /></p>
+                  <p><span className="font-semibold">Date:</span> {new Date(order.created_at).toLocaleString()}</p>
+                  <OrderTimeline history={order.order_status_history ?? []} />
+                  {(order.status === "pending" || order.status === "failed") && order.user_id === user?.id && (
+                    <button
+                      onClick={() => payNow(order.id)}
+                      disabled={payingOrderId === order.id}
+                      className="mt-3 bg-gradient-to-r from-blue-600 to-red-500 text-white px-4 py-2 rounded disabled:opacity-60"
+                    >
+                      {payingOrderId === order.id ? "Starting payment…" : "Pay now"}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => (showArchived ? restoreOrders([order.id]) : archiveOrders([order.id]))}
+                    className="mt-3 mr-2 px-3 py-1 rounded bg-gray-100 text-sm"
+                  >
+                    {showArchived ? "Restore" : "Archive"}
+                  </button>
+                  {isStoreAdmin && (
+                    <div className="mt-3 flex gap-2">
+                      {canTransition(order.status, "cancelled") && (
+                        <button onClick={() => cancelOrder(order.id)} className="px-3 py-1 rounded bg-gray-100 text-sm">
+                          Cancel order
+                        </button>
+                      )}
+                      {canTransition(order.status, "refunded") && (
+                        <button onClick={() => refundOrder(order)} className="px-3 py-1 rounded bg-red-100 text-red-700 text-sm">
+                          Refund
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </motion.div>
+              ))}
+            </AnimatePresence>
+          </div>
+        )}
+      </section>
+
+      {/* CART DRAWER */}
+      <AnimatePresence>
+        {cartOpen && (
+          <>
+            <motion.div
+              key="overlay"
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 0.5 }}
+              exit={{ opacity: 0 }}
+              className="fixed inset-0 bg-black z-40"
+              onClick={() => setCartOpen(false)}
+            />
+            <motion.aside
+              key="drawer"
+              initial={{ x: 300 }}
+              animate={{ x: 0 }}
+              exit={{ x: 300 }}
+              transition={{ type: "spring", stiffness: 300, damping: 30 }}
+              className="fixed right-0 top-0 h-full w-96 bg-white z-50 shadow-lg flex flex-col"
+            >
+              <div className="flex items-center justify-between p-4 border-b">
+                <div className="flex items-center gap-2">
+                  <ShoppingCart />
+                  <h3 className="font-semibold">Your Cart</h3>
+                </div>
+                <button onClick={() => setCartOpen(false)} className="p-2">
+                  <X />
+                </button>
+              </div>
+
+              <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                {cartStore.notices.length > 0 && (
+                  <div className="bg-yellow-50 border border-yellow-200 rounded p-3 text-sm text-yellow-800">
+                    <ul className="list-disc pl-4 space-y-1">
+                      {cartStore.notices.map((n) => (
+                        <li key={n.product_id}>{n.message}</li>
+                      ))}
+                    </ul>
+                    <button onClick={cartStore.dismissNotices} className="mt-2 text-yellow-900 underline">
+                      Dismiss
+                    </button>
+                  </div>
+                )}
+                {cart.length === 0 && <p className="text-gray-500">Your cart is empty</p>}
+                <AnimatePresence>
+                  {cart.map((item) => (
+                    <motion.div
+                      layout
+                      key={item.product.id}
+                      initial={{ opacity: 0, y: 6 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      exit={{ opacity: 0, y: 6 }}
+                      className="flex items-start justify-between gap-3"
+                    >
+                      <div className="w-14 h-14 overflow-hidden rounded">
+                        <ImageWithFallback src={item.product.image_url ?? undefined} alt={item.product.name} />
+                      </div>
+                      <div className="flex-1">
+                        <div className="font-semibold">{item.product.name}</div>
+                        <div className="text-sm text-gray-500">KES {item.product.price}</div>
+                        <div className="mt-2 flex items-center gap-2">
+                          <button
+                            onClick={() => updateQuantity(item.product.id, item.quantity - 1)}
+                            disabled={item.quantity <= 1}
+                            className="px-2 py-1 rounded bg-gray-100"
+                          >
+                            <Minus size={12} />
+                          </button>
+                          <div className="px-2">{item.quantity}</div>
+                          <button
+                            onClick={() => updateQuantity(item.product.id, item.quantity + 1)}
+                            disabled={item.quantity >= (item.product.stock ?? Infinity)}
+                            className="px-2 py-1 rounded bg-gray-100"
+                          >
+                            <Plus size={12} />
+                          </button>
+                        </div>
+                      </div>
+                      <div className="flex flex-col items-end gap-2">
+                        <div className="font-medium">KES {item.product.price * item.quantity}</div>
+                        <button
+                          onClick={() => removeFromCart(item.product.id)}
+                          className="text-red-500 text-sm flex items-center gap-1"
+                        >
+                          <Trash2 size={14} /> Remove
+                        </button>
+                      </div>
+                    </motion.div>
+                  ))}
+                </AnimatePresence>
+              </div>
+
+              <div className="p-4 border-t">
+                <div className="flex items-center justify-between mb-3">
+                  <div className="font-semibold">Total</div>
+                  <div className="text-red-600 font-bold">KES {cartTotal}</div>
+                </div>
+                <button
+                  onClick={handleCheckout}
+                  className="w-full bg-gradient-to-r from-blue-600 to-red-500 text-white py-2 rounded"
+                  disabled={cart.length === 0}
+                >
+                  Checkout
+                </button>
+              </div>
+            </motion.aside>
+          </>
+        )}
+      </AnimatePresence>
+
+      {/* MOBILE FILTER DRAWER */}
+      <AnimatePresence>
+        {filtersOpen && (
+          <>
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 0.4 }}
+              exit={{ opacity: 0 }}
+              className="fixed inset-0 bg-black z-40"
+              onClick={() => setFiltersOpen(false)}
+            />
+            <motion.div
+              initial={{ x: -300 }}
+              animate={{ x: 0 }}
+              exit={{ x: -300 }}
+              transition={{ type: "spring", stiffness: 300 }}
+              className="fixed left-0 top-0 h-full w-80 bg-white z-50 p-4"
+            >
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="font-semibold text-lg">Filters</h3>
+                <button onClick={() => setFiltersOpen(false)} className="p-2">
+                  <X />
+                </button>
+              </div>
+
+              <CategoryFacet facets={facets} selected={selectedCategories} onChange={setSelectedCategories} />
+
+              <div>
+                <label className="font-medium block mb-2">Price range</label>
+                <div className="flex gap-2">
+                  <input type="number" min={0} placeholder="Min" value={minPrice} onChange={(e) => setMinPrice(e.target.value)} className="w-1/2 border rounded px-2 py-1" />
+                  <input type="number" min={0} placeholder="Max" value={maxPrice} onChange={(e) => setMaxPrice(e.target.value)} className="w-1/2 border rounded px-2 py-1" />
+                </div>
+              </div>
+
+              <div className="mt-4 space-y-1">
+                <ToggleFacet label="In stock only" count={facets?.in_stock} checked={inStockOnly} onChange={setInStockOnly} />
+                <ToggleFacet label="On sale" count={facets?.on_sale} checked={onSaleOnly} onChange={setOnSaleOnly} />
+              </div>
+
+              <div className="mt-4 flex gap-2">
+                <button onClick={resetFilters} className="px-3 py-2 bg-blue-600 text-white rounded">Reset</button>
+                <button onClick={() => setFiltersOpen(false)} className="px-3 py-2 bg-gray-100 rounded">Close</button>
+              </div>
+            </motion.div>
+          </>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
+
+/* -------------------------
+   Filter facets, shared by the sidebar and the mobile drawer.
+   Counts come from the server and follow the other filters.
+   ------------------------- */
+function CategoryFacet({
+  facets,
+  selected,
+  onChange,
+}: {
+  facets: ProductFacets | null;
+  selected: string[];
+  onChange: (categories: string[]) => void;
+}) {
+  // A selected category stays listed even if the store no longer has it
+  const options = [
+    ...(facets?.categories ?? []),
+    ...selected.filter((c) => !facets?.categories.some((f) => f.name === c)).map((name) => ({ name, count: 0 })),
+  ];
+
+  return (
+    <div className="mb-4">
+      <div className="flex items-center justify-between mb-2">
+        <span className="font-medium">Category</span>
+        {selected.length > 0 && (
+          <button onClick={() => onChange([])} className="text-xs text-blue-600">
+            Clear
+          </button>
+        )}
+      </div>
+      <div className="max-h-60 overflow-y-auto space-y-1">
+        {options.map(({ name, count }) => {
+          const checked = selected.includes(name);
+          return (
+            <label key={name} className={`flex items-center gap-2 text-sm ${count === 0 && !checked ? "text-gray-400" : ""}`}>
+              <input
+                type="checkbox"
+                checked={checked}
+                onChange={() => onChange(checked ? selected.filter((c) => c !== name) : [...selected, name])}
+                className="accent-blue-600"
+              />
+              <span className="flex-1">{name}</span>
+              <span className="text-xs text-gray-500">{count}</span>
+            </label>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function ToggleFacet({
+  label,
+  count,
+  checked,
+  onChange,
+}: {
+  label: string;
+  count: number | undefined;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}) {
+  return (
+    <label className="flex items-center gap-2 text-sm">
+      <input type="checkbox" checked={checked} onChange={(e) => onChange(e.target.checked)} className="accent-blue-600" />
+      <span className="flex-1">{label}</span>
+      {count !== undefined && <span className="text-xs text-gray-500">{count}</span>}
+    </label>
+  );
+}
+
+/* -------------------------
+   Small sub-component: Request form
+   kept inline to keep one-file as requested
+   ------------------------- */
+function ProductRequestForm({ onRequest }: { onRequest: (name: string) => void }) {
+  const [value, setValue] = useState<string>("");
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        const error = validateRequestName(value);
+        if (error) {
+          toast.error(error);
+          return;
+        }
+        onRequest(value.trim());
+        setValue("");
+      }}
+      className="flex flex-col sm:flex-row gap-3"
+    >
+      <input
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        placeholder="What product would you like us to add?"
+        maxLength={REQUEST_NAME_MAX}
+        className="flex-1 border rounded px-3 py-2"
+      />
+      <button type="submit" className="bg-gradient-to-r from-blue-600 to-red-500 text-white px-4 py-2 rounded">
+        Request
+      </button>
+    </form>
+  );
+}
\ No newline at end of file
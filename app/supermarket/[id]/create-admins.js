@@ -52,7 +52,7 @@ async function createAdmins() {
       const { error: profileError } = await supabase
         .from('profiles')
         .insert([
-          { id: userId, role: 'admin', supermarket_id: null, created_at: new Date().toISOString() }
+          { id: userId, role: 'super_admin', supermarket_id: null, created_at: new Date().toISOString() }
         ])
 
       if (profileError) console.error('Error inserting profile:', email, profileError.message)
@@ -0,0 +1,70 @@
+// app/supermarket/[id]/product/[productId]/AddToCart.tsx
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import toast from "react-hot-toast";
+import { Minus, Plus, ShoppingCart } from "lucide-react";
+import type { Product } from "@/lib/models";
+import { useCart } from "../../useCart";
+
+// Quantity picker that adds to the same cart the shop page shows
+export default function AddToCart({ product }: { product: Product }) {
+  const [quantity, setQuantity] = useState<number>(1);
+  const cart = useCart(product.supermarket_id);
+  const inCart = cart.items.find((i) => i.product.id === product.id)?.quantity ?? 0;
+
+  const available = Math.max(0, product.stock - inCart);
+
+  const add = () => {
+    const added = cart.add(product, quantity);
+    if (added === 0) return toast.error(product.stock === 0 ? "Out of stock" : "No more stock available");
+    setQuantity(1);
+    toast.success(added < quantity ? `Only ${added} more could be added` : `${product.name} added to cart`);
+  };
+
+  if (product.stock === 0) {
+    return <p className="text-red-600 font-medium">Out of stock</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-3">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setQuantity((q) => Math.max(1, q - 1))}
+            disabled={quantity <= 1}
+            className="px-2 py-2 rounded bg-gray-100"
+            aria-label="Decrease quantity"
+          >
+            <Minus size={14} />
+          </button>
+          <div className="w-8 text-center">{quantity}</div>
+          <button
+            onClick={() => setQuantity((q) => Math.min(Math.max(available, 1), q + 1))}
+            disabled={quantity >= available}
+            className="px-2 py-2 rounded bg-gray-100"
+            aria-label="Increase quantity"
+          >
+            <Plus size={14} />
+          </button>
+        </div>
+        <button
+          onClick={add}
+          disabled={!cart.loaded || available === 0}
+          className="inline-flex items-center gap-2 bg-gradient-to-r from-blue-600 to-red-500 text-white px-5 py-2 rounded shadow hover:opacity-95 disabled:opacity-50"
+        >
+          <ShoppingCart size={16} /> Add to cart
+        </button>
+      </div>
+      {inCart > 0 && (
+        <p className="text-sm text-gray-600">
+          {inCart} in your cart ·{" "}
+          <Link href={`/supermarket/${product.supermarket_id}`} className="text-blue-600 hover:underline">
+            Go to checkout
+          </Link>
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+// app/supermarket/[id]/product/[productId]/PriceHistory.tsx
+import type { ProductPrice } from "@/lib/models";
+
+const WIDTH = 320;
+const HEIGHT = 80;
+const CHANGES_LISTED = 5;
+
+function formatDate(iso: string) {
+  return new Date(iso).toLocaleDateString("en-KE", { day: "numeric", month: "short", year: "numeric" });
+}
+
+// Step chart of the price from its first recorded value until now, plus the
+// latest changes. `history` is oldest first; rows where only the "was" price
+// changed are skipped.
+export default function PriceHistory({ history: rows }: { history: ProductPrice[] }) {
+  const history = rows.filter((h, i) => i === 0 || Number(h.price) !== Number(rows[i - 1].price));
+  if (history.length < 2) {
+    return <p className="text-sm text-gray-500">No price changes yet.</p>;
+  }
+
+  const prices = history.map((h) => Number(h.price));
+  const times = history.map((h) => new Date(h.recorded_at).getTime());
+  const start = times[0];
+  const end = Math.max(Date.now(), times[times.length - 1]);
+  const low = Math.min(...prices);
+  const high = Math.max(...prices);
+  const x = (t: number) => ((t - start) / (end - start || 1)) * WIDTH;
+  const y = (p: number) => (high === low ? HEIGHT / 2 : 4 + ((high - p) / (high - low)) * (HEIGHT - 8));
+
+  // Horizontal until the next change, then vertical to the new price
+  const path = prices
+    .map((p, i) => {
+      const point = `${x(times[i]).toFixed(1)},${y(p).toFixed(1)}`;
+      return i === 0 ? `M${point}` : `H${x(times[i]).toFixed(1)} V${y(p).toFixed(1)}`;
+    })
+    .join(" ")
+    .concat(` H${WIDTH}`);
+
+  const changes = history.slice(1).reverse().slice(0, CHANGES_LISTED);
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-24" role="img" aria-label="Price history chart">
+        <path d={path} fill="none" stroke="#2563eb" strokeWidth={2} />
+      </svg>
+      <p className="text-xs text-gray-500 mt-1">
+        Since {formatDate(history[0].recorded_at)}: lowest KES {low}, highest KES {high}
+      </p>
+      <ul className="mt-2 text-sm space-y-1">
+        {changes.map((change, i) => {
+          const previous = Number(history[history.length - 1 - i - 1].price);
+          const price = Number(change.price);
+          return (
+            <li key={change.id} className="flex justify-between">
+              <span className="text-gray-600">{formatDate(change.recorded_at)}</span>
+              <span className={price < previous ? "text-green-700" : price > previous ? "text-red-600" : ""}>
+                KES {previous} → KES {price}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+// app/supermarket/[id]/product/[productId]/ProductGallery.tsx
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+
+const PLACEHOLDER = "/placeholder.png";
+
+// Main image with thumbnails underneath when there is more than one
+export default function ProductGallery({ images, alt }: { images: string[]; alt: string }) {
+  const [index, setIndex] = useState<number>(0);
+  const [broken, setBroken] = useState<string[]>([]);
+  const srcOf = (url: string | undefined) => (!url || broken.includes(url) ? PLACEHOLDER : url);
+  const markBroken = (url: string) => setBroken((prev) => (prev.includes(url) ? prev : [...prev, url]));
+
+  const current = images[index];
+
+  return (
+    <div>
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <Image
+          src={srcOf(current)}
+          alt={alt}
+          width={800}
+          height={800}
+          priority
+          unoptimized
+          className="object-contain w-full h-80 md:h-[28rem]"
+          onError={() => current && markBroken(current)}
+        />
+      </div>
+
+      {images.length > 1 && (
+        <div className="mt-3 flex gap-2 overflow-x-auto">
+          {images.map((url, i) => (
+            <button
+              key={url}
+              onClick={() => setIndex(i)}
+              aria-label={`Show image ${i + 1} of ${images.length}`}
+              className={`shrink-0 rounded border-2 overflow-hidden ${i === index ? "border-blue-600" : "border-transparent"}`}
+            >
+              <Image
+                src={srcOf(url)}
+                alt=""
+                width={80}
+                height={80}
+                unoptimized
+                className="object-cover w-16 h-16"
+                onError={() => markBroken(url)}
+              />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+import { cache } from "react";
+import type { Metadata } from "next";
+import Image from "next/image";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { ChevronLeft } from "lucide-react";
+import { createServerSupabase } from "@/lib/supabase/server";
+import { isOnSale, normalizeProduct } from "@/lib/products";
+import { LOW_STOCK_THRESHOLD } from "@/lib/productTransfer";
+import { productSearchQuery } from "@/lib/productSearch";
+import { PAYSTACK_CURRENCY } from "@/lib/paystack";
+import { SITE_URL } from "@/lib/site";
+import type { Product } from "@/lib/models";
+import ProductGallery from "./ProductGallery";
+import PriceHistory from "./PriceHistory";
+import AddToCart from "./AddToCart";
+
+type Props = { params: Promise<{ id: string; productId: string }> };
+
+const RELATED_SHOWN = 8;
+const PRICE_HISTORY_ROWS = 100;
+
+// Shared by generateMetadata and the page, so the product is read once per request
+const loadProduct = cache(async (supermarketId: string, productId: string) => {
+  const supabase = await createServerSupabase();
+  const { data } = await supabase
+    .from("products")
+    .select("*, supermarkets(id, name)")
+    .eq("id", productId)
+    .eq("supermarket_id", supermarketId)
+    .is("archived_at", null)
+    .maybeSingle();
+  if (!data) return null;
+  const { supermarkets: supermarket, ...product } = data;
+  return supermarket ? { product: normalizeProduct(product), supermarket } : null;
+});
+
+function productImages(product: Product) {
+  return [product.image_url, ...product.gallery_urls].filter((url): url is string => Boolean(url));
+}
+
+function productUrl(product: Product) {
+  return `/supermarket/${product.supermarket_id}/product/${product.id}`;
+}
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { id, productId } = await params;
+  const found = await loadProduct(id, productId);
+  if (!found) return { title: "Product not found | Snapcart" };
+
+  const { product, supermarket } = found;
+  const title = `${product.name} | ${supermarket.name}`;
+  const description = product.description || `${product.name} for KES ${product.price} at ${supermarket.name}.`;
+  return {
+    title,
+    description,
+    alternates: { canonical: productUrl(product) },
+    openGraph: {
+      type: "website",
+      title,
+      description,
+      url: productUrl(product),
+      siteName: "Snapcart",
+      images: productImages(product).map((url) => ({ url, alt: product.name })),
+    },
+    twitter: { card: "summary_large_image", title, description },
+  };
+}
+
+// Server-rendered product page: gallery, full description, stock, price
+// history and related products, with Product structured data for search engines
+export default async function ProductPage({ params }: Props) {
+  const { id, productId } = await params;
+  const found = await loadProduct(id, productId);
+  if (!found) notFound();
+  const { product, supermarket } = found;
+
+  const supabase = await createServerSupabase();
+  let relatedQuery = supabase
+    .from("products")
+    .select("*")
+    .eq("supermarket_id", id)
+    .is("archived_at", null)
+    .neq("id", product.id);
+  relatedQuery = product.category ? relatedQuery.eq("category", product.category) : relatedQuery.is("category", null);
+
+  const [{ data: related }, { data: history }] = await Promise.all([
+    relatedQuery.order("units_sold", { ascending: false }).limit(RELATED_SHOWN),
+    supabase
+      .from("product_price_history")
+      .select("*")
+      .eq("product_id", product.id)
+      .order("recorded_at", { ascending: false })
+      .limit(PRICE_HISTORY_ROWS),
+  ]);
+
+  const images = productImages(product);
+  const category = product.category || "Uncategorized";
+  const shopUrl = `/supermarket/${id}`;
+  const jsonLd = {
+    "@context": "https://schema.org",
+    "@type": "Product",
+    name: product.name,
+    description: product.description ?? undefined,
+    image: images.map((url) => new URL(url, SITE_URL).toString()),
+    sku: product.external_sku ?? product.id,
+    category,
+    offers: {
+      "@type": "Offer",
+      url: new URL(productUrl(product), SITE_URL).toString(),
+      price: product.price.toFixed(2),
+      priceCurrency: PAYSTACK_CURRENCY,
+      availability: product.stock > 0 ? "https://schema.org/InStock" : "https://schema.org/OutOfStock",
+      seller: { "@type": "Organization", name: supermarket.name },
+    },
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-red-50 text-gray-900">
+      <script
+        type="application/ld+json"
+        // "<" is escaped so a product description cannot close the script tag
+        dangerouslySetInnerHTML={{ __html: JSON.stringify(jsonLd).replace(/</g, "\\u003c") }}
+      />
+
+      <header className="flex items-center justify-between px-4 py-3 bg-white shadow-md sticky top-0 z-30">
+        <Link
+          href={shopUrl}
+          className="text-2xl font-extrabold text-transparent bg-clip-text bg-gradient-to-r from-blue-600 to-red-500"
+        >
+          SnapCart
+        </Link>
+        <Link href={shopUrl} className="inline-flex items-center gap-1 text-sm text-blue-700 hover:underline">
+          <ChevronLeft size={16} /> Back to {supermarket.name}
+        </Link>
+      </header>
+
+      <main className="max-w-5xl mx-auto p-6">
+        <nav className="text-sm text-gray-500 mb-4" aria-label="Breadcrumb">
+          <Link href={shopUrl} className="hover:underline">
+            {supermarket.name}
+          </Link>
+          {" / "}
+          <Link href={`${shopUrl}?${productSearchQuery({ categories: [category] })}`} className="hover:underline">
+            {category}
+          </Link>
+          {" / "}
+          <span className="text-gray-700">{product.name}</span>
+        </nav>
+
+        <div className="grid gap-8 md:grid-cols-2">
+          <ProductGallery images={images} alt={product.name} />
+
+          <div className="space-y-4">
+            <h1 className="text-3xl font-bold text-blue-700">{product.name}</h1>
+
+            <div className="flex items-baseline gap-3">
+              <span className="text-2xl text-red-600 font-bold">KES {product.price}</span>
+              {isOnSale(product) && (
+                <>
+                  <span className="text-gray-400 line-through">KES {product.compare_at_price}</span>
+                  <span className="bg-red-500 text-white text-xs font-semibold px-2 py-0.5 rounded">Sale</span>
+                </>
+              )}
+            </div>
+
+            <p
+              className={
+                product.stock === 0
+                  ? "text-red-600"
+                  : product.stock <= LOW_STOCK_THRESHOLD
+                    ? "text-orange-600"
+                    : "text-green-600"
+              }
+            >
+              {product.stock === 0
+                ? "Out of stock"
+                : product.stock <= LOW_STOCK_THRESHOLD
+                  ? `Only ${product.stock} left`
+                  : `${product.stock} in stock`}
+            </p>
+
+            <AddToCart product={product} />
+
+            {product.description && (
+              <section>
+                <h2 className="font-semibold mb-1">Description</h2>
+                <p className="text-gray-700 whitespace-pre-line">{product.description}</p>
+              </section>
+            )}
+
+            <section className="bg-white rounded-lg shadow p-4">
+              <h2 className="font-semibold mb-2">Price history</h2>
+              <PriceHistory history={(history ?? []).reverse()} />
+            </section>
+          </div>
+        </div>
+
+        {related && related.length > 0 && (
+          <section className="mt-10">
+            <h2 className="text-xl font-bold text-blue-700 mb-4">More in {category}</h2>
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-6">
+              {related.map(normalizeProduct).map((p) => (
+                <Link key={p.id} href={productUrl(p)} className="bg-white rounded-lg shadow p-4 flex flex-col hover:shadow-lg">
+                  <Image
+                    src={p.image_url || "/placeholder.png"}
+                    alt={p.name}
+                    width={400}
+                    height={400}
+                    unoptimized
+                    className="object-cover w-full h-32 rounded"
+                  />
+                  <h3 className="font-semibold mt-2 text-blue-700">{p.name}</h3>
+                  <div className="text-red-600 font-bold">KES {p.price}</div>
+                </Link>
+              ))}
+            </div>
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+// app/supermarket/[id]/useCart.ts
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import toast from "react-hot-toast";
+import { supabase } from "@/lib/supabase/browser";
+import type { Json } from "@/lib/database.types";
+import {
+  CART_QUANTITY_MAX,
+  addCartItem,
+  loadLocalCart,
+  revalidateCart,
+  saveLocalCart,
+  toStoredLine,
+  type CartNotice,
+  type StoredCartLine,
+} from "@/lib/cart";
+import { normalizeProduct } from "@/lib/products";
+import type { CartItem, Product } from "@/lib/models";
+import { useAuth } from "@/app/context/AuthContext";
+
+// The shopper's cart for one supermarket, shared by the shop and product
+// pages. Signed in, it is the account cart in cart_items (the anonymous cart
+// is merged into it on sign-in); otherwise it lives in localStorage. Lines are
+// revalidated against current products on load and on every live product
+// change, and whatever had to change is reported in `notices`.
+export function useCart(supermarketId: string | null) {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const [items, setItems] = useState<CartItem[]>([]);
+  const [notices, setNotices] = useState<CartNotice[]>([]);
+  const [loaded, setLoaded] = useState<boolean>(false);
+  // Latest lines, so mutations compute the next cart synchronously
+  const itemsRef = useRef<CartItem[]>([]);
+
+  const commit = useCallback((next: CartItem[]) => {
+    itemsRef.current = next;
+    setItems(next);
+  }, []);
+
+  // Writes changed lines to wherever this cart lives
+  const persist = useCallback(
+    async (changed: CartItem[], removed: string[]) => {
+      if (!supermarketId) return;
+      if (!userId) {
+        saveLocalCart(supermarketId, itemsRef.current.map(toStoredLine));
+        return;
+      }
+      if (changed.length > 0) {
+        const { error } = await supabase.from("cart_items").upsert(
+          changed.map((item) => ({ ...toStoredLine(item), user_id: userId, supermarket_id: supermarketId })),
+          { onConflict: "user_id,product_id" }
+        );
+        if (error) {
+          console.error("Save cart error", error);
+          toast.error("Could not save your cart");
+        }
+      }
+      if (removed.length > 0) {
+        const { error } = await supabase.from("cart_items").delete().eq("user_id", userId).in("product_id", removed);
+        if (error) {
+          console.error("Save cart error", error);
+          toast.error("Could not save your cart");
+        }
+      }
+    },
+    [supermarketId, userId]
+  );
+
+  const report = useCallback((found: CartNotice[]) => {
+    if (found.length === 0) return;
+    setNotices((prev) => [...prev.filter((n) => !found.some((f) => f.product_id === n.product_id)), ...found]);
+    toast(found.length === 1 ? found[0].message : `${found.length} items in your cart have changed`, { icon: "⚠️" });
+  }, []);
+
+  // Load (merging the anonymous cart on sign-in), then revalidate
+  useEffect(() => {
+    if (!supermarketId) return;
+    let cancelled = false;
+    setLoaded(false);
+
+    // When an account cart cannot be read, start from an empty one so adding
+    // still works: saving only upserts the lines added, never the unread ones.
+    // A local cart is saved whole, so it stays unloaded rather than overwritten.
+    const loadFailed = () => {
+      toast.error("Failed to load your cart");
+      if (cancelled || !userId) return;
+      commit([]);
+      setLoaded(true);
+    };
+
+    const load = async () => {
+      let lines: StoredCartLine[] = loadLocalCart(supermarketId);
+      if (userId) {
+        if (lines.length > 0) {
+          // Taken out of storage first so a second load cannot merge it twice
+          saveLocalCart(supermarketId, []);
+          const { error } = await supabase.rpc("merge_cart", {
+            p_supermarket_id: supermarketId,
+            p_items: lines as unknown as Json,
+          });
+          if (error) {
+            console.error("Merge cart error", error);
+            saveLocalCart(supermarketId, lines);
+          } else {
+            toast.success("Items you added before signing in are in your cart");
+          }
+        }
+        const { data, error } = await supabase
+          .from("cart_items")
+          .select("product_id, quantity, price_seen")
+          .eq("supermarket_id", supermarketId);
+        if (error) {
+          console.error("Load cart error", error);
+          loadFailed();
+          return;
+        }
+        lines = data;
+      }
+
+      const ids = lines.map((l) => l.product_id);
+      const { data: products, error } = ids.length
+        ? await supabase.from("products").select("*").in("id", ids)
+        : { data: [], error: null };
+      if (error) {
+        console.error("Load cart products error", error);
+        loadFailed();
+        return;
+      }
+      if (cancelled) return;
+
+      const result = revalidateCart(lines, (products ?? []).map(normalizeProduct));
+      commit(result.items);
+      setLoaded(true);
+      report(result.notices);
+      if (result.changed.length > 0 || result.removed.length > 0) persist(result.changed, result.removed);
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [supermarketId, userId, commit, persist, report]);
+
+  // Adds up to `quantity`, capped at stock; returns how many went in
+  const add = (product: Product, quantity = 1) => {
+    if (!loaded) return 0;
+    const { cart, added } = addCartItem(itemsRef.current, product, quantity);
+    if (added === 0) return 0;
+    commit(cart);
+    persist(cart.filter((i) => i.product.id === product.id), []);
+    return added;
+  };
+
+  const setQuantity = (productId: string, quantity: number) => {
+    const item = itemsRef.current.find((i) => i.product.id === productId);
+    if (!item) return;
+    const next = { ...item, quantity: Math.max(1, Math.min(quantity, item.product.stock, CART_QUANTITY_MAX)) };
+    commit(itemsRef.current.map((i) => (i.product.id === productId ? next : i)));
+    persist([next], []);
+  };
+
+  const remove = (productId: string) => {
+    commit(itemsRef.current.filter((i) => i.product.id !== productId));
+    persist([], [productId]);
+  };
+
+  const clear = () => {
+    const ids = itemsRef.current.map((i) => i.product.id);
+    commit([]);
+    setNotices([]);
+    persist([], ids);
+  };
+
+  // A product changed (live update, or checkout found less stock): revalidate
+  // its line. null means the product is gone. Stable, for realtime handlers.
+  const refreshProduct = useCallback(
+    (productId: string, product: Product | null) => {
+      const line = itemsRef.current.find((i) => i.product.id === productId);
+      if (!line) return;
+      const result = revalidateCart([toStoredLine(line)], product ? [product] : []);
+      commit(itemsRef.current.flatMap((i) => (i.product.id === productId ? result.items : [i])));
+      report(result.notices);
+      persist(result.changed, result.removed);
+    },
+    [commit, persist, report]
+  );
+
+  const dismissNotices = () => setNotices([]);
+
+  return { items, notices, loaded, add, setQuantity, remove, clear, refreshProduct, dismissNotices };
+}
@@ -0,0 +1,15 @@
+// lib/apiClient.ts
+import { supabase } from "./supabase/browser";
+
+// fetch() wrapper for our own API routes that forwards the current session token
+export async function authFetch(input: string, init: RequestInit = {}) {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  const headers = new Headers(init.headers);
+  if (session?.access_token) headers.set("Authorization", `Bearer ${session.access_token}`);
+  if (init.body && !headers.has("Content-Type")) headers.set("Content-Type", "application/json");
+
+  return fetch(input, { ...init, headers });
+}
@@ -0,0 +1,121 @@
+// lib/cart.ts
+// Shopper carts. Signed-in shoppers' lines live in cart_items; anonymous ones
+// in localStorage until sign-in merges them (merge_cart). Either way a line is
+// only a product id, a quantity and the price last seen, and is checked
+// against the current product before it is shown.
+import type { CartItem, Product } from "./models";
+
+export const CART_QUANTITY_MAX = 999;
+
+export interface StoredCartLine {
+  product_id: string;
+  quantity: number;
+  price_seen: number;
+}
+
+// Something the shopper should know about their cart
+export interface CartNotice {
+  product_id: string;
+  message: string;
+}
+
+function cartKey(supermarketId: string) {
+  return `cart_${supermarketId}`;
+}
+
+// Also reads carts saved before lines were stored without a product snapshot
+export function loadLocalCart(supermarketId: string): StoredCartLine[] {
+  try {
+    const stored = localStorage.getItem(cartKey(supermarketId));
+    if (!stored) return [];
+    const parsed = JSON.parse(stored) as (StoredCartLine | { product: Product; quantity: number })[];
+    return parsed.map((line) =>
+      "product" in line
+        ? { product_id: line.product.id, quantity: line.quantity, price_seen: Number(line.product.price) }
+        : line
+    );
+  } catch (e) {
+    console.error("Load cart error", e);
+    return [];
+  }
+}
+
+export function saveLocalCart(supermarketId: string, lines: StoredCartLine[]) {
+  try {
+    if (lines.length === 0) localStorage.removeItem(cartKey(supermarketId));
+    else localStorage.setItem(cartKey(supermarketId), JSON.stringify(lines));
+  } catch (e) {
+    console.error("Persist cart error", e);
+  }
+}
+
+export function toStoredLine(item: CartItem): StoredCartLine {
+  return { product_id: item.product.id, quantity: item.quantity, price_seen: item.price_seen };
+}
+
+export interface CartRevalidation {
+  items: CartItem[];
+  notices: CartNotice[];
+  changed: CartItem[]; // lines whose quantity or price_seen must be saved
+  removed: string[]; // product ids to delete
+}
+
+// Checks stored lines against the current products: unavailable products are
+// removed, quantities are cut to stock, and price changes are reported once
+// (price_seen moves to the new price).
+export function revalidateCart(lines: StoredCartLine[], products: Product[]): CartRevalidation {
+  const byId = new Map(products.map((p) => [p.id, p]));
+  const result: CartRevalidation = { items: [], notices: [], changed: [], removed: [] };
+
+  for (const line of lines) {
+    const product = byId.get(line.product_id);
+    if (!product || product.archived_at) {
+      result.removed.push(line.product_id);
+      result.notices.push({
+        product_id: line.product_id,
+        message: `${product?.name ?? "An item"} is no longer sold here and was removed from your cart`,
+      });
+      continue;
+    }
+    if (product.stock <= 0) {
+      result.removed.push(line.product_id);
+      result.notices.push({ product_id: product.id, message: `${product.name} is out of stock and was removed from your cart` });
+      continue;
+    }
+
+    const item: CartItem = { product, quantity: line.quantity, price_seen: Number(line.price_seen) };
+    let changed = false;
+    if (item.quantity > product.stock) {
+      result.notices.push({
+        product_id: product.id,
+        message: `Only ${product.stock} of ${product.name} left: your quantity went from ${item.quantity} to ${product.stock}`,
+      });
+      item.quantity = product.stock;
+      changed = true;
+    }
+    if (item.price_seen !== product.price) {
+      result.notices.push({
+        product_id: product.id,
+        message: `${product.name} ${product.price > item.price_seen ? "went up" : "dropped"} from KES ${item.price_seen} to KES ${product.price}`,
+      });
+      item.price_seen = product.price;
+      changed = true;
+    }
+    result.items.push(item);
+    if (changed) result.changed.push(item);
+  }
+  return result;
+}
+
+// Adds up to `quantity` of a product without going over its stock; `added`
+// is how many actually went in
+export function addCartItem(cart: CartItem[], product: Product, quantity: number) {
+  const existing = cart.find((i) => i.product.id === product.id);
+  const inCart = existing?.quantity ?? 0;
+  const limit = Math.min(product.stock ?? Infinity, CART_QUANTITY_MAX);
+  const added = Math.max(0, Math.min(quantity, limit - inCart));
+  if (added === 0) return { cart, added };
+  const item: CartItem = { product, quantity: inCart + added, price_seen: product.price };
+  const next = existing ? cart.map((i) => (i.product.id === product.id ? item : i)) : [...cart, item];
+  return { cart: next, added };
+}
@@ -0,0 +1,314 @@
+// lib/catalogSync.ts
+// Catalogue sync: pulls a supermarket's `api_url` feed, reads it with the
+// supermarket's feed adapter and mapping (lib/feeds), matches items to
+// products by external SKU and applies the difference. Every run, dry runs
+// included, is recorded in sync_runs. Used by /api/cron/sync-catalog and the
+// admin sync route; callers pass a service-role client.
+import type { TypedSupabaseClient } from "./supabase/config";
+import type { Json, TablesInsert } from "./database.types";
+import type { Product, Supermarket } from "./models";
+import { PAYSTACK_CURRENCY } from "./paystack";
+import {
+  FeedError,
+  getFeedAdapter,
+  isFeedFormat,
+  mapRecord,
+  parseFeedMapping,
+  type FeedMapping,
+  type FeedProduct,
+  type FeedRecord,
+} from "./feeds";
+
+export { FeedError };
+
+export const FEED_TIMEOUT_MS = Number(process.env.SYNC_FEED_TIMEOUT_MS || 15_000);
+export const FEED_RETRIES = Number(process.env.SYNC_FEED_RETRIES || 2);
+
+// Refuse feeds bigger than this rather than half-apply them
+export const MAX_FEED_ITEMS = 5_000;
+
+// Rows per upsert/update request
+const WRITE_CHUNK = 500;
+
+// Fields a feed owns. Archiving is decided by presence in the feed.
+const SYNCED_FIELDS = ["name", "price", "stock", "category", "description", "image_url"] as const;
+
+type SyncedField = (typeof SYNCED_FIELDS)[number];
+
+export interface SkippedItem {
+  row: number;
+  sku: string | null;
+  reason: string;
+}
+
+export interface ProductUpdate {
+  id: string;
+  external_sku: string;
+  name: string;
+  fields: SyncedField[];
+  restored: boolean; // was archived, back in the feed
+  product: FeedProduct;
+}
+
+export interface CatalogDiff {
+  added: FeedProduct[];
+  updated: ProductUpdate[];
+  archived: Pick<Product, "id" | "external_sku" | "name">[];
+  unchanged: number;
+  skipped: SkippedItem[];
+}
+
+export interface SyncOptions {
+  dryRun?: boolean;
+  triggeredBy: string; // "cron" or "admin:<uuid>"
+}
+
+export interface SyncReport {
+  run_id: string | null;
+  supermarket_id: string;
+  dry_run: boolean;
+  status: "succeeded" | "failed";
+  added: number;
+  updated: number;
+  archived: number;
+  unchanged: number;
+  skipped: number;
+  diff: CatalogDiff | null;
+  error: string | null;
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function isRetryableStatus(status: number) {
+  return status === 429 || status >= 500;
+}
+
+// GET the feed body with a per-attempt timeout. Network errors, timeouts,
+// 429 and 5xx are retried with backoff; other HTTP errors fail at once.
+export async function fetchFeed(
+  url: string,
+  { accept = "application/json", timeoutMs = FEED_TIMEOUT_MS, retries = FEED_RETRIES } = {}
+) {
+  let lastError = new FeedError("Feed could not be fetched");
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    if (attempt > 0) await wait(500 * 2 ** (attempt - 1));
+
+    let res: Response;
+    try {
+      res = await fetch(url, {
+        headers: { Accept: accept },
+        signal: AbortSignal.timeout(timeoutMs),
+        cache: "no-store",
+      });
+    } catch (err) {
+      const timedOut = err instanceof Error && err.name === "TimeoutError";
+      lastError = new FeedError(
+        timedOut ? `Feed timed out after ${timeoutMs} ms` : `Feed request failed: ${(err as Error).message}`
+      );
+      continue;
+    }
+
+    if (res.ok) return await res.text();
+    lastError = new FeedError(`Feed responded ${res.status} ${res.statusText}`);
+    if (!isRetryableStatus(res.status)) break;
+  }
+  throw lastError;
+}
+
+// Refuses oversized feeds before diffing them
+function checkFeedSize(records: FeedRecord[]) {
+  if (records.length > MAX_FEED_ITEMS) throw new FeedError(`Feed has more than ${MAX_FEED_ITEMS} products`);
+  return records;
+}
+
+function changedFields(existing: Product, incoming: FeedProduct): SyncedField[] {
+  return SYNCED_FIELDS.filter((field) =>
+    field === "price" || field === "stock"
+      ? Number(existing[field]) !== incoming[field]
+      : (existing[field] ?? null) !== (incoming[field] ?? null)
+  );
+}
+
+// Compare the feed with the supermarket's synced products (those with a SKU).
+// Pure, so a dry run and a real run see the same diff.
+export function diffCatalog(
+  existing: Product[],
+  records: FeedRecord[],
+  mapping: FeedMapping = {},
+  storeCurrency = PAYSTACK_CURRENCY
+): CatalogDiff {
+  const diff: CatalogDiff = { added: [], updated: [], archived: [], unchanged: 0, skipped: [] };
+  const bySku = new Map(existing.filter((p) => p.external_sku).map((p) => [p.external_sku as string, p]));
+  const seen = new Set<string>();
+
+  records.forEach((record) => {
+    const mapped = mapRecord(record, mapping, storeCurrency);
+    if (!mapped.ok) {
+      diff.skipped.push({ row: record.row, sku: mapped.sku, reason: mapped.reason });
+      return;
+    }
+    const { product } = mapped;
+    if (seen.has(product.external_sku)) {
+      diff.skipped.push({ row: record.row, sku: product.external_sku, reason: "Duplicate SKU in feed" });
+      return;
+    }
+    seen.add(product.external_sku);
+
+    const current = bySku.get(product.external_sku);
+    if (!current) {
+      diff.added.push(product);
+      return;
+    }
+    const fields = changedFields(current, product);
+    const restored = Boolean(current.archived_at);
+    if (fields.length === 0 && !restored) {
+      diff.unchanged++;
+      return;
+    }
+    diff.updated.push({ id: current.id, external_sku: product.external_sku, name: product.name, fields, restored, product });
+  });
+
+  for (const product of bySku.values()) {
+    if (!seen.has(product.external_sku as string) && !product.archived_at) {
+      diff.archived.push({ id: product.id, external_sku: product.external_sku, name: product.name });
+    }
+  }
+  return diff;
+}
+
+function chunks<T>(list: T[], size = WRITE_CHUNK) {
+  const out: T[][] = [];
+  for (let i = 0; i < list.length; i += size) out.push(list.slice(i, i + size));
+  return out;
+}
+
+async function applyDiff(client: TypedSupabaseClient, supermarketId: string, diff: CatalogDiff) {
+  const rows: TablesInsert<"products">[] = [...diff.added, ...diff.updated.map((u) => u.product)].map((p) => ({
+    ...p,
+    supermarket_id: supermarketId,
+    archived_at: null,
+  }));
+  for (const batch of chunks(rows)) {
+    const { error } = await client.from("products").upsert(batch, { onConflict: "supermarket_id,external_sku" });
+    if (error) throw new Error(`Saving products failed: ${error.message}`);
+  }
+
+  // Discontinued products are archived, not deleted: past orders reference them
+  const archivedAt = new Date().toISOString();
+  for (const batch of chunks(diff.archived.map((p) => p.id))) {
+    const { error } = await client
+      .from("products")
+      .update({ archived_at: archivedAt })
+      .eq("supermarket_id", supermarketId)
+      .in("id", batch);
+    if (error) throw new Error(`Archiving products failed: ${error.message}`);
+  }
+}
+
+// What sync_runs.report keeps: the diff without full product payloads
+function reportFromDiff(diff: CatalogDiff): Json {
+  return {
+    added: diff.added.map((p) => ({ sku: p.external_sku, name: p.name })),
+    updated: diff.updated.map((u) => ({ sku: u.external_sku, name: u.name, fields: u.fields, restored: u.restored })),
+    archived: diff.archived.map((p) => ({ sku: p.external_sku, name: p.name })),
+    skipped: diff.skipped.map((s) => ({ row: s.row, sku: s.sku, reason: s.reason })),
+  };
+}
+
+// Sync one supermarket. Never throws: failures end up in the report and the
+// sync_runs row.
+export async function syncCatalog(
+  client: TypedSupabaseClient,
+  supermarket: Pick<Supermarket, "id" | "api_url" | "feed_format" | "feed_mapping">,
+  { dryRun = false, triggeredBy }: SyncOptions
+): Promise<SyncReport> {
+  const report: SyncReport = {
+    run_id: null,
+    supermarket_id: supermarket.id,
+    dry_run: dryRun,
+    status: "failed",
+    added: 0,
+    updated: 0,
+    archived: 0,
+    unchanged: 0,
+    skipped: 0,
+    diff: null,
+    error: null,
+  };
+
+  const { data: run, error: runError } = await client
+    .from("sync_runs")
+    .insert({ supermarket_id: supermarket.id, dry_run: dryRun, triggered_by: triggeredBy, feed_url: supermarket.api_url })
+    .select("id")
+    .single();
+  if (runError) console.error("❌ could not record sync run:", runError);
+  report.run_id = run?.id ?? null;
+
+  try {
+    if (!supermarket.api_url) throw new FeedError("Supermarket has no feed URL");
+    if (!isFeedFormat(supermarket.feed_format)) throw new FeedError(`Unknown feed format "${supermarket.feed_format}"`);
+    const adapter = getFeedAdapter(supermarket.feed_format);
+    const mapping = parseFeedMapping(supermarket.feed_mapping);
+
+    const [body, existing] = await Promise.all([
+      fetchFeed(supermarket.api_url, { accept: adapter.accept }),
+      client.from("products").select("*").eq("supermarket_id", supermarket.id).not("external_sku", "is", null),
+    ]);
+    if (existing.error) throw new Error(`Loading products failed: ${existing.error.message}`);
+
+    const records = checkFeedSize(adapter.parse(body, mapping));
+    const diff = diffCatalog(existing.data, records, mapping);
+    // An empty or unreadable feed would archive the whole catalogue
+    if (diff.added.length + diff.updated.length + diff.unchanged === 0 && existing.data.length > 0) {
+      throw new FeedError("Feed has no usable products; refusing to archive the whole catalogue");
+    }
+
+    if (!dryRun) await applyDiff(client, supermarket.id, diff);
+
+    Object.assign(report, {
+      status: "succeeded",
+      added: diff.added.length,
+      updated: diff.updated.length,
+      archived: diff.archived.length,
+      unchanged: diff.unchanged,
+      skipped: diff.skipped.length,
+      diff,
+    });
+  } catch (err) {
+    report.error = err instanceof Error ? err.message : "Unknown error";
+  }
+
+  if (report.run_id) {
+    const { error } = await client
+      .from("sync_runs")
+      .update({
+        status: report.status,
+        added: report.added,
+        updated: report.updated,
+        archived: report.archived,
+        unchanged: report.unchanged,
+        skipped: report.skipped,
+        report: report.diff ? reportFromDiff(report.diff) : null,
+        error: report.error,
+        finished_at: new Date().toISOString(),
+      })
+      .eq("id", report.run_id);
+    if (error) console.error("❌ could not finish sync run:", error);
+  }
+  return report;
+}
+
+// Sync every supermarket that has a feed, one after another
+export async function syncAllCatalogs(client: TypedSupabaseClient, options: SyncOptions) {
+  const { data: supermarkets, error } = await client
+    .from("supermarkets")
+    .select("id, api_url, feed_format, feed_mapping")
+    .not("api_url", "is", null);
+  if (error) throw new Error(`Loading supermarkets failed: ${error.message}`);
+
+  const reports: SyncReport[] = [];
+  for (const supermarket of supermarkets) {
+    reports.push(await syncCatalog(client, supermarket, options));
+  }
+  return reports;
+}
@@ -0,0 +1,773 @@
+// lib/database.types.ts
+// Shape of the public schema, in the format `supabase gen types typescript` emits.
+// Regenerate with `npm run db:types` after changing supabase/migrations.
+
+export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[];
+
+export type Database = {
+  public: {
+    Tables: {
+      cart_items: {
+        Row: {
+          added_at: string;
+          price_seen: number;
+          product_id: string;
+          quantity: number;
+          supermarket_id: string;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          added_at?: string;
+          price_seen: number;
+          product_id: string;
+          quantity: number;
+          supermarket_id: string;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          added_at?: string;
+          price_seen?: number;
+          product_id?: string;
+          quantity?: number;
+          supermarket_id?: string;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "cart_items_product_id_fkey";
+            columns: ["product_id"];
+            isOneToOne: false;
+            referencedRelation: "products";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "cart_items_supermarket_id_fkey";
+            columns: ["supermarket_id"];
+            isOneToOne: false;
+            referencedRelation: "supermarkets";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      notifications: {
+        Row: {
+          body: string | null;
+          created_at: string;
+          id: string;
+          kind: string;
+          link: string | null;
+          read_at: string | null;
+          title: string;
+          user_id: string;
+        };
+        Insert: {
+          body?: string | null;
+          created_at?: string;
+          id?: string;
+          kind: string;
+          link?: string | null;
+          read_at?: string | null;
+          title: string;
+          user_id: string;
+        };
+        Update: {
+          body?: string | null;
+          created_at?: string;
+          id?: string;
+          kind?: string;
+          link?: string | null;
+          read_at?: string | null;
+          title?: string;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
+      order_archives: {
+        Row: {
+          archived_at: string;
+          order_id: string;
+          user_id: string;
+        };
+        Insert: {
+          archived_at?: string;
+          order_id: string;
+          user_id: string;
+        };
+        Update: {
+          archived_at?: string;
+          order_id?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "order_archives_order_id_fkey";
+            columns: ["order_id"];
+            isOneToOne: false;
+            referencedRelation: "orders";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      order_items: {
+        Row: {
+          id: string;
+          order_id: string;
+          picked_at: string | null;
+          picked_by: string | null;
+          price: number;
+          product_id: string;
+          quantity: number;
+        };
+        Insert: {
+          id?: string;
+          order_id: string;
+          picked_at?: string | null;
+          picked_by?: string | null;
+          price: number;
+          product_id: string;
+          quantity: number;
+        };
+        Update: {
+          id?: string;
+          order_id?: string;
+          picked_at?: string | null;
+          picked_by?: string | null;
+          price?: number;
+          product_id?: string;
+          quantity?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "order_items_order_id_fkey";
+            columns: ["order_id"];
+            isOneToOne: false;
+            referencedRelation: "orders";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "order_items_product_id_fkey";
+            columns: ["product_id"];
+            isOneToOne: false;
+            referencedRelation: "products";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      order_status_history: {
+        Row: {
+          actor: string;
+          created_at: string;
+          from_status: string | null;
+          id: number;
+          order_id: string;
+          reason: string | null;
+          to_status: string;
+        };
+        Insert: {
+          actor: string;
+          created_at?: string;
+          from_status?: string | null;
+          id?: never;
+          order_id: string;
+          reason?: string | null;
+          to_status: string;
+        };
+        Update: {
+          actor?: string;
+          created_at?: string;
+          from_status?: string | null;
+          id?: never;
+          order_id?: string;
+          reason?: string | null;
+          to_status?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "order_status_history_order_id_fkey";
+            columns: ["order_id"];
+            isOneToOne: false;
+            referencedRelation: "orders";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      orders: {
+        Row: {
+          created_at: string;
+          id: string;
+          status: string;
+          supermarket_id: string;
+          total_amount: number;
+          user_id: string | null;
+        };
+        Insert: {
+          created_at?: string;
+          id?: string;
+          status?: string;
+          supermarket_id: string;
+          total_amount: number;
+          user_id?: string | null;
+        };
+        Update: {
+          created_at?: string;
+          id?: string;
+          status?: string;
+          supermarket_id?: string;
+          total_amount?: number;
+          user_id?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "orders_supermarket_id_fkey";
+            columns: ["supermarket_id"];
+            isOneToOne: false;
+            referencedRelation: "supermarkets";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      payment_attempts: {
+        Row: {
+          amount: number;
+          authorization_url: string | null;
+          created_at: string;
+          currency: string;
+          id: number;
+          order_id: string;
+          reference: string;
+          status: string;
+        };
+        Insert: {
+          amount: number;
+          authorization_url?: string | null;
+          created_at?: string;
+          currency: string;
+          id?: never;
+          order_id: string;
+          reference: string;
+          status?: string;
+        };
+        Update: {
+          amount?: number;
+          authorization_url?: string | null;
+          created_at?: string;
+          currency?: string;
+          id?: never;
+          order_id?: string;
+          reference?: string;
+          status?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "payment_attempts_order_id_fkey";
+            columns: ["order_id"];
+            isOneToOne: false;
+            referencedRelation: "orders";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      payment_events: {
+        Row: {
+          amount: number | null;
+          currency: string | null;
+          event: string;
+          event_key: string;
+          id: number;
+          order_id: string | null;
+          outcome: string;
+          outcome_reason: string | null;
+          payload: Json;
+          processed_at: string | null;
+          received_at: string;
+          reference: string | null;
+        };
+        Insert: {
+          amount?: number | null;
+          currency?: string | null;
+          event: string;
+          event_key: string;
+          id?: never;
+          order_id?: string | null;
+          outcome?: string;
+          outcome_reason?: string | null;
+          payload: Json;
+          processed_at?: string | null;
+          received_at?: string;
+          reference?: string | null;
+        };
+        Update: {
+          amount?: number | null;
+          currency?: string | null;
+          event?: string;
+          event_key?: string;
+          id?: never;
+          order_id?: string | null;
+          outcome?: string;
+          outcome_reason?: string | null;
+          payload?: Json;
+          processed_at?: string | null;
+          received_at?: string;
+          reference?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "payment_events_order_id_fkey";
+            columns: ["order_id"];
+            isOneToOne: false;
+            referencedRelation: "orders";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      product_price_history: {
+        Row: {
+          compare_at_price: number | null;
+          id: number;
+          price: number;
+          product_id: string;
+          recorded_at: string;
+        };
+        Insert: {
+          compare_at_price?: number | null;
+          id?: number;
+          price: number;
+          product_id: string;
+          recorded_at?: string;
+        };
+        Update: {
+          compare_at_price?: number | null;
+          id?: number;
+          price?: number;
+          product_id?: string;
+          recorded_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "product_price_history_product_id_fkey";
+            columns: ["product_id"];
+            isOneToOne: false;
+            referencedRelation: "products";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      product_request_votes: {
+        Row: {
+          created_at: string;
+          request_id: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          request_id: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          request_id?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "product_request_votes_request_id_fkey";
+            columns: ["request_id"];
+            isOneToOne: false;
+            referencedRelation: "product_requests";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      product_requests: {
+        Row: {
+          admin_note: string | null;
+          created_at: string;
+          id: string;
+          name: string;
+          normalized_name: string;
+          product_id: string | null;
+          requested_by: string | null;
+          status: string;
+          supermarket_id: string;
+          updated_at: string;
+          vote_count: number;
+        };
+        Insert: {
+          admin_note?: string | null;
+          created_at?: string;
+          id?: string;
+          name: string;
+          normalized_name?: never;
+          product_id?: string | null;
+          requested_by?: string | null;
+          status?: string;
+          supermarket_id: string;
+          updated_at?: string;
+          vote_count?: number;
+        };
+        Update: {
+          admin_note?: string | null;
+          created_at?: string;
+          id?: string;
+          name?: string;
+          normalized_name?: never;
+          product_id?: string | null;
+          requested_by?: string | null;
+          status?: string;
+          supermarket_id?: string;
+          updated_at?: string;
+          vote_count?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "product_requests_product_id_fkey";
+            columns: ["product_id"];
+            isOneToOne: false;
+            referencedRelation: "products";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "product_requests_supermarket_id_fkey";
+            columns: ["supermarket_id"];
+            isOneToOne: false;
+            referencedRelation: "supermarkets";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      products: {
+        Row: {
+          archived_at: string | null;
+          category: string | null;
+          compare_at_price: number | null;
+          created_at: string;
+          description: string | null;
+          external_sku: string | null;
+          gallery_urls: string[];
+          id: string;
+          image_url: string | null;
+          name: string;
+          price: number;
+          stock: number;
+          supermarket_id: string;
+          units_sold: number;
+        };
+        Insert: {
+          archived_at?: string | null;
+          category?: string | null;
+          compare_at_price?: number | null;
+          created_at?: string;
+          description?: string | null;
+          external_sku?: string | null;
+          gallery_urls?: string[];
+          id?: string;
+          image_url?: string | null;
+          name: string;
+          price: number;
+          stock?: number;
+          supermarket_id: string;
+          units_sold?: number;
+        };
+        Update: {
+          archived_at?: string | null;
+          category?: string | null;
+          compare_at_price?: number | null;
+          created_at?: string;
+          description?: string | null;
+          external_sku?: string | null;
+          gallery_urls?: string[];
+          id?: string;
+          image_url?: string | null;
+          name?: string;
+          price?: number;
+          stock?: number;
+          supermarket_id?: string;
+          units_sold?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "products_supermarket_id_fkey";
+            columns: ["supermarket_id"];
+            isOneToOne: false;
+            referencedRelation: "supermarkets";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      profiles: {
+        Row: {
+          created_at: string;
+          id: string;
+          role: string;
+          supermarket_id: string | null;
+        };
+        Insert: {
+          created_at?: string;
+          id: string;
+          role?: string;
+          supermarket_id?: string | null;
+        };
+        Update: {
+          created_at?: string;
+          id?: string;
+          role?: string;
+          supermarket_id?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "profiles_supermarket_id_fkey";
+            columns: ["supermarket_id"];
+            isOneToOne: false;
+            referencedRelation: "supermarkets";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      refunds: {
+        Row: {
+          amount: number;
+          created_at: string;
+          currency: string;
+          id: number;
+          items: Json;
+          order_id: string;
+          paystack_refund_id: number | null;
+          processed_at: string | null;
+          reason: string | null;
+          requested_by: string | null;
+          status: string;
+          transaction_reference: string;
+        };
+        Insert: {
+          amount: number;
+          created_at?: string;
+          currency: string;
+          id?: never;
+          items?: Json;
+          order_id: string;
+          paystack_refund_id?: number | null;
+          processed_at?: string | null;
+          reason?: string | null;
+          requested_by?: string | null;
+          status?: string;
+          transaction_reference: string;
+        };
+        Update: {
+          amount?: number;
+          created_at?: string;
+          currency?: string;
+          id?: never;
+          items?: Json;
+          order_id?: string;
+          paystack_refund_id?: number | null;
+          processed_at?: string | null;
+          reason?: string | null;
+          requested_by?: string | null;
+          status?: string;
+          transaction_reference?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "refunds_order_id_fkey";
+            columns: ["order_id"];
+            isOneToOne: false;
+            referencedRelation: "orders";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      supermarkets: {
+        Row: {
+          api_url: string | null;
+          created_at: string;
+          feed_format: string;
+          feed_mapping: Json | null;
+          id: string;
+          location: string | null;
+          name: string;
+        };
+        Insert: {
+          api_url?: string | null;
+          created_at?: string;
+          feed_format?: string;
+          feed_mapping?: Json | null;
+          id?: string;
+          location?: string | null;
+          name: string;
+        };
+        Update: {
+          api_url?: string | null;
+          created_at?: string;
+          feed_format?: string;
+          feed_mapping?: Json | null;
+          id?: string;
+          location?: string | null;
+          name?: string;
+        };
+        Relationships: [];
+      };
+      sync_runs: {
+        Row: {
+          added: number;
+          archived: number;
+          dry_run: boolean;
+          error: string | null;
+          feed_url: string | null;
+          finished_at: string | null;
+          id: string;
+          report: Json | null;
+          skipped: number;
+          started_at: string;
+          status: string;
+          supermarket_id: string;
+          triggered_by: string;
+          unchanged: number;
+          updated: number;
+        };
+        Insert: {
+          added?: number;
+          archived?: number;
+          dry_run?: boolean;
+          error?: string | null;
+          feed_url?: string | null;
+          finished_at?: string | null;
+          id?: string;
+          report?: Json | null;
+          skipped?: number;
+          started_at?: string;
+          status?: string;
+          supermarket_id: string;
+          triggered_by: string;
+          unchanged?: number;
+          updated?: number;
+        };
+        Update: {
+          added?: number;
+          archived?: number;
+          dry_run?: boolean;
+          error?: string | null;
+          feed_url?: string | null;
+          finished_at?: string | null;
+          id?: string;
+          report?: Json | null;
+          skipped?: number;
+          started_at?: string;
+          status?: string;
+          supermarket_id?: string;
+          triggered_by?: string;
+          unchanged?: number;
+          updated?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "sync_runs_supermarket_id_fkey";
+            columns: ["supermarket_id"];
+            isOneToOne: false;
+            referencedRelation: "supermarkets";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+    };
+    Views: {
+      [_ in never]: never;
+    };
+    Functions: {
+      adjust_product_stock: {
+        Args: { p_delta: number; p_product_id: string; p_supermarket_id: string };
+        Returns: number;
+      };
+      complete_refund: {
+        Args: { p_refund_id: number; p_status: string };
+        Returns: boolean;
+      };
+      import_products: {
+        Args: { p_rows: Json; p_supermarket_id: string };
+        Returns: Json;
+      };
+      is_sold_order_status: {
+        Args: { p_status: string };
+        Returns: boolean;
+      };
+      merge_cart: {
+        Args: { p_items: Json; p_supermarket_id: string };
+        Returns: number;
+      };
+      normalize_request_name: {
+        Args: { p_name: string };
+        Returns: string;
+      };
+      place_order: {
+        Args: { p_items: Json; p_supermarket_id: string };
+        Returns: Json;
+      };
+      product_facets: {
+        Args: {
+          p_categories?: string[];
+          p_in_stock?: boolean;
+          p_max_price?: number;
+          p_min_price?: number;
+          p_on_sale?: boolean;
+          p_query?: string;
+          p_supermarket_id: string;
+        };
+        Returns: Json;
+      };
+      product_search_vector: {
+        Args: { p_category: string; p_description: string; p_name: string };
+        Returns: unknown;
+      };
+      request_product: {
+        Args: { p_name: string; p_supermarket_id: string };
+        Returns: Json;
+      };
+      search_products: {
+        Args: {
+          p_after_id?: string;
+          p_after_value?: string;
+          p_categories?: string[];
+          p_in_stock?: boolean;
+          p_limit?: number;
+          p_max_price?: number;
+          p_min_price?: number;
+          p_on_sale?: boolean;
+          p_query?: string;
+          p_sort?: string;
+          p_supermarket_id: string;
+        };
+        Returns: {
+          product: Database["public"]["Tables"]["products"]["Row"];
+          sort_value: string;
+        }[];
+      };
+      transition_order_status: {
+        Args: {
+          p_actor: string;
+          p_from: string;
+          p_order_id: string;
+          p_reason?: string;
+          p_release_stock?: boolean;
+          p_to: string;
+        };
+        Returns: boolean;
+      };
+    };
+    Enums: {
+      [_ in never]: never;
+    };
+    CompositeTypes: {
+      [_ in never]: never;
+    };
+  };
+};
+
+type PublicSchema = Database["public"];
+
+export type Tables<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Row"];
+
+export type TablesInsert<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Insert"];
+
+export type TablesUpdate<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Update"];
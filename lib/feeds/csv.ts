@@ -0,0 +1,83 @@
+// lib/feeds/csv.ts
+import { FeedError, type FeedAdapter } from "./types";
+
+// RFC 4180 rows: quoted fields may contain the delimiter, quotes ("") and line
+// breaks. Returns each row with the line it starts on.
+export function parseCsv(text: string, delimiter = ","): { line: number; cells: string[] }[] {
+  const rows: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.length > 1 || cells[0].trim() !== "") rows.push({ line: rowLine, cells });
+    cells = [];
+    cell = "";
+  };
+
+  const input = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        if (ch === "\n") line++;
+        cell += ch;
+      }
+    } else if (ch === '"' && cell === "") {
+      quoted = true;
+    } else if (ch === delimiter) {
+      cells.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      cell += ch;
+    }
+  }
+  if (quoted) throw new FeedError(`CSV has an unterminated quote starting on line ${rowLine}`);
+  if (cell !== "" || cells.length > 0) endRow();
+  return rows;
+}
+
+// First row is the header; every other row becomes { header: cell }
+export const csvAdapter: FeedAdapter = {
+  format: "csv",
+  accept: "text/csv",
+  parse(body, mapping) {
+    const [header, ...rows] = parseCsv(body, mapping.delimiter || ",");
+    if (!header) throw new FeedError("CSV feed is empty");
+    const columns = header.cells.map((c) => c.trim());
+
+    return rows.map(({ line, cells }) => ({
+      row: line,
+      values: Object.fromEntries(columns.map((column, i) => [column, cells[i]?.trim() ?? ""])),
+    }));
+  },
+};
+
+// Spreadsheets run text starting with one of these as a formula
+export const FORMULA_PREFIX = /^[=+\-@]/;
+
+function csvCell(value: string | number | boolean | null | undefined) {
+  let text = value === null || value === undefined ? "" : String(value);
+  // A leading ' makes them show the text as is
+  if (typeof value === "string" && FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) || /^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Rows to RFC 4180 text, quoting only where needed. Text cells that would run
+// as a formula are escaped with a leading '.
+export function formatCsv(rows: (string | number | boolean | null | undefined)[][]) {
+  return rows.map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,18 @@
+// lib/feeds/index.ts
+import { csvAdapter } from "./csv";
+import { jsonAdapter } from "./json";
+import { xmlAdapter } from "./xml";
+import type { FeedAdapter, FeedFormat } from "./types";
+
+export * from "./types";
+export { getPath, mapRecord, parseFeedMapping, type FeedProduct, type MappedRecord } from "./mapping";
+
+const ADAPTERS: Record<FeedFormat, FeedAdapter> = {
+  json: jsonAdapter,
+  csv: csvAdapter,
+  xml: xmlAdapter,
+};
+
+export function getFeedAdapter(format: FeedFormat): FeedAdapter {
+  return ADAPTERS[format];
+}
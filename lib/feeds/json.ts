@@ -0,0 +1,32 @@
+// lib/feeds/json.ts
+import { getPath } from "./mapping";
+import { FeedError, type FeedAdapter } from "./types";
+
+// A bare array of objects, json-server style `{ "products": [...] }`, or the
+// array at `record_path` ("data.items")
+export const jsonAdapter: FeedAdapter = {
+  format: "json",
+  accept: "application/json",
+  parse(body, mapping) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(body);
+    } catch {
+      throw new FeedError("Feed is not valid JSON");
+    }
+
+    const records = mapping.record_path
+      ? getPath(parsed, mapping.record_path)
+      : Array.isArray(parsed)
+        ? parsed
+        : getPath(parsed, "products");
+    if (!Array.isArray(records)) {
+      throw new FeedError(`Feed has no array of products at ${mapping.record_path || "the top level or \"products\""}`);
+    }
+
+    return records.map((values, i) => ({
+      row: i + 1,
+      values: values && typeof values === "object" ? (values as Record<string, unknown>) : {},
+    }));
+  },
+};
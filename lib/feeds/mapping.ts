@@ -0,0 +1,143 @@
+// lib/feeds/mapping.ts
+// Turns adapter records into product fields using supermarkets.feed_mapping:
+// column names, price units and currency conversion.
+import type { Json } from "../database.types";
+import { validateProductInput, type ProductInput } from "../products";
+import { FEED_FIELDS, FeedError, type FeedField, type FeedMapping, type FeedRecord } from "./types";
+
+export type FeedProduct = ProductInput & { external_sku: string };
+
+export type MappedRecord = { ok: true; product: FeedProduct } | { ok: false; sku: string | null; reason: string };
+
+// Where fields are looked up when the mapping does not say; the first path
+// with a value wins. Matches what the old sync-products.js expected.
+const DEFAULT_FIELD_PATHS: Record<FeedField, string[]> = {
+  sku: ["sku", "external_sku", "id"],
+  name: ["name"],
+  price: ["price"],
+  stock: ["stock"],
+  category: ["category"],
+  description: ["description"],
+  image_url: ["image_url"],
+  currency: ["currency"],
+};
+
+// Dotted lookup into nested objects and arrays. A key that itself contains a
+// dot (a CSV header such as "unit.price") is tried whole first.
+export function getPath(value: unknown, path: string): unknown {
+  if (value === null || typeof value !== "object") return undefined;
+  const record = value as Record<string, unknown>;
+  if (path in record) return record[path];
+  const dot = path.indexOf(".");
+  if (dot === -1) return undefined;
+  return getPath(record[path.slice(0, dot)], path.slice(dot + 1));
+}
+
+function fieldValue(record: FeedRecord, mapping: FeedMapping, field: FeedField) {
+  const paths = mapping.fields?.[field] ? [mapping.fields[field] as string] : DEFAULT_FIELD_PATHS[field];
+  for (const path of paths) {
+    const value = getPath(record.values, path);
+    if (value !== undefined && value !== null && value !== "") return value;
+  }
+  return undefined;
+}
+
+function text(value: unknown) {
+  if (typeof value === "string") return value.trim() || null;
+  if (typeof value === "number") return String(value);
+  return null;
+}
+
+// "1,299.00", " 180 " and 180 are all numbers; anything else is left for
+// validation to reject
+function toNumber(value: unknown) {
+  if (typeof value === "string" && value.trim() !== "") return Number(value.replace(/[\s,]/g, ""));
+  return value;
+}
+
+// Checks a stored feed_mapping. Throws a FeedError naming the bad key, so a
+// misconfigured supermarket fails its sync run instead of importing garbage.
+export function parseFeedMapping(raw: Json | null | undefined): FeedMapping {
+  if (raw === null || raw === undefined) return {};
+  if (typeof raw !== "object" || Array.isArray(raw)) throw new FeedError("feed_mapping must be an object");
+  const { fields, record_path, delimiter, price_unit, currency, exchange_rates } = raw as Record<string, unknown>;
+  const mapping: FeedMapping = {};
+
+  if (fields !== undefined) {
+    if (!fields || typeof fields !== "object" || Array.isArray(fields)) {
+      throw new FeedError("feed_mapping.fields must be an object");
+    }
+    for (const [field, path] of Object.entries(fields)) {
+      if (!(FEED_FIELDS as readonly string[]).includes(field)) {
+        throw new FeedError(`feed_mapping.fields.${field} is not a product field`);
+      }
+      if (typeof path !== "string" || !path) throw new FeedError(`feed_mapping.fields.${field} must be text`);
+    }
+    mapping.fields = fields as FeedMapping["fields"];
+  }
+  if (record_path !== undefined) {
+    if (typeof record_path !== "string" || !record_path) throw new FeedError("feed_mapping.record_path must be text");
+    mapping.record_path = record_path;
+  }
+  if (delimiter !== undefined) {
+    if (typeof delimiter !== "string" || delimiter.length !== 1) {
+      throw new FeedError("feed_mapping.delimiter must be a single character");
+    }
+    mapping.delimiter = delimiter;
+  }
+  if (price_unit !== undefined) {
+    if (price_unit !== "major" && price_unit !== "minor") {
+      throw new FeedError('feed_mapping.price_unit must be "major" or "minor"');
+    }
+    mapping.price_unit = price_unit;
+  }
+  if (currency !== undefined) {
+    if (typeof currency !== "string" || !/^[A-Za-z]{3}$/.test(currency)) {
+      throw new FeedError("feed_mapping.currency must be a 3-letter currency code");
+    }
+    mapping.currency = currency.toUpperCase();
+  }
+  if (exchange_rates !== undefined) {
+    if (!exchange_rates || typeof exchange_rates !== "object" || Array.isArray(exchange_rates)) {
+      throw new FeedError("feed_mapping.exchange_rates must be an object");
+    }
+    mapping.exchange_rates = {};
+    for (const [code, rate] of Object.entries(exchange_rates)) {
+      if (typeof rate !== "number" || !(rate > 0)) {
+        throw new FeedError(`feed_mapping.exchange_rates.${code} must be a positive number`);
+      }
+      mapping.exchange_rates[code.toUpperCase()] = rate;
+    }
+  }
+  return mapping;
+}
+
+// One record to product fields in the store currency, or the reason it was skipped
+export function mapRecord(record: FeedRecord, mapping: FeedMapping, storeCurrency: string): MappedRecord {
+  const sku = text(fieldValue(record, mapping, "sku"));
+  if (!sku) return { ok: false, sku: null, reason: "Missing SKU" };
+
+  let price = toNumber(fieldValue(record, mapping, "price"));
+  if (typeof price === "number" && Number.isFinite(price)) {
+    if (mapping.price_unit === "minor") price /= 100;
+
+    const currency = (text(fieldValue(record, mapping, "currency")) ?? mapping.currency ?? storeCurrency).toUpperCase();
+    if (currency !== storeCurrency.toUpperCase()) {
+      const rate = mapping.exchange_rates?.[currency];
+      if (!rate) return { ok: false, sku, reason: `No exchange rate for ${currency}` };
+      price *= rate;
+    }
+    price = Math.round(price * 100) / 100;
+  }
+
+  const validation = validateProductInput({
+    name: text(fieldValue(record, mapping, "name")) ?? undefined,
+    price,
+    stock: toNumber(fieldValue(record, mapping, "stock") ?? 0),
+    category: text(fieldValue(record, mapping, "category")),
+    description: text(fieldValue(record, mapping, "description")),
+    image_url: text(fieldValue(record, mapping, "image_url")),
+  });
+  if (!validation.ok) return { ok: false, sku, reason: Object.values(validation.errors).join("; ") };
+  return { ok: true, product: { ...(validation.value as ProductInput), external_sku: sku } };
+}
@@ -0,0 +1,54 @@
+// lib/feeds/types.ts
+// Supplier feed adapters: each turns a feed body into flat records that the
+// supermarket's field mapping (mapping.ts) turns into product fields.
+
+export const FEED_FORMATS = ["json", "csv", "xml"] as const;
+
+export type FeedFormat = (typeof FEED_FORMATS)[number];
+
+// Product fields a feed can provide, plus the row's currency
+export const FEED_FIELDS = ["sku", "name", "price", "stock", "category", "description", "image_url", "currency"] as const;
+
+export type FeedField = (typeof FEED_FIELDS)[number];
+
+// supermarkets.feed_mapping. Every key is optional; the defaults read a feed
+// shaped like our own products (see DEFAULT_FIELD_PATHS).
+export interface FeedMapping {
+  // Where each field is in a record: a CSV column header, or a dotted path
+  // into a JSON object / XML element ("pricing.amount", "price@currency")
+  fields?: Partial<Record<FeedField, string>>;
+  // JSON: dotted path to the array of records. XML: the record element name.
+  record_path?: string;
+  // CSV column separator, "," by default
+  delimiter?: string;
+  // "minor" when prices are in cents
+  price_unit?: "major" | "minor";
+  // Currency of prices when a record has none of its own
+  currency?: string;
+  // Store-currency value of one unit of each foreign currency, e.g. { "USD": 129.5 }
+  exchange_rates?: Record<string, number>;
+}
+
+// One record of a feed. `row` is what a supplier would look for when fixing
+// it: the CSV line number, or the 1-based position in a JSON/XML feed.
+export interface FeedRecord {
+  row: number;
+  values: Record<string, unknown>;
+}
+
+export interface FeedAdapter {
+  format: FeedFormat;
+  accept: string; // Accept header sent when fetching the feed
+  parse(body: string, mapping: FeedMapping): FeedRecord[];
+}
+
+export class FeedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FeedError";
+  }
+}
+
+export function isFeedFormat(value: unknown): value is FeedFormat {
+  return typeof value === "string" && (FEED_FORMATS as readonly string[]).includes(value);
+}
@@ -0,0 +1,102 @@
+// lib/feeds/xml.ts
+import { FeedError, type FeedAdapter } from "./types";
+
+// Record element when the mapping names none
+const DEFAULT_RECORD_ELEMENT = "product";
+
+interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+const ENTITIES: Record<string, string> = { lt: "<", gt: ">", amp: "&", quot: '"', apos: "'" };
+
+function decodeEntities(text: string) {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      if (!(code <= 0x10ffff)) throw new FeedError(`Malformed XML: ${match} is not a character`);
+      return String.fromCodePoint(code);
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+const TOKEN =
+  /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<\/([\w:.-]+)\s*>|<([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/gy;
+
+const ATTRIBUTE = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+// Just enough XML for supplier price files: elements, attributes, text, CDATA
+// and entities. No namespaces or DTDs.
+export function parseXml(text: string): XmlElement {
+  const root: XmlElement = { name: "#document", attributes: {}, children: [], text: "" };
+  const stack = [root];
+  TOKEN.lastIndex = 0;
+
+  while (TOKEN.lastIndex < text.length) {
+    const at = TOKEN.lastIndex;
+    const match = TOKEN.exec(text);
+    if (!match) throw new FeedError(`Malformed XML near character ${at}`);
+    const [, cdata, closing, opening, attributeText, selfClosing, chars] = match;
+    const current = stack[stack.length - 1];
+
+    if (cdata !== undefined) {
+      current.text += cdata;
+    } else if (chars !== undefined) {
+      current.text += decodeEntities(chars);
+    } else if (opening) {
+      const element: XmlElement = { name: opening, attributes: {}, children: [], text: "" };
+      for (const [, name, double, single] of attributeText.matchAll(ATTRIBUTE)) {
+        element.attributes[name] = decodeEntities(double ?? single);
+      }
+      current.children.push(element);
+      if (!selfClosing) stack.push(element);
+    } else if (closing) {
+      if (current.name !== closing) throw new FeedError(`Malformed XML: </${closing}> closes <${current.name}>`);
+      stack.pop();
+    }
+  }
+  if (stack.length > 1) throw new FeedError(`Malformed XML: <${stack[stack.length - 1].name}> is never closed`);
+  return root;
+}
+
+function findElements(element: XmlElement, name: string, found: XmlElement[] = []) {
+  for (const child of element.children) {
+    if (child.name === name) found.push(child);
+    else findElements(child, name, found);
+  }
+  return found;
+}
+
+// Leaf children become their text; nested ones become objects. Attributes are
+// keyed "@name" on the element itself and "child@name" for leaf children, so
+// `<price currency="USD">4.99</price>` gives { price: "4.99", "price@currency": "USD" }.
+function elementValues(element: XmlElement): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  for (const [name, value] of Object.entries(element.attributes)) values[`@${name}`] = value;
+  for (const child of element.children) {
+    if (child.name in values) continue; // first occurrence wins
+    if (child.children.length === 0) {
+      values[child.name] = child.text.trim();
+      for (const [name, value] of Object.entries(child.attributes)) values[`${child.name}@${name}`] = value;
+    } else {
+      values[child.name] = elementValues(child);
+    }
+  }
+  return values;
+}
+
+// Every `record_path` element (default <product>) anywhere in the document is a record
+export const xmlAdapter: FeedAdapter = {
+  format: "xml",
+  accept: "application/xml, text/xml",
+  parse(body, mapping) {
+    const recordElement = mapping.record_path || DEFAULT_RECORD_ELEMENT;
+    const records = findElements(parseXml(body), recordElement);
+    if (records.length === 0) throw new FeedError(`XML feed has no <${recordElement}> elements`);
+    return records.map((element, i) => ({ row: i + 1, values: elementValues(element) }));
+  },
+};
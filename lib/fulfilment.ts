@@ -0,0 +1,80 @@
+// lib/fulfilment.ts
+// Fulfilment board rules shared by /admin/[supermarketId]/orders and its API routes.
+import { ORDER_TRANSITIONS, isOrderStatus, type OrderStatus, type OrderStatusChange } from "./orderStatus";
+import type { Order, OrderItem } from "./models";
+
+// Board columns, left to right. Cancelling and refunding go through their own
+// routes because they move money; the board only moves paid orders forward.
+export const FULFILMENT_STATUSES = ["paid", "packing", "ready", "out_for_delivery", "delivered"] as const;
+
+export type FulfilmentStatus = (typeof FULFILMENT_STATUSES)[number];
+
+// Statuses the board may move an order into. Never "paid": only a verified
+// Paystack payment does that.
+export type FulfilmentTarget = Exclude<FulfilmentStatus, "paid">;
+
+export const FULFILMENT_COLUMN_TITLES: Record<FulfilmentStatus, string> = {
+  paid: "To pack",
+  packing: "Packing",
+  ready: "Ready",
+  out_for_delivery: "Out for delivery",
+  delivered: "Delivered",
+};
+
+// Most bulk updates the board sends in one request
+export const MAX_BULK_ORDERS = 50;
+
+// Select for board cards and the detail view
+export const FULFILMENT_ORDER_SELECT =
+  "*, order_items(*, products(name, image_url)), order_status_history(*)" as const;
+
+export type FulfilmentItem = OrderItem & { products: { name: string; image_url: string | null } | null };
+
+export type FulfilmentOrder = Order & {
+  order_items: FulfilmentItem[];
+  order_status_history: OrderStatusChange[];
+};
+
+export function isFulfilmentStatus(value: unknown): value is FulfilmentStatus {
+  return isOrderStatus(value) && (FULFILMENT_STATUSES as readonly string[]).includes(value);
+}
+
+export function isFulfilmentTarget(value: unknown): value is FulfilmentTarget {
+  return isFulfilmentStatus(value) && value !== "paid";
+}
+
+// The next column an order on the board moves to, or null once delivered
+export function nextFulfilmentStatus(status: OrderStatus): FulfilmentTarget | null {
+  if (!isFulfilmentStatus(status)) return null;
+  return ORDER_TRANSITIONS[status].find(isFulfilmentTarget) ?? null;
+}
+
+export function pickingProgress(order: Pick<FulfilmentOrder, "order_items">) {
+  const picked = order.order_items.filter((i) => i.picked_at !== null).length;
+  return { picked, total: order.order_items.length, done: picked === order.order_items.length };
+}
+
+export interface BulkStatusRequest {
+  order_ids: string[];
+  status: FulfilmentTarget;
+  reason?: string;
+}
+
+export interface BulkStatusResult {
+  order_id: string;
+  ok: boolean;
+  reason?: string;
+}
+
+// Returns an error message, or null when the payload is a well-formed bulk update
+export function validateBulkStatusRequest(body: unknown): string | null {
+  if (!body || typeof body !== "object") return "Invalid request body";
+  const { order_ids, status, reason } = body as Partial<BulkStatusRequest>;
+
+  if (!Array.isArray(order_ids) || order_ids.length === 0) return "order_ids must be a non-empty array";
+  if (order_ids.length > MAX_BULK_ORDERS) return `At most ${MAX_BULK_ORDERS} orders per request`;
+  if (order_ids.some((id) => typeof id !== "string" || !id)) return "Invalid order id";
+  if (!isFulfilmentTarget(status)) return `status must be one of ${FULFILMENT_STATUSES.slice(1).join(", ")}`;
+  if (reason !== undefined && typeof reason !== "string") return "reason must be text";
+  return null;
+}
@@ -0,0 +1,34 @@
+// lib/models.ts
+// Row types shared by pages and API routes. Derived from database.types.ts so
+// they cannot drift from the schema; only the parts Postgres types as plain
+// text/jsonb are narrowed here.
+import type { Tables } from "./database.types";
+import type { OrderStatus, OrderStatusChange } from "./orderStatus";
+import type { ProductRequestStatus } from "./productRequests";
+
+export type Supermarket = Tables<"supermarkets">;
+export type Product = Tables<"products">;
+export type OrderItem = Tables<"order_items">;
+export type Notification = Tables<"notifications">;
+export type SyncRun = Tables<"sync_runs">;
+export type ProductPrice = Tables<"product_price_history">;
+
+// status is limited by orders_status_check
+export type Order = Omit<Tables<"orders">, "status"> & { status: OrderStatus };
+
+// status is limited by product_requests_status_check
+export type ProductRequest = Omit<Tables<"product_requests">, "status"> & { status: ProductRequestStatus };
+
+// Order as listed on the supermarket page: `select("*, order_items(*), order_status_history(*)")`
+export type OrderWithItems = Order & {
+  order_items: OrderItem[];
+  order_status_history: OrderStatusChange[];
+};
+
+// Cart line as the shop shows it: the current product, how many, and the
+// price the shopper last saw for it (see cart_items)
+export interface CartItem {
+  product: Product;
+  quantity: number;
+  price_seen: number;
+}
@@ -0,0 +1,100 @@
+// lib/orderStatus.ts
+// Order lifecycle: the single place that decides which status changes are allowed.
+import type { TypedSupabaseClient } from "./supabase/config";
+
+export const ORDER_STATUSES = [
+  "pending",
+  "paid",
+  "packing",
+  "ready",
+  "out_for_delivery",
+  "delivered",
+  "cancelled",
+  "refunded",
+  "failed",
+] as const;
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+export const ORDER_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  pending: ["paid", "failed", "cancelled"],
+  // A verified payment can still land after a failed attempt
+  failed: ["paid", "cancelled"],
+  paid: ["packing", "refunded"],
+  packing: ["ready", "refunded"],
+  ready: ["out_for_delivery", "refunded"],
+  out_for_delivery: ["delivered", "refunded"],
+  delivered: ["refunded"],
+  cancelled: [],
+  refunded: [],
+};
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: "Pending payment",
+  paid: "Paid",
+  packing: "Packing",
+  ready: "Ready",
+  out_for_delivery: "Out for delivery",
+  delivered: "Delivered",
+  cancelled: "Cancelled",
+  refunded: "Refunded",
+  failed: "Payment failed",
+};
+
+export interface OrderStatusChange {
+  id: number;
+  order_id: string;
+  from_status: OrderStatus | null;
+  to_status: OrderStatus;
+  actor: string; // "user:<uuid>", "admin:<uuid>" or "system:<job>"
+  reason: string | null;
+  created_at: string;
+}
+
+export type TransitionResult =
+  | { ok: true; from: OrderStatus; to: OrderStatus }
+  | { ok: false; reason: string };
+
+export function isOrderStatus(value: unknown): value is OrderStatus {
+  return typeof value === "string" && (ORDER_STATUSES as readonly string[]).includes(value);
+}
+
+export function canTransition(from: OrderStatus, to: OrderStatus) {
+  return ORDER_TRANSITIONS[from].includes(to);
+}
+
+// Move an order to `to` if the lifecycle allows it, recording who did it and why.
+// `releaseStock` restocks the order's items in the same transaction.
+// `client` must be allowed to call transition_order_status (service role).
+export async function transitionOrder(
+  client: TypedSupabaseClient,
+  orderId: string,
+  to: OrderStatus,
+  change: { actor: string; reason?: string | null; releaseStock?: boolean }
+): Promise<TransitionResult> {
+  const { data: order, error } = await client
+    .from("orders")
+    .select("status")
+    .eq("id", orderId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!order) return { ok: false, reason: "order not found" };
+
+  const from = order.status as OrderStatus;
+  if (!canTransition(from, to)) {
+    return { ok: false, reason: `cannot move order from ${from} to ${to}` };
+  }
+
+  const { data: applied, error: rpcError } = await client.rpc("transition_order_status", {
+    p_order_id: orderId,
+    p_from: from,
+    p_to: to,
+    p_actor: change.actor,
+    p_reason: change.reason ?? undefined,
+    p_release_stock: change.releaseStock ?? false,
+  });
+  if (rpcError) throw new Error(rpcError.message);
+  if (!applied) return { ok: false, reason: "order status changed concurrently" };
+
+  return { ok: true, from, to };
+}
@@ -0,0 +1,140 @@
+// lib/orders.ts
+// Shapes shared by the /api/orders routes and the checkout pages.
+import type { TypedSupabaseClient } from "./supabase/config";
+import type { OrderStatus } from "./orderStatus";
+
+export interface OrderLineInput {
+  product_id: string;
+  quantity: number;
+}
+
+export interface PlaceOrderRequest {
+  supermarket_id: string;
+  items: OrderLineInput[];
+}
+
+export interface StockShortage {
+  product_id: string;
+  name: string | null; // null when the product no longer exists in this supermarket
+  requested: number;
+  available: number;
+}
+
+export interface PlaceOrderSuccess {
+  order_id: string;
+  total_amount: number;
+}
+
+export interface PlaceOrderError {
+  error: string;
+  shortages?: StockShortage[];
+}
+
+export type PlaceOrderResponse = PlaceOrderSuccess | PlaceOrderError;
+
+// Returns an error message, or null when the payload is a well-formed order request
+export function validatePlaceOrderRequest(body: unknown): string | null {
+  if (!body || typeof body !== "object") return "Invalid request body";
+  const { supermarket_id, items } = body as Partial<PlaceOrderRequest>;
+
+  if (!supermarket_id || typeof supermarket_id !== "string") return "Missing supermarket_id";
+  if (!Array.isArray(items) || items.length === 0) return "Cart is empty";
+
+  for (const item of items) {
+    if (!item || typeof item.product_id !== "string" || !item.product_id) return "Invalid product_id";
+    if (!Number.isInteger(item.quantity) || item.quantity <= 0) {
+      return `Invalid quantity for product ${item.product_id}`;
+    }
+  }
+  return null;
+}
+
+export interface PricedLine {
+  product_id: string;
+  quantity: number;
+  price: number; // price recorded on the order item
+  products: { price: number } | null; // live product row
+}
+
+export interface OrderPricing {
+  totalKobo: number;
+  // Lines whose recorded price no longer matches the live product price
+  changedLines: { product_id: string; recorded: number; current: number | null }[];
+}
+
+// Recompute an order's total (in kobo) from live product prices. Works in
+// integer subunits so the result can be compared exactly with the stored total.
+export function priceOrder(lines: PricedLine[]): OrderPricing {
+  let totalKobo = 0;
+  const changedLines: OrderPricing["changedLines"] = [];
+
+  for (const line of lines) {
+    const current = line.products ? Number(line.products.price) : null;
+    if (current === null || Math.round(current * 100) !== Math.round(Number(line.price) * 100)) {
+      changedLines.push({ product_id: line.product_id, recorded: Number(line.price), current });
+    }
+    totalKobo += Math.round((current ?? 0) * 100) * line.quantity;
+  }
+
+  return { totalKobo, changedLines };
+}
+
+export interface OrderSummaryItem {
+  product_id: string;
+  name: string | null;
+  quantity: number;
+  price: number;
+}
+
+export interface OrderSummary {
+  id: string;
+  supermarket_id: string;
+  status: OrderStatus;
+  total_amount: number;
+  created_at: string;
+  items: OrderSummaryItem[];
+}
+
+// Load an order with its items and product names. RLS on `client` decides visibility.
+export async function loadOrderSummary(client: TypedSupabaseClient, orderId: string): Promise<OrderSummary | null> {
+  const { data, error } = await client
+    .from("orders")
+    .select("id, supermarket_id, status, total_amount, created_at, order_items(product_id, quantity, price, products(name))")
+    .eq("id", orderId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data) return null;
+
+  const items = (data.order_items ?? []) as unknown as {
+    product_id: string;
+    quantity: number;
+    price: number;
+    products: { name: string } | null;
+  }[];
+
+  return {
+    id: data.id,
+    supermarket_id: data.supermarket_id,
+    status: data.status as OrderStatus,
+    total_amount: Number(data.total_amount),
+    created_at: data.created_at,
+    items: items.map((i) => ({
+      product_id: i.product_id,
+      name: i.products?.name ?? null,
+      quantity: i.quantity,
+      price: Number(i.price),
+    })),
+  };
+}
+
+export interface PaymentCheck {
+  status: string; // Paystack transaction status, or "unknown" if Paystack could not be reached
+  amount: number | null;
+  currency: string | null;
+  gateway_response: string | null;
+}
+
+export interface VerifyPaymentResponse {
+  order: OrderSummary;
+  payment: PaymentCheck;
+}
@@ -0,0 +1,220 @@
+// lib/payments.ts
+// Server-side payment flow shared by /api/pay, /api/orders/[id]/pay, the webhook and the expiry job.
+import { randomUUID } from "crypto";
+import type { User } from "@supabase/supabase-js";
+import type { TypedSupabaseClient } from "./supabase/config";
+import { createServiceSupabase } from "./supabase/service";
+import { priceOrder, type PricedLine } from "./orders";
+import { isOrderStatus, transitionOrder, type OrderStatus } from "./orderStatus";
+import { PAYSTACK_CURRENCY, initializeTransaction, toKobo, verifyTransaction } from "./paystack";
+
+const supabaseAdmin = createServiceSupabase();
+
+// Unpaid orders hold their stock reservation for this long
+export const ORDER_PAYMENT_TTL_MINUTES = Number(process.env.ORDER_PAYMENT_TTL_MINUTES || 30);
+
+const EXPIRY_ACTOR = "system:order-expiry";
+
+// Orders that may still be (re)paid
+const PAYABLE_STATUSES: OrderStatus[] = ["pending", "failed"];
+
+export interface PaymentAttempt {
+  id: number;
+  order_id: string;
+  reference: string;
+  amount: number; // kobo
+  currency: string;
+  status: "initialized" | "success" | "failed" | "abandoned" | "rejected";
+  authorization_url: string | null;
+  created_at: string;
+}
+
+export interface RouteResult {
+  status: number;
+  body: unknown;
+}
+
+export function isOrderExpired(createdAt: string, now = Date.now()) {
+  return now - new Date(createdAt).getTime() > ORDER_PAYMENT_TTL_MINUTES * 60_000;
+}
+
+function newReference(orderId: string) {
+  return `${orderId.slice(0, 8)}-${randomUUID()}`;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Map a Paystack reference back to its order and attempt. References created
+// before payment_attempts existed were the order id itself. orderId is null
+// for references this shop never issued (e.g. another integration's charges
+// on the same Paystack account).
+export async function resolvePaymentReference(
+  client: TypedSupabaseClient,
+  reference: string
+): Promise<{ orderId: string | null; attempt: PaymentAttempt | null }> {
+  const { data, error } = await client
+    .from("payment_attempts")
+    .select("*")
+    .eq("reference", reference)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+
+  const attempt = data as PaymentAttempt | null;
+  if (attempt) return { orderId: attempt.order_id, attempt };
+  return { orderId: UUID_PATTERN.test(reference) ? reference : null, attempt: null };
+}
+
+// Initialize a fresh Paystack transaction for an order the user owns. The
+// amount is recomputed from live product prices and must match the stored total.
+export async function startOrderPayment(client: TypedSupabaseClient, user: User, orderId: string): Promise<RouteResult> {
+  const { data: order, error: orderError } = await client
+    .from("orders")
+    .select(
+      "id, user_id, status, total_amount, created_at, order_items(product_id, quantity, price, products(price)), payment_attempts(reference, created_at)"
+    )
+    .eq("id", orderId)
+    .maybeSingle();
+
+  if (orderError) {
+    console.error("❌ Order lookup failed:", orderError);
+    return { status: 500, body: { error: orderError.message } };
+  }
+  if (!order) return { status: 404, body: { error: "Order not found" } };
+  if (order.user_id !== user.id) return { status: 403, body: { error: "Not your order" } };
+  if (!isOrderStatus(order.status) || !PAYABLE_STATUSES.includes(order.status)) {
+    return { status: 409, body: { error: `Order is already ${order.status}` } };
+  }
+
+  if (isOrderExpired(order.created_at)) {
+    const decision = await decideExpiry(order.payment_attempts ?? [], Date.now());
+    if (decision === "expire") {
+      await expireOrder(order.id, order.status);
+      return { status: 410, body: { error: "This order has expired and its items were released" } };
+    }
+    if (decision === "paid") {
+      return { status: 409, body: { error: "This order has been paid and is being confirmed" } };
+    }
+    if (decision === "unverified") {
+      return { status: 502, body: { error: "Could not check this order's last payment with Paystack, please try again" } };
+    }
+    // A payment started just before the deadline is still open: the order may be paid again
+  }
+
+  const lines = (order.order_items ?? []) as unknown as PricedLine[];
+  if (lines.length === 0) return { status: 409, body: { error: "Order has no items" } };
+
+  const amount = toKobo(order.total_amount);
+  const { totalKobo, changedLines } = priceOrder(lines);
+  if (totalKobo !== amount || changedLines.length > 0) {
+    console.error(`❌ Order ${order.id} total mismatch: stored ${amount}, live ${totalKobo}`);
+    return {
+      status: 409,
+      body: {
+        error: "Prices have changed since this order was placed",
+        stored_amount: amount / 100,
+        current_amount: totalKobo / 100,
+        changed_lines: changedLines,
+      },
+    };
+  }
+
+  const reference = newReference(order.id);
+  const { error: attemptError } = await supabaseAdmin.from("payment_attempts").insert({
+    order_id: order.id,
+    reference,
+    amount,
+    currency: PAYSTACK_CURRENCY,
+  });
+  if (attemptError) {
+    console.error("❌ Could not record payment attempt:", attemptError);
+    return { status: 500, body: { error: attemptError.message } };
+  }
+
+  const { ok, body: data } = await initializeTransaction({
+    email: user.email!,
+    amount,
+    reference,
+    metadata: { order_id: order.id },
+  });
+  console.log("💡 Paystack response:", data);
+
+  if (!ok) {
+    console.error("❌ Paystack initialization failed:", data);
+    await supabaseAdmin.from("payment_attempts").update({ status: "failed" }).eq("reference", reference);
+    return { status: 400, body: { error: data } };
+  }
+
+  await supabaseAdmin
+    .from("payment_attempts")
+    .update({ authorization_url: data.data.authorization_url })
+    .eq("reference", reference);
+
+  return { status: 200, body: data };
+}
+
+type ExpiryDecision = "expire" | "attempt_open" | "paid" | "unverified";
+
+// Whether an unpaid order past the TTL may be expired now. Its latest payment
+// attempt must be past the TTL too, so a payment started just before the
+// deadline is not cut off, and Paystack must not report that attempt as paid
+// (the webhook settles those).
+async function decideExpiry(attempts: { reference: string; created_at: string }[], now: number): Promise<ExpiryDecision> {
+  const latest = [...attempts].sort((a, b) => b.created_at.localeCompare(a.created_at))[0];
+  if (!latest) return "expire";
+  if (!isOrderExpired(latest.created_at, now)) return "attempt_open";
+
+  try {
+    const { ok, body } = await verifyTransaction(latest.reference);
+    if (ok && body.data.status === "success") return "paid";
+  } catch (err) {
+    console.warn(`⚠️ Could not verify ${latest.reference}, skipping expiry:`, err);
+    return "unverified";
+  }
+  return "expire";
+}
+
+async function expireOrder(orderId: string, from: OrderStatus) {
+  const result = await transitionOrder(supabaseAdmin, orderId, "cancelled", {
+    actor: EXPIRY_ACTOR,
+    reason: `not paid within ${ORDER_PAYMENT_TTL_MINUTES} minutes (was ${from})`,
+    releaseStock: true,
+  });
+  if (result.ok) {
+    await supabaseAdmin
+      .from("payment_attempts")
+      .update({ status: "abandoned" })
+      .eq("order_id", orderId)
+      .eq("status", "initialized");
+    console.log(`⌛ Order ${orderId} expired`);
+  }
+  return result.ok;
+}
+
+// Cancel unpaid orders older than the TTL and release their stock, unless
+// decideExpiry says their last payment may still land.
+export async function expireStaleOrders(now = new Date()) {
+  const cutoff = new Date(now.getTime() - ORDER_PAYMENT_TTL_MINUTES * 60_000).toISOString();
+  const { data: stale, error } = await supabaseAdmin
+    .from("orders")
+    .select("id, status, payment_attempts(reference, created_at)")
+    .in("status", PAYABLE_STATUSES)
+    .lt("created_at", cutoff)
+    .limit(200);
+  if (error) throw new Error(error.message);
+
+  const expired: string[] = [];
+  const skipped: string[] = [];
+
+  for (const order of stale ?? []) {
+    if ((await decideExpiry(order.payment_attempts ?? [], now.getTime())) !== "expire") {
+      skipped.push(order.id);
+      continue;
+    }
+
+    // Only pending/failed orders were selected
+    if (await expireOrder(order.id, order.status as OrderStatus)) expired.push(order.id);
+    else skipped.push(order.id);
+  }
+
+  return { expired, skipped };
+}
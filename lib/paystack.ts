@@ -0,0 +1,102 @@
+// lib/paystack.ts
+// Thin server-side wrapper around the Paystack REST API.
+import crypto from "crypto";
+
+const PAYSTACK_BASE_URL = process.env.PAYSTACK_BASE_URL || "https://api.paystack.co";
+
+export interface PaystackResponse<T> {
+  status: boolean;
+  message: string;
+  data: T;
+}
+
+export interface PaystackResult<T> {
+  ok: boolean;
+  body: PaystackResponse<T>;
+}
+
+export interface InitializeTransactionParams {
+  email: string;
+  amount: number; // kobo
+  reference: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface InitializedTransaction {
+  authorization_url: string;
+  access_code: string;
+  reference: string;
+}
+
+export interface VerifiedTransaction {
+  id: number;
+  status: "success" | "failed" | "abandoned" | "reversed" | string;
+  reference: string;
+  amount: number; // kobo
+  currency: string;
+  paid_at: string | null;
+  gateway_response: string | null;
+}
+
+// Currency every order is charged in
+export const PAYSTACK_CURRENCY = process.env.PAYSTACK_CURRENCY || "KES";
+
+// Paystack expects amounts in the currency's subunit (kobo/cents)
+export function toKobo(amount: number | string) {
+  return Math.round(Number(amount) * 100);
+}
+
+async function paystackRequest<T>(path: string, init: RequestInit = {}): Promise<PaystackResult<T>> {
+  const res = await fetch(`${PAYSTACK_BASE_URL}${path}`, {
+    ...init,
+    headers: {
+      Authorization: `Bearer ${process.env.PAYSTACK_SECRET_KEY}`,
+      "Content-Type": "application/json",
+      ...init.headers,
+    },
+  });
+  const body = (await res.json()) as PaystackResponse<T>;
+  return { ok: res.ok && body.status, body };
+}
+
+export function initializeTransaction(params: InitializeTransactionParams) {
+  return paystackRequest<InitializedTransaction>("/transaction/initialize", {
+    method: "POST",
+    body: JSON.stringify({
+      ...params,
+      callback_url: process.env.PAYMENT_SUCCESS_URL,
+    }),
+  });
+}
+
+export function verifyTransaction(reference: string) {
+  return paystackRequest<VerifiedTransaction>(`/transaction/verify/${encodeURIComponent(reference)}`);
+}
+
+// Check the `x-paystack-signature` header (HMAC-SHA512 of the raw body) in constant time
+export function verifySignature(payload: string, signature: string | null) {
+  if (!signature) return false;
+  const expected = crypto
+    .createHmac("sha512", process.env.PAYSTACK_SECRET_KEY as string)
+    .update(payload)
+    .digest();
+  const received = Buffer.from(signature, "hex");
+  if (received.length !== expected.length) return false;
+  return crypto.timingSafeEqual(received, expected);
+}
+
+export interface CreatedRefund {
+  id: number;
+  status: string;
+  amount: number; // kobo
+  currency: string;
+  transaction: { id: number; reference: string };
+}
+
+// Full refund when `amount` is omitted, otherwise a partial refund (kobo)
+export function createRefund(params: { transaction: string; amount?: number; merchant_note?: string }) {
+  return paystackRequest<CreatedRefund>("/refund", {
+    method: "POST",
+    body: JSON.stringify(params),
+  });
+}
@@ -0,0 +1,90 @@
+// lib/productRequests.ts
+// Product request workflow shared by the shopper request form, the admin inbox
+// and its API route. Submitting and voting happen in the request_product RPC.
+
+export const PRODUCT_REQUEST_STATUSES = ["open", "planned", "declined", "fulfilled"] as const;
+
+export type ProductRequestStatus = (typeof PRODUCT_REQUEST_STATUSES)[number];
+
+// "open" and "planned" requests collect votes; the others are closed. A new
+// request for a closed product starts a fresh row.
+export const LIVE_REQUEST_STATUSES: readonly ProductRequestStatus[] = ["open", "planned"];
+
+export const PRODUCT_REQUEST_LABELS: Record<ProductRequestStatus, string> = {
+  open: "Open",
+  planned: "Planned",
+  declined: "Declined",
+  fulfilled: "Fulfilled",
+};
+
+export const REQUEST_NAME_MAX = 120;
+export const REQUEST_NOTE_MAX = 500;
+
+export function isProductRequestStatus(value: unknown): value is ProductRequestStatus {
+  return typeof value === "string" && (PRODUCT_REQUEST_STATUSES as readonly string[]).includes(value);
+}
+
+// Same as normalize_request_name() in SQL: "  Oat  Milk" and "oat milk" match
+export function normalizeRequestName(name: string) {
+  return name.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+// Returns an error message, or null when the shopper's text can be submitted
+export function validateRequestName(name: string): string | null {
+  const trimmed = name.trim();
+  if (!trimmed) return "Enter a product name";
+  if (trimmed.length > REQUEST_NAME_MAX) return `Keep it under ${REQUEST_NAME_MAX} characters`;
+  return null;
+}
+
+// What request_product returns
+export type RequestProductResult =
+  | { status: "in_stock"; product_id: string }
+  | {
+      status: ProductRequestStatus;
+      request_id: string;
+      votes: number;
+      created: boolean;
+      already_voted: boolean;
+    };
+
+// Body of PATCH /api/admin/supermarkets/[supermarketId]/requests/[requestId]
+export interface ProductRequestUpdate {
+  status?: ProductRequestStatus;
+  admin_note?: string | null;
+  product_id?: string | null;
+}
+
+export type ProductRequestUpdateValidation =
+  | { ok: true; value: ProductRequestUpdate }
+  | { ok: false; error: string };
+
+export function validateProductRequestUpdate(body: unknown): ProductRequestUpdateValidation {
+  if (!body || typeof body !== "object") return { ok: false, error: "Invalid request body" };
+  const { status, admin_note, product_id } = body as Record<string, unknown>;
+  const value: ProductRequestUpdate = {};
+
+  if (status !== undefined) {
+    if (!isProductRequestStatus(status)) {
+      return { ok: false, error: `status must be one of ${PRODUCT_REQUEST_STATUSES.join(", ")}` };
+    }
+    value.status = status;
+  }
+  if (admin_note !== undefined) {
+    if (admin_note !== null && typeof admin_note !== "string") return { ok: false, error: "admin_note must be text" };
+    const note = admin_note?.trim() ?? "";
+    if (note.length > REQUEST_NOTE_MAX) {
+      return { ok: false, error: `admin_note must be at most ${REQUEST_NOTE_MAX} characters` };
+    }
+    value.admin_note = note || null;
+  }
+  if (product_id !== undefined) {
+    if (product_id !== null && (typeof product_id !== "string" || !product_id)) {
+      return { ok: false, error: "Invalid product id" };
+    }
+    value.product_id = product_id;
+  }
+
+  if (Object.keys(value).length === 0) return { ok: false, error: "Nothing to update" };
+  return { ok: true, value };
+}
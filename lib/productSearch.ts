@@ -0,0 +1,249 @@
+// lib/productSearch.ts
+// Shopper product search: query parsing and cursors for
+// GET /api/supermarkets/[id]/products, and the search_products RPC call behind it.
+import type { TypedSupabaseClient } from "./supabase/config";
+import type { Product } from "./models";
+import { normalizeProduct } from "./products";
+
+export const PRODUCT_SORTS = [
+  "relevance",
+  "best_selling",
+  "newest",
+  "price_asc",
+  "price_desc",
+  "name_asc",
+  "stock_desc",
+] as const;
+
+export type ProductSort = (typeof PRODUCT_SORTS)[number];
+
+export const PRODUCT_SORT_LABELS: Record<ProductSort, string> = {
+  relevance: "Best match",
+  best_selling: "Best selling",
+  newest: "Newest",
+  price_asc: "Price: Low → High",
+  price_desc: "Price: High → Low",
+  name_asc: "Name: A → Z",
+  stock_desc: "Stock: High → Low",
+};
+
+export const SEARCH_PAGE_SIZE = 24;
+export const SEARCH_PAGE_MAX = 100;
+export const SEARCH_QUERY_MAX = 100;
+export const SEARCH_CATEGORIES_MAX = 20;
+
+export interface ProductSearchParams {
+  q: string | null;
+  categories: string[]; // any of these; empty for all
+  minPrice: number | null;
+  maxPrice: number | null;
+  inStock: boolean;
+  onSale: boolean;
+  sort: ProductSort;
+  cursor: string | null;
+  limit: number;
+}
+
+// Counts for the shop's filters, each taken with every other filter applied
+export interface ProductFacets {
+  total: number;
+  categories: { name: string; count: number }[];
+  in_stock: number;
+  on_sale: number;
+}
+
+export interface ProductSearchPage {
+  products: Product[];
+  next_cursor: string | null;
+  // Only on the first page
+  facets?: ProductFacets;
+}
+
+function isProductSort(value: string): value is ProductSort {
+  return (PRODUCT_SORTS as readonly string[]).includes(value);
+}
+
+// Sort names the shop URLs used before the search API, still accepted in old links
+const SORT_ALIASES: Record<string, ProductSort> = {
+  priceAsc: "price_asc",
+  priceDesc: "price_desc",
+  stock: "stock_desc",
+};
+
+function optionalPrice(value: string | null, label: string): { value: number | null } | { error: string } {
+  if (value === null || value.trim() === "") return { value: null };
+  const n = Number(value);
+  if (!Number.isFinite(n) || n < 0) return { error: `${label} must be a non-negative number` };
+  return { value: n };
+}
+
+// Every param read on its own, so callers can either reject the query on the
+// first error or drop just the bad params. `min` and `max` are accepted for
+// min_price and max_price.
+function readSearchParams(params: URLSearchParams) {
+  const errors: string[] = [];
+  const value: ProductSearchParams = {
+    q: null,
+    categories: [],
+    minPrice: null,
+    maxPrice: null,
+    inStock: params.get("in_stock") === "1",
+    onSale: params.get("on_sale") === "1",
+    sort: "relevance",
+    cursor: params.get("cursor") || null,
+    limit: SEARCH_PAGE_SIZE,
+  };
+
+  const q = params.get("q")?.trim() || null;
+  if (q && q.length > SEARCH_QUERY_MAX) errors.push(`q must be at most ${SEARCH_QUERY_MAX} characters`);
+  else value.q = q;
+
+  // ?category=Food&category=Drinks
+  const categories = Array.from(new Set(params.getAll("category").map((c) => c.trim()).filter(Boolean)));
+  if (categories.length > SEARCH_CATEGORIES_MAX) errors.push(`category can be given at most ${SEARCH_CATEGORIES_MAX} times`);
+  else value.categories = categories;
+
+  const sort = params.get("sort") || "relevance";
+  if (isProductSort(sort)) value.sort = sort;
+  else if (SORT_ALIASES[sort]) value.sort = SORT_ALIASES[sort];
+  else errors.push(`sort must be one of ${PRODUCT_SORTS.join(", ")}`);
+
+  const min = optionalPrice(params.get("min_price") ?? params.get("min"), "min_price");
+  if ("error" in min) errors.push(min.error);
+  else value.minPrice = min.value;
+  const max = optionalPrice(params.get("max_price") ?? params.get("max"), "max_price");
+  if ("error" in max) errors.push(max.error);
+  else value.maxPrice = max.value;
+  if (value.minPrice !== null && value.maxPrice !== null && value.minPrice > value.maxPrice) {
+    errors.push("min_price must not exceed max_price");
+    value.minPrice = null;
+    value.maxPrice = null;
+  }
+
+  const limitParam = params.get("limit");
+  const limit = limitParam ? Number(limitParam) : SEARCH_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit < 1 || limit > SEARCH_PAGE_MAX) {
+    errors.push(`limit must be a whole number from 1 to ${SEARCH_PAGE_MAX}`);
+  } else {
+    value.limit = limit;
+  }
+
+  return { value, errors };
+}
+
+// Query string of the products endpoint: the first invalid param is an error
+export function parseProductSearchParams(params: URLSearchParams): ProductSearchParams | { error: string } {
+  const { value, errors } = readSearchParams(params);
+  return errors.length ? { error: errors[0] } : value;
+}
+
+// Query string of a shop page: invalid params are ignored, so a mangled shared
+// link still opens the shop, and it always starts at the first page. The page
+// builds its URLs with productSearchQuery, so shop links and API calls use the
+// same keys.
+export function shopSearchParams(params: URLSearchParams): ProductSearchParams {
+  return { ...readSearchParams(params).value, cursor: null, limit: SEARCH_PAGE_SIZE };
+}
+
+// Cursors are opaque to clients: the sort they were issued for, plus the last
+// row's sort value and id. A cursor from another sort is rejected rather than
+// silently restarting the list.
+interface SearchCursor {
+  sort: ProductSort;
+  value: string;
+  id: string;
+}
+
+export function encodeSearchCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify([cursor.sort, cursor.value, cursor.id])).toString("base64url");
+}
+
+export function decodeSearchCursor(raw: string): SearchCursor | null {
+  try {
+    const parsed: unknown = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+    if (!Array.isArray(parsed) || parsed.length !== 3) return null;
+    const [sort, value, id] = parsed;
+    if (typeof sort !== "string" || !isProductSort(sort) || typeof value !== "string" || typeof id !== "string") {
+      return null;
+    }
+    return { sort, value, id };
+  } catch {
+    return null;
+  }
+}
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super("cursor is invalid or belongs to another sort");
+    this.name = "InvalidCursorError";
+  }
+}
+
+function filterArgs(supermarketId: string, params: ProductSearchParams) {
+  return {
+    p_supermarket_id: supermarketId,
+    p_query: params.q ?? undefined,
+    p_categories: params.categories.length ? params.categories : undefined,
+    p_min_price: params.minPrice ?? undefined,
+    p_max_price: params.maxPrice ?? undefined,
+    p_in_stock: params.inStock,
+    p_on_sale: params.onSale,
+  };
+}
+
+export async function productFacets(
+  client: TypedSupabaseClient,
+  supermarketId: string,
+  params: ProductSearchParams
+): Promise<ProductFacets> {
+  const { data, error } = await client.rpc("product_facets", filterArgs(supermarketId, params));
+  if (error) throw error;
+  return data as unknown as ProductFacets;
+}
+
+// One page of results, plus the facet counts on the first page. Fetches one
+// row past the limit to know whether there is a next page.
+export async function searchProducts(
+  client: TypedSupabaseClient,
+  supermarketId: string,
+  params: ProductSearchParams
+): Promise<ProductSearchPage> {
+  const cursor = params.cursor ? decodeSearchCursor(params.cursor) : null;
+  if (params.cursor && (!cursor || cursor.sort !== params.sort)) throw new InvalidCursorError();
+
+  const { data, error } = await client.rpc("search_products", {
+    ...filterArgs(supermarketId, params),
+    p_sort: params.sort,
+    p_after_value: cursor?.value,
+    p_after_id: cursor?.id,
+    p_limit: params.limit + 1,
+  });
+  if (error) throw error;
+
+  const rows = data ?? [];
+  const page = rows.slice(0, params.limit);
+  const last = page[page.length - 1];
+  const hasMore = rows.length > params.limit && last;
+  const result: ProductSearchPage = {
+    products: page.map((r) => normalizeProduct(r.product)),
+    next_cursor: hasMore ? encodeSearchCursor({ sort: params.sort, value: last.sort_value, id: last.product.id }) : null,
+  };
+
+  if (!params.cursor) result.facets = await productFacets(client, supermarketId, params);
+  return result;
+}
+
+// Query string for a search, omitting defaults so URLs stay short
+export function productSearchQuery(params: Partial<ProductSearchParams>): URLSearchParams {
+  const query = new URLSearchParams();
+  if (params.q) query.set("q", params.q);
+  for (const category of params.categories ?? []) query.append("category", category);
+  if (params.minPrice != null) query.set("min_price", String(params.minPrice));
+  if (params.maxPrice != null) query.set("max_price", String(params.maxPrice));
+  if (params.inStock) query.set("in_stock", "1");
+  if (params.onSale) query.set("on_sale", "1");
+  if (params.sort && params.sort !== "relevance") query.set("sort", params.sort);
+  if (params.cursor) query.set("cursor", params.cursor);
+  if (params.limit && params.limit !== SEARCH_PAGE_SIZE) query.set("limit", String(params.limit));
+  return query;
+}
@@ -0,0 +1,216 @@
+// lib/productTransfer.ts
+// Spreadsheet import and export of a supermarket's products, shared by the
+// admin import/export routes and the admin products page.
+import { FORMULA_PREFIX, csvAdapter, formatCsv } from "./feeds/csv";
+import { FeedError } from "./feeds/types";
+import { validateProductInput, type ProductField, type ProductInput } from "./products";
+import type { Json } from "./database.types";
+import type { Product } from "./models";
+
+// Column order of exports, and of the template imports accept. `id` and `sku`
+// pick the product a row updates; rows with neither create one. `archived` is
+// exported for reference and ignored on import. `exported_stock` repeats the
+// stock at export time: an update moves stock by how far `stock` was edited
+// from it, so sales made since the export are kept.
+export const PRODUCT_CSV_COLUMNS = [
+  "id",
+  "sku",
+  "name",
+  "price",
+  "stock",
+  "exported_stock",
+  "category",
+  "description",
+  "image_url",
+  "archived",
+] as const;
+
+const PRODUCT_FIELDS: ProductField[] = ["name", "price", "stock", "category", "description", "image_url"];
+
+export const MAX_IMPORT_ROWS = 2_000;
+
+// Stock at or below this (and above zero) counts as low
+export const LOW_STOCK_THRESHOLD = 5;
+
+export const STOCK_FILTERS = ["all", "in_stock", "low", "out"] as const;
+
+export type StockFilter = (typeof STOCK_FILTERS)[number];
+
+export const STOCK_FILTER_LABELS: Record<StockFilter, string> = {
+  all: "Any stock",
+  in_stock: "In stock",
+  low: `Low stock (≤ ${LOW_STOCK_THRESHOLD})`,
+  out: "Out of stock",
+};
+
+export type ImportField = ProductField | "id" | "sku" | "exported_stock";
+
+export interface ImportRowError {
+  row: number; // CSV line number
+  errors: Partial<Record<ImportField, string>>;
+}
+
+export interface ImportCreate {
+  row: number;
+  product: ProductInput & { external_sku: string | null };
+}
+
+export interface ImportUpdate {
+  row: number;
+  id: string;
+  name: string;
+  // Stock is never overwritten on update, only moved by stock_delta
+  changes: Partial<Omit<ProductInput, "stock">> & { external_sku?: string | null; stock_delta?: number };
+}
+
+export interface ImportPlan {
+  creates: ImportCreate[];
+  updates: ImportUpdate[];
+  unchanged: number;
+  errors: ImportRowError[];
+}
+
+// Undo the ' formatCsv puts before text a spreadsheet would run as a formula
+function textCell(cell: string) {
+  return cell.startsWith("'") && FORMULA_PREFIX.test(cell.slice(1)) ? cell.slice(1) : cell;
+}
+
+function numberCell(cell: string) {
+  return cell.trim() === "" ? cell : Number(cell.replace(/[\s,]/g, ""));
+}
+
+function sameValue(field: ProductField, current: Product, next: unknown) {
+  if (field === "price") return Number(current[field]) === next;
+  return (current[field] ?? null) === (next ?? null);
+}
+
+// Check every row of an uploaded CSV against the current catalogue. Columns
+// left out of the file are left alone on updates; blank cells in a present
+// column clear that field (or fail, for required numbers). Throws a FeedError
+// when the file itself is unusable.
+export function planProductImport(csv: string, existing: Product[]): ImportPlan {
+  const records = csvAdapter.parse(csv, {});
+  if (records.length === 0) throw new FeedError("The file has no product rows");
+  if (records.length > MAX_IMPORT_ROWS) throw new FeedError(`Import at most ${MAX_IMPORT_ROWS} rows at a time`);
+
+  const columns = new Set(Object.keys(records[0].values));
+  const fields = PRODUCT_FIELDS.filter((f) => columns.has(f));
+  if (!columns.has("id") && !columns.has("sku") && !(columns.has("name") && columns.has("price"))) {
+    throw new FeedError("The file needs an id or sku column, or name and price columns");
+  }
+
+  const byId = new Map(existing.map((p) => [p.id, p]));
+  const bySku = new Map(existing.filter((p) => p.external_sku).map((p) => [p.external_sku as string, p]));
+  const seenIds = new Set<string>();
+  const seenSkus = new Set<string>();
+  const plan: ImportPlan = { creates: [], updates: [], unchanged: 0, errors: [] };
+
+  for (const { row, values } of records) {
+    const cells = Object.fromEntries(Object.entries(values as Record<string, string>).map(([k, v]) => [k, textCell(v)]));
+    const errors: ImportRowError["errors"] = {};
+    const id = cells.id?.trim() || null;
+    const sku = columns.has("sku") ? cells.sku?.trim() || null : undefined;
+
+    if (id && seenIds.has(id)) errors.id = "Duplicate id in file";
+    if (sku && seenSkus.has(sku)) errors.sku = "Duplicate sku in file";
+    if (id) seenIds.add(id);
+    if (sku) seenSkus.add(sku);
+
+    const skuOwner = sku ? bySku.get(sku) : undefined;
+    const current = id ? byId.get(id) : skuOwner;
+    if (id && !current) errors.id = "No product with this id in this supermarket";
+    if (current && skuOwner && skuOwner.id !== current.id) errors.sku = "This sku belongs to another product";
+
+    const input: Record<string, unknown> = {};
+    for (const field of fields) {
+      input[field] = field === "price" || field === "stock" ? numberCell(cells[field]) : cells[field];
+    }
+    const validation = validateProductInput(input, { partial: Boolean(current) });
+    if (!validation.ok) Object.assign(errors, validation.errors);
+
+    // Without an exported_stock cell the edit is read against the stock right now
+    let stockDelta = 0;
+    if (current && validation.ok && validation.value.stock !== undefined) {
+      const exported = cells.exported_stock?.trim() ? numberCell(cells.exported_stock) : Number(current.stock);
+      if (typeof exported !== "number" || !Number.isInteger(exported) || exported < 0) {
+        errors.exported_stock = "Exported stock must be a whole number";
+      } else {
+        stockDelta = validation.value.stock - exported;
+        if (current.stock + stockDelta < 0) {
+          errors.stock = `Only ${current.stock} left, cannot take off ${-stockDelta}`;
+        }
+      }
+    }
+
+    if (!validation.ok || Object.keys(errors).length > 0) {
+      plan.errors.push({ row, errors });
+      continue;
+    }
+
+    if (!current) {
+      plan.creates.push({ row, product: { ...(validation.value as ProductInput), external_sku: sku ?? null } });
+      continue;
+    }
+
+    const changes: ImportUpdate["changes"] = {};
+    for (const field of fields) {
+      const next = validation.value[field];
+      if (field !== "stock" && !sameValue(field, current, next)) Object.assign(changes, { [field]: next });
+    }
+    if (stockDelta !== 0) changes.stock_delta = stockDelta;
+    if (sku && sku !== current.external_sku) changes.external_sku = sku;
+
+    if (Object.keys(changes).length === 0) plan.unchanged++;
+    else plan.updates.push({ row, id: current.id, name: changes.name ?? current.name, changes });
+  }
+  return plan;
+}
+
+// The p_rows argument of import_products
+export function importRows(plan: ImportPlan): Json {
+  return [
+    ...plan.creates.map((c) => c.product),
+    ...plan.updates.map((u) => ({ id: u.id, ...u.changes })),
+  ] as unknown as Json;
+}
+
+export function productsToCsv(products: Product[]) {
+  return formatCsv([
+    [...PRODUCT_CSV_COLUMNS],
+    ...products.map((p) => [
+      p.id,
+      p.external_sku,
+      p.name,
+      p.price,
+      p.stock,
+      p.stock,
+      p.category,
+      p.description,
+      p.image_url,
+      p.archived_at ? "true" : "false",
+    ]),
+  ]);
+}
+
+export interface ExportFilters {
+  format: "csv" | "json";
+  category: string | null;
+  stock: StockFilter;
+  includeArchived: boolean;
+}
+
+// Query string of the export route: ?format=csv|json&category=&stock=&archived=1
+export function parseExportFilters(params: URLSearchParams): ExportFilters | { error: string } {
+  const format = params.get("format") ?? "csv";
+  if (format !== "csv" && format !== "json") return { error: "format must be csv or json" };
+  const stock = params.get("stock") ?? "all";
+  if (!(STOCK_FILTERS as readonly string[]).includes(stock)) {
+    return { error: `stock must be one of ${STOCK_FILTERS.join(", ")}` };
+  }
+  return {
+    format,
+    category: params.get("category")?.trim() || null,
+    stock: stock as StockFilter,
+    includeArchived: params.get("archived") === "1",
+  };
+}
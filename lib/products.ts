@@ -0,0 +1,187 @@
+// lib/products.ts
+// Product rules shared by the admin product forms and the admin product routes.
+import type { Product } from "./models";
+
+export const PRODUCT_NAME_MAX = 120;
+export const PRODUCT_CATEGORY_MAX = 60;
+export const PRODUCT_DESCRIPTION_MAX = 1000;
+export const PRODUCT_GALLERY_MAX = 8;
+
+// Fields an admin may set on a product
+export interface ProductInput {
+  name: string;
+  price: number;
+  // "Was" price: the product is on sale while this is above price. Optional
+  // everywhere, so feeds and imports that do not know it leave it alone.
+  compare_at_price?: number | null;
+  stock: number;
+  category: string | null;
+  description: string | null;
+  image_url: string | null;
+  // More images for the product page, after image_url. Optional like compare_at_price.
+  gallery_urls?: string[];
+}
+
+export type ProductField = keyof ProductInput;
+
+export type ProductErrors = Partial<Record<ProductField, string>>;
+
+export type ProductValidation =
+  | { ok: true; value: Partial<ProductInput> }
+  | { ok: false; errors: ProductErrors };
+
+// Body of PATCH /api/admin/supermarkets/[supermarketId]/products/[productId]
+export type ProductUpdateRequest = Partial<ProductInput> & { archived?: boolean };
+
+function optionalText(value: unknown, max: number, label: string): { value: string | null } | { error: string } {
+  if (value === undefined || value === null) return { value: null };
+  if (typeof value !== "string") return { error: `${label} must be text` };
+  const trimmed = value.trim();
+  if (trimmed.length > max) return { error: `${label} must be at most ${max} characters` };
+  return { value: trimmed || null };
+}
+
+function isImageUrl(value: string) {
+  if (value.startsWith("/") && !value.startsWith("//")) return true;
+  try {
+    const url = new URL(value);
+    return url.protocol === "https:" || url.protocol === "http:";
+  } catch {
+    return false;
+  }
+}
+
+// Checks and normalizes product fields. With `partial`, missing fields are left
+// out (PATCH); otherwise name and price are required (create).
+export function validateProductInput(body: unknown, { partial = false } = {}): ProductValidation {
+  if (!body || typeof body !== "object") return { ok: false, errors: { name: "Invalid request body" } };
+  const input = body as Record<string, unknown>;
+  const value: Partial<ProductInput> = {};
+  const errors: ProductErrors = {};
+  const has = (field: ProductField) => input[field] !== undefined;
+
+  if (has("name") || !partial) {
+    const name = typeof input.name === "string" ? input.name.trim() : "";
+    if (!name) errors.name = "Name is required";
+    else if (name.length > PRODUCT_NAME_MAX) errors.name = `Name must be at most ${PRODUCT_NAME_MAX} characters`;
+    else value.name = name;
+  }
+
+  if (has("price") || !partial) {
+    const price = input.price;
+    if (price === undefined || price === null) errors.price = "Price is required";
+    else if (typeof price !== "number" || !Number.isFinite(price)) errors.price = "Price must be a number";
+    else if (price < 0) errors.price = "Price cannot be negative";
+    else if (Math.abs(Math.round(price * 100) - price * 100) > 1e-6) errors.price = "Price can have at most 2 decimals";
+    else value.price = price;
+  }
+
+  if (has("compare_at_price")) {
+    const compareAt = input.compare_at_price;
+    if (compareAt === null) value.compare_at_price = null;
+    else if (typeof compareAt !== "number" || !Number.isFinite(compareAt)) {
+      errors.compare_at_price = "Was price must be a number";
+    } else if (compareAt <= 0) errors.compare_at_price = "Was price must be positive";
+    else if (Math.abs(Math.round(compareAt * 100) - compareAt * 100) > 1e-6) {
+      errors.compare_at_price = "Was price can have at most 2 decimals";
+    } else if (value.price !== undefined && compareAt <= value.price) {
+      errors.compare_at_price = "Was price must be above the price";
+    } else value.compare_at_price = compareAt;
+  }
+
+  if (has("stock") || !partial) {
+    const stock = input.stock ?? 0;
+    if (typeof stock !== "number" || !Number.isInteger(stock)) errors.stock = "Stock must be a whole number";
+    else if (stock < 0) errors.stock = "Stock cannot be negative";
+    else value.stock = stock;
+  }
+
+  const texts: [ProductField, number, string][] = [
+    ["category", PRODUCT_CATEGORY_MAX, "Category"],
+    ["description", PRODUCT_DESCRIPTION_MAX, "Description"],
+    ["image_url", 2048, "Image URL"],
+  ];
+  for (const [field, max, label] of texts) {
+    if (!has(field) && partial) continue;
+    const result = optionalText(input[field], max, label);
+    if ("error" in result) errors[field] = result.error;
+    else (value as Record<string, string | null>)[field] = result.value;
+  }
+  if (value.image_url && !isImageUrl(value.image_url)) {
+    errors.image_url = "Image URL must be an http(s) link or a path starting with /";
+    delete value.image_url;
+  }
+
+  if (has("gallery_urls")) {
+    const urls = input.gallery_urls;
+    if (!Array.isArray(urls) || urls.some((u) => typeof u !== "string")) {
+      errors.gallery_urls = "More images must be a list of links";
+    } else if (urls.length > PRODUCT_GALLERY_MAX) {
+      errors.gallery_urls = `At most ${PRODUCT_GALLERY_MAX} more images`;
+    } else {
+      const trimmed = (urls as string[]).map((u) => u.trim()).filter(Boolean);
+      const bad = trimmed.find((u) => u.length > 2048 || !isImageUrl(u));
+      if (bad) errors.gallery_urls = `Not an image link: ${bad}`;
+      else value.gallery_urls = trimmed;
+    }
+  }
+
+  if (Object.keys(errors).length > 0) return { ok: false, errors };
+  return { ok: true, value };
+}
+
+// Form state for a product: numbers stay strings until submitted
+export type ProductDraft = Record<ProductField, string>;
+
+export const EMPTY_PRODUCT_DRAFT: ProductDraft = {
+  name: "",
+  price: "",
+  compare_at_price: "",
+  stock: "0",
+  category: "",
+  description: "",
+  image_url: "",
+  gallery_urls: "",
+};
+
+export function draftFromProduct(product: Product): ProductDraft {
+  return {
+    name: product.name,
+    price: String(product.price),
+    compare_at_price: product.compare_at_price === null ? "" : String(product.compare_at_price),
+    stock: String(product.stock),
+    category: product.category ?? "",
+    description: product.description ?? "",
+    image_url: product.image_url ?? "",
+    gallery_urls: product.gallery_urls.join("\n"),
+  };
+}
+
+export function inputFromDraft(draft: ProductDraft): Record<ProductField, unknown> {
+  const toNumber = (text: string) => (text.trim() === "" ? undefined : Number(text));
+  return {
+    ...draft,
+    price: toNumber(draft.price),
+    compare_at_price: toNumber(draft.compare_at_price) ?? null, // empty ends a sale
+    stock: toNumber(draft.stock),
+    gallery_urls: draft.gallery_urls.split("\n"), // one link per line
+  };
+}
+
+// PostgREST may send numeric columns as strings
+export function normalizeProduct(product: Product): Product {
+  return {
+    ...product,
+    price: Number(product.price),
+    compare_at_price: product.compare_at_price === null ? null : Number(product.compare_at_price),
+    stock: Number(product.stock),
+  };
+}
+
+export function isOnSale(product: Pick<Product, "price" | "compare_at_price">) {
+  return product.compare_at_price !== null && product.compare_at_price > product.price;
+}
+
+export function isArchived(product: Pick<Product, "archived_at">) {
+  return Boolean(product.archived_at);
+}
@@ -0,0 +1,107 @@
+// lib/realtime.ts
+// Live product, order, request and notification updates for client components, over Supabase Realtime.
+import { supabase } from "./supabase/browser";
+import type { Notification, Order, OrderItem, Product, ProductRequest } from "./models";
+import { isArchived, normalizeProduct } from "./products";
+
+export type ProductChange = { type: "upsert"; product: Product } | { type: "delete"; id: string };
+
+// One channel per supermarket, `products:<supermarketId>`. Returns the unsubscribe function.
+export function subscribeToProducts(supermarketId: string, onChange: (change: ProductChange) => void) {
+  const channel = supabase
+    .channel(`products:${supermarketId}`)
+    .on<Product>(
+      "postgres_changes",
+      { event: "*", schema: "public", table: "products", filter: `supermarket_id=eq.${supermarketId}` },
+      (payload) => {
+        if (payload.eventType === "DELETE") {
+          if (payload.old.id) onChange({ type: "delete", id: payload.old.id });
+          return;
+        }
+        onChange({ type: "upsert", product: payload.new });
+      }
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
+// Apply a change to a product list. Shopper lists drop archived products.
+// Paged search results pass addNew: false, since a new product may not match
+// the search or belong on the pages loaded so far.
+export function applyProductChange(
+  products: Product[],
+  change: ProductChange,
+  { includeArchived = false, addNew = true } = {}
+) {
+  const id = change.type === "delete" ? change.id : change.product.id;
+  const rest = products.filter((p) => p.id !== id);
+  if (change.type === "delete" || (!includeArchived && isArchived(change.product))) return rest;
+
+  const product = normalizeProduct(change.product);
+  const index = products.findIndex((p) => p.id === id);
+  if (index === -1) return addNew ? [...rest, product] : products;
+  return products.map((p) => (p.id === id ? product : p));
+}
+
+// Fires with the id of every order of the supermarket that was created, changed
+// status or had a line picked. Payloads carry no joins, so callers refetch the
+// order. Returns the unsubscribe function.
+export function subscribeToOrders(supermarketId: string, onChange: (orderId: string) => void) {
+  const channel = supabase
+    .channel(`orders:${supermarketId}`)
+    .on<Order>(
+      "postgres_changes",
+      { event: "*", schema: "public", table: "orders", filter: `supermarket_id=eq.${supermarketId}` },
+      (payload) => {
+        const id = payload.eventType === "DELETE" ? payload.old.id : payload.new.id;
+        if (id) onChange(id);
+      }
+    )
+    // order_items has no supermarket_id; RLS only delivers lines of visible orders
+    .on<OrderItem>("postgres_changes", { event: "UPDATE", schema: "public", table: "order_items" }, (payload) => {
+      if (payload.new.order_id) onChange(payload.new.order_id);
+    })
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
+// New and updated requests of one supermarket, for the admin inbox. Votes bump
+// vote_count, so they arrive as updates too. Returns the unsubscribe function.
+export function subscribeToProductRequests(supermarketId: string, onChange: (request: ProductRequest) => void) {
+  const channel = supabase
+    .channel(`product_requests:${supermarketId}`)
+    .on<ProductRequest>(
+      "postgres_changes",
+      { event: "*", schema: "public", table: "product_requests", filter: `supermarket_id=eq.${supermarketId}` },
+      (payload) => {
+        if (payload.eventType !== "DELETE") onChange(payload.new);
+      }
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
+// Notifications delivered to one user while the page is open. Returns the unsubscribe function.
+export function subscribeToNotifications(userId: string, onInsert: (notification: Notification) => void) {
+  const channel = supabase
+    .channel(`notifications:${userId}`)
+    .on<Notification>(
+      "postgres_changes",
+      { event: "INSERT", schema: "public", table: "notifications", filter: `user_id=eq.${userId}` },
+      (payload) => onInsert(payload.new)
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
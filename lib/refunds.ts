@@ -0,0 +1,316 @@
+// lib/refunds.ts
+// Admin cancellations and Paystack refunds, plus settling refund webhooks.
+import { createServiceSupabase } from "./supabase/service";
+import { canTransition, transitionOrder, type OrderStatus } from "./orderStatus";
+import { PAYSTACK_CURRENCY, createRefund, toKobo } from "./paystack";
+import type { RouteResult } from "./payments";
+import type { Json } from "./database.types";
+
+const supabaseAdmin = createServiceSupabase();
+
+export interface RefundLineInput {
+  product_id: string;
+  quantity: number;
+}
+
+export interface RefundRequest {
+  amount?: number; // KES; partial refund without restocking
+  items?: RefundLineInput[]; // refund (and restock) these lines
+  reason?: string;
+}
+
+export interface Refund {
+  id: number;
+  order_id: string;
+  transaction_reference: string;
+  paystack_refund_id: number | null;
+  amount: number; // kobo
+  currency: string;
+  items: RefundLineInput[];
+  status: "pending" | "processed" | "failed";
+  reason: string | null;
+  requested_by: string | null;
+  created_at: string;
+  processed_at: string | null;
+}
+
+interface OrderForRefund {
+  id: string;
+  status: OrderStatus;
+  total_amount: number;
+  order_items: { product_id: string; quantity: number; price: number }[];
+  refunds: Pick<Refund, "amount" | "items" | "status">[];
+  payment_attempts: { reference: string; status: string; created_at: string }[];
+}
+
+// Cancel an order that was never paid and put its items back in stock
+export async function cancelUnpaidOrder(orderId: string, actorId: string, reason?: string): Promise<RouteResult> {
+  const { data: order, error } = await supabaseAdmin.from("orders").select("status").eq("id", orderId).maybeSingle();
+  if (error) return { status: 500, body: { error: error.message } };
+  if (!order) return { status: 404, body: { error: "Order not found" } };
+  if (order.status !== "pending" && order.status !== "failed") {
+    return { status: 409, body: { error: `Only unpaid orders can be cancelled (order is ${order.status})` } };
+  }
+
+  const result = await transitionOrder(supabaseAdmin, orderId, "cancelled", {
+    actor: `admin:${actorId}`,
+    reason: reason || "cancelled by admin",
+    releaseStock: true,
+  });
+  if (!result.ok) return { status: 409, body: { error: result.reason } };
+
+  await supabaseAdmin
+    .from("payment_attempts")
+    .update({ status: "abandoned" })
+    .eq("order_id", orderId)
+    .eq("status", "initialized");
+
+  console.log(`🛑 Order ${orderId} cancelled by ${actorId}`);
+  return { status: 200, body: { order_id: orderId, status: "cancelled" } };
+}
+
+// Ask Paystack to refund all or part of a paid order. Nothing is restocked
+// until the refund.processed webhook arrives.
+export async function requestRefund(orderId: string, request: RefundRequest, actorId: string): Promise<RouteResult> {
+  const { data, error } = await supabaseAdmin
+    .from("orders")
+    .select(
+      "id, status, total_amount, order_items(product_id, quantity, price), refunds(amount, items, status), payment_attempts(reference, status, created_at)"
+    )
+    .eq("id", orderId)
+    .maybeSingle();
+  if (error) return { status: 500, body: { error: error.message } };
+  if (!data) return { status: 404, body: { error: "Order not found" } };
+
+  const order = data as unknown as OrderForRefund;
+  if (!canTransition(order.status, "refunded")) {
+    return { status: 409, body: { error: `Order is ${order.status} and cannot be refunded` } };
+  }
+
+  // What has already been (or is being) refunded
+  const activeRefunds = order.refunds.filter((r) => r.status !== "failed");
+  const refundedKobo = activeRefunds.reduce((sum, r) => sum + Number(r.amount), 0);
+  const refundedQty = new Map<string, number>();
+  for (const r of activeRefunds) {
+    for (const item of r.items) {
+      refundedQty.set(item.product_id, (refundedQty.get(item.product_id) ?? 0) + item.quantity);
+    }
+  }
+  const remainingKobo = toKobo(order.total_amount) - refundedKobo;
+
+  let amount: number;
+  let items: RefundLineInput[];
+
+  if (request.items?.length) {
+    // Lines repeating a product are checked (and restocked) as one
+    const requestedQty = new Map<string, number>();
+    for (const line of request.items) {
+      if (!Number.isInteger(line.quantity) || line.quantity <= 0) {
+        return { status: 400, body: { error: `Quantity of product ${line.product_id} must be a positive whole number` } };
+      }
+      requestedQty.set(line.product_id, (requestedQty.get(line.product_id) ?? 0) + line.quantity);
+    }
+
+    amount = 0;
+    items = [];
+    for (const [productId, quantity] of requestedQty) {
+      const ordered = order.order_items.find((i) => i.product_id === productId);
+      if (!ordered) return { status: 400, body: { error: `Product ${productId} is not in this order` } };
+      const refundable = ordered.quantity - (refundedQty.get(productId) ?? 0);
+      if (quantity > refundable) {
+        return { status: 400, body: { error: `Can refund at most ${refundable} of product ${productId}` } };
+      }
+      amount += toKobo(ordered.price) * quantity;
+      items.push({ product_id: productId, quantity });
+    }
+  } else if (request.amount !== undefined) {
+    amount = toKobo(request.amount);
+    items = [];
+  } else {
+    amount = remainingKobo;
+    items = order.order_items
+      .map((i) => ({ product_id: i.product_id, quantity: i.quantity - (refundedQty.get(i.product_id) ?? 0) }))
+      .filter((i) => i.quantity > 0);
+  }
+
+  if (!(amount > 0)) return { status: 400, body: { error: "Refund amount must be positive" } };
+  if (amount > remainingKobo) {
+    return { status: 409, body: { error: `Only KES ${remainingKobo / 100} is left to refund` } };
+  }
+
+  const paid = order.payment_attempts
+    .filter((a) => a.status === "success")
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))[0];
+  const transactionReference = paid?.reference ?? order.id;
+
+  const { data: refund, error: insertError } = await supabaseAdmin
+    .from("refunds")
+    .insert({
+      order_id: order.id,
+      transaction_reference: transactionReference,
+      amount,
+      currency: PAYSTACK_CURRENCY,
+      items: items as unknown as Json,
+      reason: request.reason ?? null,
+      requested_by: actorId,
+    })
+    .select("*")
+    .single<Refund>();
+  if (insertError) return { status: 500, body: { error: insertError.message } };
+
+  const { ok, body } = await createRefund({
+    transaction: transactionReference,
+    amount,
+    merchant_note: request.reason,
+  });
+  if (!ok) {
+    console.error("❌ Paystack refund failed:", body);
+    await supabaseAdmin.rpc("complete_refund", { p_refund_id: refund.id, p_status: "failed" });
+    return { status: 502, body: { error: body.message || "Paystack refund failed" } };
+  }
+
+  await supabaseAdmin.from("refunds").update({ paystack_refund_id: body.data.id }).eq("id", refund.id);
+
+  console.log(`💸 Refund ${refund.id} of ${amount / 100} requested for order ${order.id}`);
+  return { status: 202, body: { refund: { ...refund, paystack_refund_id: body.data.id } } };
+}
+
+export interface RefundEventData {
+  id?: number;
+  transaction_reference?: string;
+  amount?: number;
+}
+
+// Apply a refund.processed / refund.failed webhook. Returns false when the
+// refund was unknown or already settled.
+export async function settleRefund(
+  data: RefundEventData,
+  status: "processed" | "failed",
+  actor: string
+): Promise<{ settled: boolean; orderId?: string; reason?: string }> {
+  let query = supabaseAdmin.from("refunds").select("id, order_id").eq("status", "pending");
+  query = data.id
+    ? query.eq("paystack_refund_id", data.id)
+    : query.eq("transaction_reference", data.transaction_reference ?? "").eq("amount", data.amount ?? 0);
+
+  const { data: refunds, error } = await query.order("created_at", { ascending: true }).limit(1);
+  if (error) throw new Error(error.message);
+  const refund = refunds?.[0];
+  if (!refund) return { settled: false, reason: "no pending refund matches" };
+
+  const { data: applied, error: rpcError } = await supabaseAdmin.rpc("complete_refund", {
+    p_refund_id: refund.id,
+    p_status: status,
+  });
+  if (rpcError) throw new Error(rpcError.message);
+  if (!applied) return { settled: false, orderId: refund.order_id, reason: "refund already settled" };
+
+  if (status === "processed") {
+    // Fully refunded orders move to "refunded"; partial refunds keep their status
+    const { data: order } = await supabaseAdmin
+      .from("orders")
+      .select("total_amount, refunds(amount, status)")
+      .eq("id", refund.order_id)
+      .single();
+    const processed = ((order?.refunds ?? []) as { amount: number; status: string }[])
+      .filter((r) => r.status === "processed")
+      .reduce((sum, r) => sum + Number(r.amount), 0);
+
+    if (order && processed >= toKobo(order.total_amount)) {
+      await transitionOrder(supabaseAdmin, refund.order_id, "refunded", {
+        actor,
+        reason: "refund processed",
+      });
+    }
+  }
+
+  return { settled: true, orderId: refund.order_id };
+}
+
+// Tell the supermarket's admins (and super admins) about a payment problem
+async function notifyOrderAdmins(supermarketId: string, title: string, body: string) {
+  const { data: admins, error } = await supabaseAdmin
+    .from("profiles")
+    .select("id")
+    .or(`role.eq.super_admin,and(role.eq.store_admin,supermarket_id.eq.${supermarketId})`);
+  if (error) throw new Error(error.message);
+  if (!admins?.length) return;
+
+  const { error: insertError } = await supabaseAdmin.from("notifications").insert(
+    admins.map((a) => ({
+      user_id: a.id,
+      kind: "late_payment",
+      title,
+      body,
+      link: `/admin/${supermarketId}/orders`,
+    }))
+  );
+  if (insertError) throw new Error(insertError.message);
+}
+
+// A charge Paystack confirmed for an order that was already cancelled (say it
+// expired while the shopper was still on the payment page). The order stays
+// cancelled, the whole charge is refunded and the store's admins are told;
+// if Paystack refuses the refund they are asked to refund it by hand.
+export async function refundLatePayment(
+  order: { id: string; supermarket_id: string },
+  reference: string,
+  amount: number // kobo
+): Promise<{ refundId: number | null; reason: string }> {
+  // A redelivered webhook must not refund twice
+  const { data: existing, error } = await supabaseAdmin
+    .from("refunds")
+    .select("id")
+    .eq("transaction_reference", reference)
+    .neq("status", "failed")
+    .limit(1);
+  if (error) throw new Error(error.message);
+  if (existing?.length) return { refundId: existing[0].id, reason: `refund ${existing[0].id} already requested` };
+
+  const { data: refund, error: insertError } = await supabaseAdmin
+    .from("refunds")
+    .insert({
+      order_id: order.id,
+      transaction_reference: reference,
+      amount,
+      currency: PAYSTACK_CURRENCY,
+      items: [],
+      reason: "paid after the order was cancelled",
+    })
+    .select("id")
+    .single();
+  if (insertError) throw new Error(insertError.message);
+
+  let refused: string | null = null;
+  try {
+    const { ok, body } = await createRefund({
+      transaction: reference,
+      amount,
+      merchant_note: "Order was cancelled before the payment arrived",
+    });
+    if (ok) await supabaseAdmin.from("refunds").update({ paystack_refund_id: body.data.id }).eq("id", refund.id);
+    else refused = body.message || "Paystack refund failed";
+  } catch (err) {
+    refused = err instanceof Error ? err.message : "Paystack refund failed";
+  }
+
+  const paid = `KES ${amount / 100} (${reference})`;
+  if (refused) {
+    console.error(`❌ Automatic refund for order ${order.id} failed:`, refused);
+    await supabaseAdmin.rpc("complete_refund", { p_refund_id: refund.id, p_status: "failed" });
+    await notifyOrderAdmins(
+      order.supermarket_id,
+      "Payment on a cancelled order needs a manual refund",
+      `Order ${order.id} was paid ${paid} after it was cancelled, and the automatic refund failed: ${refused}`
+    );
+    return { refundId: null, reason: `automatic refund failed: ${refused}` };
+  }
+
+  await notifyOrderAdmins(
+    order.supermarket_id,
+    "Payment on a cancelled order was refunded",
+    `Order ${order.id} was paid ${paid} after it was cancelled. The payment is being refunded.`
+  );
+  console.log(`💸 Refund ${refund.id} requested for late payment on order ${order.id}`);
+  return { refundId: refund.id, reason: `refund ${refund.id} requested` };
+}
@@ -0,0 +1,28 @@
+// lib/roles.ts
+// Roles shared by the browser (AuthContext) and server (API route guards).
+
+export type Role = "shopper" | "store_admin" | "super_admin";
+
+export const ROLES: Role[] = ["shopper", "store_admin", "super_admin"];
+
+export interface Profile {
+  id: string;
+  role: Role;
+  // The supermarket a store_admin manages; null for shoppers and super admins
+  supermarket_id: string | null;
+}
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === "string" && (ROLES as string[]).includes(value);
+}
+
+export function isAdminRole(role: Role) {
+  return role === "store_admin" || role === "super_admin";
+}
+
+// Super admins manage every supermarket; store admins only their own
+export function canManageSupermarket(profile: Profile | null, supermarketId: string) {
+  if (!profile) return false;
+  if (profile.role === "super_admin") return true;
+  return profile.role === "store_admin" && profile.supermarket_id === supermarketId;
+}
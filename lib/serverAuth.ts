@@ -0,0 +1,70 @@
+// lib/serverAuth.ts
+// Server-side session helpers shared by route handlers and server components.
+import { NextResponse } from "next/server";
+import type { User } from "@supabase/supabase-js";
+import type { TypedSupabaseClient } from "./supabase/config";
+import { createServerSupabase, createTokenSupabase } from "./supabase/server";
+import { canManageSupermarket, isAdminRole, isRole, type Profile } from "./roles";
+
+export interface RequestAuth {
+  user: User;
+  // Client that acts as the caller, so RLS and auth.uid() apply on the server too
+  supabase: TypedSupabaseClient;
+}
+
+// Resolve the caller of an API route: an `Authorization: Bearer <token>` header
+// wins, otherwise the cookie session set by the browser client is used.
+export async function getRequestUser(req: Request): Promise<RequestAuth | null> {
+  const header = req.headers.get("authorization");
+  const token = header?.startsWith("Bearer ") ? header.slice("Bearer ".length) : null;
+  if (!token) return getServerSession();
+
+  const supabase = createTokenSupabase(token);
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) return null;
+
+  return { user: data.user, supabase };
+}
+
+// Signed-in user from the request cookies, for server components and route handlers
+export async function getServerSession(): Promise<RequestAuth | null> {
+  const supabase = await createServerSupabase();
+  const { data, error } = await supabase.auth.getUser();
+  if (error || !data.user) return null;
+  return { user: data.user, supabase };
+}
+
+export async function getProfile(client: TypedSupabaseClient, userId: string): Promise<Profile | null> {
+  const { data } = await client
+    .from("profiles")
+    .select("id, role, supermarket_id")
+    .eq("id", userId)
+    .maybeSingle<Profile>();
+  if (!data || !isRole(data.role)) return null;
+  return data;
+}
+
+// The one shape every API route uses for auth failures
+export function authError(status: 401 | 403, error = status === 401 ? "Not authenticated" : "Forbidden") {
+  return NextResponse.json({ error }, { status });
+}
+
+export type AdminCheck =
+  | { ok: true; auth: RequestAuth; profile: Profile }
+  | { ok: false; status: 401 | 403; error: string };
+
+// Caller must be a store or super admin; with a supermarketId, one who manages it
+export async function requireAdmin(req: Request, supermarketId?: string): Promise<AdminCheck> {
+  const auth = await getRequestUser(req);
+  if (!auth) return { ok: false, status: 401, error: "Not authenticated" };
+
+  const profile = await getProfile(auth.supabase, auth.user.id);
+  if (!profile || !isAdminRole(profile.role)) {
+    return { ok: false, status: 403, error: "Admins only" };
+  }
+  if (supermarketId && !canManageSupermarket(profile, supermarketId)) {
+    return { ok: false, status: 403, error: "Not an admin of this supermarket" };
+  }
+  return { ok: true, auth, profile };
+}
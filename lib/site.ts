@@ -0,0 +1,3 @@
+// lib/site.ts
+// Public origin of the app, for absolute links in metadata (Open Graph, JSON-LD)
+export const SITE_URL = process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000";
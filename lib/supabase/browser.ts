@@ -0,0 +1,18 @@
+// lib/supabase/browser.ts
+import { createBrowserClient } from "@supabase/ssr";
+import type { Database } from "../database.types";
+import { supabaseAnonKey, supabaseUrl } from "./config";
+
+// Anon-key client for client components. Keeps the session in cookies (not
+// localStorage) so middleware and route handlers can see who is signed in.
+export function createBrowserSupabase() {
+  return createBrowserClient<Database>(supabaseUrl, supabaseAnonKey, {
+    auth: {
+      persistSession: true,
+      autoRefreshToken: true,
+    },
+  });
+}
+
+// createBrowserClient already returns one shared instance in the browser
+export const supabase = createBrowserSupabase();
@@ -0,0 +1,10 @@
+// lib/supabase/config.ts
+// Public project settings, safe for any bundle. The service-role key lives only in ./service.ts.
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../database.types";
+
+export const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+export const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+// What every factory in lib/supabase returns: queries are checked against the schema
+export type TypedSupabaseClient = SupabaseClient<Database>;
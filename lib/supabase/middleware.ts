@@ -0,0 +1,39 @@
+// lib/supabase/middleware.ts
+// Client for middleware.ts, which cannot use next/headers cookies().
+import { NextResponse, type NextRequest } from "next/server";
+import { createServerClient } from "@supabase/ssr";
+import { createClient } from "@supabase/supabase-js";
+import type { Database } from "../database.types";
+import { supabaseAnonKey, supabaseUrl } from "./config";
+
+// Returns a client acting as the caller plus the response to continue with,
+// which carries any refreshed session cookies back to the browser.
+export function createMiddlewareSupabase(req: NextRequest) {
+  const header = req.headers.get("authorization");
+  const accessToken = header?.startsWith("Bearer ") ? header.slice("Bearer ".length) : null;
+
+  let response = NextResponse.next({ request: req });
+
+  if (accessToken) {
+    const supabase = createClient<Database>(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: `Bearer ${accessToken}` } },
+      auth: { persistSession: false, autoRefreshToken: false },
+    });
+    return { supabase, accessToken, response: () => response };
+  }
+
+  const supabase = createServerClient<Database>(supabaseUrl, supabaseAnonKey, {
+    cookies: {
+      getAll() {
+        return req.cookies.getAll();
+      },
+      setAll(cookiesToSet) {
+        // Pass refreshed session cookies both to the handler and back to the browser
+        cookiesToSet.forEach(({ name, value }) => req.cookies.set(name, value));
+        response = NextResponse.next({ request: req });
+        cookiesToSet.forEach(({ name, value, options }) => response.cookies.set(name, value, options));
+      },
+    },
+  });
+  return { supabase, accessToken, response: () => response };
+}
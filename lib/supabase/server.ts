@@ -0,0 +1,36 @@
+// lib/supabase/server.ts
+// Clients that act as the signed-in user from server components and route handlers.
+import "server-only";
+import { cookies } from "next/headers";
+import { createServerClient } from "@supabase/ssr";
+import { createClient } from "@supabase/supabase-js";
+import type { Database } from "../database.types";
+import { supabaseAnonKey, supabaseUrl } from "./config";
+
+// Cookie-aware client: reads (and, in route handlers, refreshes) the session cookies
+export async function createServerSupabase() {
+  const cookieStore = await cookies();
+
+  return createServerClient<Database>(supabaseUrl, supabaseAnonKey, {
+    cookies: {
+      getAll() {
+        return cookieStore.getAll();
+      },
+      setAll(cookiesToSet) {
+        try {
+          cookiesToSet.forEach(({ name, value, options }) => cookieStore.set(name, value, options));
+        } catch {
+          // Server components cannot set cookies; middleware refreshes the session instead
+        }
+      },
+    },
+  });
+}
+
+// Client for API callers that send `Authorization: Bearer <access token>`
+export function createTokenSupabase(accessToken: string) {
+  return createClient<Database>(supabaseUrl, supabaseAnonKey, {
+    global: { headers: { Authorization: `Bearer ${accessToken}` } },
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
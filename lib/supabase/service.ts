@@ -0,0 +1,25 @@
+// lib/supabase/service.ts
+// Service-role client for trusted server code (webhooks, scheduled jobs, admin
+// routes after their own checks). It bypasses RLS. The `server-only` import
+// makes `next build` fail if a client component ever pulls this module in.
+import "server-only";
+import { createClient } from "@supabase/supabase-js";
+import type { Database } from "../database.types";
+import { supabaseUrl, type TypedSupabaseClient } from "./config";
+
+let serviceClient: TypedSupabaseClient | null = null;
+
+export function createServiceSupabase() {
+  if (!serviceClient) {
+    const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+    if (!serviceRoleKey) throw new Error("SUPABASE_SERVICE_ROLE_KEY is not set");
+
+    serviceClient = createClient<Database>(supabaseUrl, serviceRoleKey, {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+    });
+  }
+  return serviceClient;
+}
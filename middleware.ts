@@ -0,0 +1,78 @@
+// middleware.ts
+// Guards admin pages and mutating API routes before they render or run.
+// Route handlers still check ownership and supermarket scope themselves.
+import { NextResponse, type NextRequest } from "next/server";
+import { createMiddlewareSupabase } from "@/lib/supabase/middleware";
+import { canManageSupermarket, isAdminRole, isRole, type Profile } from "@/lib/roles";
+
+const MUTATING_METHODS = ["POST", "PUT", "PATCH", "DELETE"];
+
+// API routes that authenticate themselves (Paystack signature, cron secret)
+const SELF_AUTHENTICATED_API = ["/api/paystack-webhook", "/api/cron/"];
+
+function isAdminPath(pathname: string) {
+  return pathname === "/admin" || pathname.startsWith("/admin/") || pathname.startsWith("/api/admin/");
+}
+
+// /admin/<supermarketId>/... and /api/admin/supermarkets/<supermarketId>/...
+function supermarketFromPath(pathname: string) {
+  const match = pathname.match(/^\/admin\/([^/]+)/) ?? pathname.match(/^\/api\/admin\/supermarkets\/([^/]+)/);
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
+// API callers get JSON; people browsing admin pages get sent to log in
+function deny(req: NextRequest, status: 401 | 403, error: string) {
+  if (req.nextUrl.pathname.startsWith("/api/")) {
+    return NextResponse.json({ error }, { status });
+  }
+  if (status === 401) {
+    const login = new URL("/login", req.url);
+    login.searchParams.set("redirect", `${req.nextUrl.pathname}${req.nextUrl.search}`);
+    return NextResponse.redirect(login);
+  }
+  return new NextResponse(error, { status });
+}
+
+export async function middleware(req: NextRequest) {
+  const { pathname } = req.nextUrl;
+  const isApi = pathname.startsWith("/api/");
+
+  if (isApi && SELF_AUTHENTICATED_API.some((prefix) => pathname.startsWith(prefix))) {
+    return NextResponse.next();
+  }
+
+  const { supabase, accessToken, response } = createMiddlewareSupabase(req);
+
+  // Also refreshes the session cookie when it is close to expiry
+  const {
+    data: { user },
+  } = accessToken ? await supabase.auth.getUser(accessToken) : await supabase.auth.getUser();
+
+  const adminArea = isAdminPath(pathname);
+  const needsUser = adminArea || (isApi && MUTATING_METHODS.includes(req.method));
+  if (!needsUser) return response();
+  if (!user) return deny(req, 401, "Not authenticated");
+  if (!adminArea) return response();
+
+  // Read the profile as the caller so RLS applies
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("id, role, supermarket_id")
+    .eq("id", user.id)
+    .maybeSingle<Profile>();
+
+  if (!profile || !isRole(profile.role) || !isAdminRole(profile.role)) {
+    return deny(req, 403, "Admins only");
+  }
+
+  const supermarketId = supermarketFromPath(pathname);
+  if (supermarketId && !canManageSupermarket(profile, supermarketId)) {
+    return deny(req, 403, "Not an admin of this supermarket");
+  }
+
+  return response();
+}
+
+export const config = {
+  matcher: ["/admin/:path*", "/api/:path*"],
+};
@@ -0,0 +1,67 @@
+-- Baseline: the tables the app was built on before migrations were tracked.
+-- `if not exists` keeps this a no-op on projects created from the dashboard;
+-- constraints and RLS are tightened in later migrations so they apply there too.
+create table if not exists public.supermarkets (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  location text,
+  api_url text,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.products (
+  id uuid primary key default gen_random_uuid(),
+  supermarket_id uuid not null references public.supermarkets (id),
+  name text not null,
+  description text,
+  price numeric(12, 2) not null,
+  stock integer not null default 0,
+  image_url text,
+  category text,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.orders (
+  id uuid primary key default gen_random_uuid(),
+  supermarket_id uuid not null references public.supermarkets (id),
+  user_id uuid references auth.users (id),
+  total_amount numeric(12, 2) not null,
+  status text not null default 'pending',
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.order_items (
+  id uuid primary key default gen_random_uuid(),
+  order_id uuid not null references public.orders (id),
+  product_id uuid not null references public.products (id),
+  quantity integer not null,
+  price numeric(12, 2) not null
+);
+
+create table if not exists public.profiles (
+  id uuid primary key references auth.users (id),
+  role text default 'user',
+  supermarket_id uuid references public.supermarkets (id),
+  created_at timestamptz not null default now()
+);
+
+-- Two request tables grew independently: the supermarket page wrote `requests`,
+-- the old login page wrote `product_requests`.
+create table if not exists public.requests (
+  id uuid primary key default gen_random_uuid(),
+  supermarket_id uuid not null references public.supermarkets (id),
+  name text not null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.product_requests (
+  id uuid primary key default gen_random_uuid(),
+  supermarket_id uuid not null references public.supermarkets (id),
+  request text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists products_supermarket_id_idx on public.products (supermarket_id);
+create index if not exists orders_supermarket_id_idx on public.orders (supermarket_id, created_at desc);
+create index if not exists orders_user_id_idx on public.orders (user_id);
+create index if not exists order_items_order_id_idx on public.order_items (order_id);
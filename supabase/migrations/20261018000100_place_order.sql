@@ -0,0 +1,84 @@
+-- Places an order in a single transaction: locks the requested product rows,
+-- checks stock against the live rows, then inserts the order and its items and
+-- decrements stock. Prices always come from `products`, never from the client.
+--
+-- p_items: [{ "product_id": uuid, "quantity": int }, ...]
+-- Returns either { "order_id", "total_amount" } or { "shortages": [...] }.
+create or replace function public.place_order(p_supermarket_id uuid, p_items jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_order_id uuid;
+  v_total numeric := 0;
+  v_shortages jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'place_order: not authenticated' using errcode = '28000';
+  end if;
+
+  if p_items is null or jsonb_array_length(p_items) = 0 then
+    raise exception 'place_order: cart is empty' using errcode = '22023';
+  end if;
+
+  create temporary table _order_lines on commit drop as
+    select (item->>'product_id')::uuid as product_id,
+           sum((item->>'quantity')::int) as quantity
+    from jsonb_array_elements(p_items) as item
+    group by 1;
+
+  if exists (select 1 from _order_lines where quantity <= 0) then
+    raise exception 'place_order: quantities must be positive' using errcode = '22023';
+  end if;
+
+  -- Lock in a stable order so concurrent checkouts cannot deadlock.
+  perform 1
+  from products p
+  where p.id in (select product_id from _order_lines)
+    and p.supermarket_id = p_supermarket_id
+  order by p.id
+  for update;
+
+  select coalesce(jsonb_agg(jsonb_build_object(
+           'product_id', l.product_id,
+           'name', p.name,
+           'requested', l.quantity,
+           'available', coalesce(p.stock, 0)
+         ) order by l.product_id), '[]'::jsonb)
+  into v_shortages
+  from _order_lines l
+  left join products p on p.id = l.product_id and p.supermarket_id = p_supermarket_id
+  where p.id is null or p.stock < l.quantity;
+
+  if jsonb_array_length(v_shortages) > 0 then
+    return jsonb_build_object('shortages', v_shortages);
+  end if;
+
+  select sum(l.quantity * p.price)
+  into v_total
+  from _order_lines l
+  join products p on p.id = l.product_id;
+
+  insert into orders (supermarket_id, user_id, total_amount, status)
+  values (p_supermarket_id, v_user_id, v_total, 'pending')
+  returning id into v_order_id;
+
+  insert into order_items (order_id, product_id, quantity, price)
+  select v_order_id, l.product_id, l.quantity, p.price
+  from _order_lines l
+  join products p on p.id = l.product_id;
+
+  update products p
+  set stock = p.stock - l.quantity
+  from _order_lines l
+  where p.id = l.product_id;
+
+  return jsonb_build_object('order_id', v_order_id, 'total_amount', v_total);
+end;
+$$;
+
+revoke all on function public.place_order(uuid, jsonb) from public;
+grant execute on function public.place_order(uuid, jsonb) to authenticated;
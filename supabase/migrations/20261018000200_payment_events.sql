@@ -0,0 +1,24 @@
+-- Ledger of every Paystack webhook delivery. `event_key` identifies the event
+-- (event type + Paystack transaction id, falling back to the reference), so a
+-- replayed delivery hits the unique constraint instead of being processed twice.
+create table if not exists public.payment_events (
+  id bigint generated always as identity primary key,
+  event_key text not null unique,
+  event text not null,
+  reference text not null,
+  order_id uuid references public.orders (id) on delete set null,
+  amount bigint,
+  currency text,
+  payload jsonb not null,
+  outcome text not null default 'received'
+    check (outcome in ('received', 'processed', 'ignored', 'rejected', 'error')),
+  outcome_reason text,
+  received_at timestamptz not null default now(),
+  processed_at timestamptz
+);
+
+create index if not exists payment_events_reference_idx on public.payment_events (reference);
+create index if not exists payment_events_order_id_idx on public.payment_events (order_id);
+
+-- Written only by the webhook through the service role; no client access.
+alter table public.payment_events enable row level security;
@@ -0,0 +1,79 @@
+-- Typed order lifecycle. Allowed transitions are enforced in lib/orderStatus.ts;
+-- the database only guarantees a valid status and an audit trail of changes.
+alter table public.orders
+  add constraint orders_status_check check (status in (
+    'pending', 'paid', 'packing', 'ready', 'out_for_delivery', 'delivered',
+    'cancelled', 'refunded', 'failed'
+  ));
+
+create table if not exists public.order_status_history (
+  id bigint generated always as identity primary key,
+  order_id uuid not null references public.orders (id) on delete cascade,
+  from_status text,
+  to_status text not null,
+  actor text not null,
+  reason text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists order_status_history_order_id_idx
+  on public.order_status_history (order_id, created_at);
+
+alter table public.order_status_history enable row level security;
+
+-- Anyone who can see the order can see its history (RLS on orders applies here)
+create policy "order history follows order visibility"
+  on public.order_status_history for select
+  using (exists (select 1 from public.orders o where o.id = order_id));
+
+-- Record the initial status of every new order
+create or replace function public.log_order_created()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into order_status_history (order_id, from_status, to_status, actor, reason)
+  values (
+    new.id,
+    null,
+    new.status,
+    coalesce('user:' || auth.uid()::text, 'system'),
+    'order placed'
+  );
+  return new;
+end;
+$$;
+
+create trigger orders_log_created
+  after insert on public.orders
+  for each row execute function public.log_order_created();
+
+-- Compare-and-set status change plus history row, in one transaction.
+-- Returns false when the order is no longer in p_from (a concurrent change won).
+create or replace function public.transition_order_status(
+  p_order_id uuid,
+  p_from text,
+  p_to text,
+  p_actor text,
+  p_reason text default null
+)
+returns boolean
+language plpgsql
+set search_path = public
+as $$
+begin
+  update orders set status = p_to where id = p_order_id and status = p_from;
+  if not found then
+    return false;
+  end if;
+
+  insert into order_status_history (order_id, from_status, to_status, actor, reason)
+  values (p_order_id, p_from, p_to, p_actor, p_reason);
+  return true;
+end;
+$$;
+
+revoke all on function public.transition_order_status(uuid, text, text, text, text) from public;
+grant execute on function public.transition_order_status(uuid, text, text, text, text) to service_role;
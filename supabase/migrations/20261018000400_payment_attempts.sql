@@ -0,0 +1,60 @@
+-- Every Paystack initialization gets its own reference, linked back to the order,
+-- so an order can be paid again after an abandoned or failed attempt.
+create table if not exists public.payment_attempts (
+  id bigint generated always as identity primary key,
+  order_id uuid not null references public.orders (id) on delete cascade,
+  reference text not null unique,
+  amount bigint not null check (amount > 0),
+  currency text not null,
+  status text not null default 'initialized'
+    check (status in ('initialized', 'success', 'failed', 'abandoned')),
+  authorization_url text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists payment_attempts_order_id_idx on public.payment_attempts (order_id, created_at desc);
+
+alter table public.payment_attempts enable row level security;
+
+create policy "payment attempts follow order visibility"
+  on public.payment_attempts for select
+  using (exists (select 1 from public.orders o where o.id = order_id));
+
+-- Cancelling or expiring an unpaid order hands its reserved stock back, in the
+-- same transaction as the status change.
+drop function if exists public.transition_order_status(uuid, text, text, text, text);
+
+create or replace function public.transition_order_status(
+  p_order_id uuid,
+  p_from text,
+  p_to text,
+  p_actor text,
+  p_reason text default null,
+  p_release_stock boolean default false
+)
+returns boolean
+language plpgsql
+set search_path = public
+as $$
+begin
+  update orders set status = p_to where id = p_order_id and status = p_from;
+  if not found then
+    return false;
+  end if;
+
+  if p_release_stock then
+    update products p
+    set stock = p.stock + oi.quantity
+    from order_items oi
+    where oi.order_id = p_order_id
+      and p.id = oi.product_id;
+  end if;
+
+  insert into order_status_history (order_id, from_status, to_status, actor, reason)
+  values (p_order_id, p_from, p_to, p_actor, p_reason);
+  return true;
+end;
+$$;
+
+revoke all on function public.transition_order_status(uuid, text, text, text, text, boolean) from public;
+grant execute on function public.transition_order_status(uuid, text, text, text, text, boolean) to service_role;
@@ -0,0 +1,64 @@
+-- Refunds issued through Paystack. `items` lists what goes back on the shelf
+-- once Paystack reports the refund as processed.
+create table if not exists public.refunds (
+  id bigint generated always as identity primary key,
+  order_id uuid not null references public.orders (id) on delete cascade,
+  transaction_reference text not null,
+  paystack_refund_id bigint unique,
+  amount bigint not null check (amount > 0),
+  currency text not null,
+  items jsonb not null default '[]'::jsonb,
+  status text not null default 'pending' check (status in ('pending', 'processed', 'failed')),
+  reason text,
+  requested_by uuid references auth.users (id),
+  created_at timestamptz not null default now(),
+  processed_at timestamptz
+);
+
+create index if not exists refunds_order_id_idx on public.refunds (order_id);
+create index if not exists refunds_transaction_reference_idx on public.refunds (transaction_reference);
+
+alter table public.refunds enable row level security;
+
+create policy "refunds follow order visibility"
+  on public.refunds for select
+  using (exists (select 1 from public.orders o where o.id = order_id));
+
+-- Settle a pending refund exactly once; a processed refund restocks its items.
+create or replace function public.complete_refund(p_refund_id bigint, p_status text)
+returns boolean
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_items jsonb;
+begin
+  if p_status not in ('processed', 'failed') then
+    raise exception 'complete_refund: invalid status %', p_status using errcode = '22023';
+  end if;
+
+  update refunds
+  set status = p_status, processed_at = now()
+  where id = p_refund_id and status = 'pending'
+  returning items into v_items;
+  if not found then
+    return false;
+  end if;
+
+  if p_status = 'processed' then
+    update products p
+    set stock = p.stock + i.quantity
+    from (
+      select (item->>'product_id')::uuid as product_id, sum((item->>'quantity')::int) as quantity
+      from jsonb_array_elements(v_items) as item
+      group by 1
+    ) i
+    where p.id = i.product_id;
+  end if;
+
+  return true;
+end;
+$$;
+
+revoke all on function public.complete_refund(bigint, text) from public;
+grant execute on function public.complete_refund(bigint, text) to service_role;
@@ -0,0 +1,47 @@
+-- Orders are financial records: they are never deleted from the app. Shoppers
+-- and admins hide orders from their own list instead; archiving is per user,
+-- so an admin archiving an order does not hide it from the shopper.
+create table if not exists public.order_archives (
+  order_id uuid not null references public.orders (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  archived_at timestamptz not null default now(),
+  primary key (order_id, user_id)
+);
+
+alter table public.order_archives enable row level security;
+
+create policy "users read their own archive"
+  on public.order_archives for select
+  using (user_id = auth.uid());
+
+create policy "users archive orders they can see"
+  on public.order_archives for insert
+  with check (
+    user_id = auth.uid()
+    and exists (select 1 from public.orders o where o.id = order_id)
+  );
+
+create policy "users restore their own archived orders"
+  on public.order_archives for delete
+  using (user_id = auth.uid());
+
+-- Clients can no longer delete orders at all...
+revoke delete on public.orders from anon, authenticated;
+
+-- ...and not even the service role may delete one that money moved for.
+create or replace function public.prevent_paid_order_delete()
+returns trigger
+language plpgsql
+as $$
+begin
+  if old.status in ('paid', 'packing', 'ready', 'out_for_delivery', 'delivered', 'refunded') then
+    raise exception 'order % is %: paid orders cannot be deleted', old.id, old.status
+      using errcode = '42501';
+  end if;
+  return old;
+end;
+$$;
+
+create trigger orders_prevent_paid_delete
+  before delete on public.orders
+  for each row execute function public.prevent_paid_order_delete();
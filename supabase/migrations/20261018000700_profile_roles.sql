@@ -0,0 +1,11 @@
+-- Typed roles: shopper, store_admin (scoped to profiles.supermarket_id) and
+-- super_admin. Legacy "admin" rows without a supermarket managed everything.
+update public.profiles set role = 'shopper' where role is null or role = 'user';
+update public.profiles set role = 'store_admin' where role = 'admin' and supermarket_id is not null;
+update public.profiles set role = 'super_admin' where role = 'admin' and supermarket_id is null;
+
+alter table public.profiles
+  alter column role set default 'shopper',
+  alter column role set not null,
+  add constraint profiles_role_check check (role in ('shopper', 'store_admin', 'super_admin')),
+  add constraint profiles_store_admin_scope check (role <> 'store_admin' or supermarket_id is not null);
@@ -0,0 +1,54 @@
+-- Data rules the app assumed but the database never enforced.
+alter table public.products
+  add constraint products_price_check check (price >= 0),
+  add constraint products_stock_check check (stock >= 0);
+
+alter table public.orders
+  add constraint orders_total_amount_check check (total_amount >= 0);
+
+alter table public.order_items
+  add constraint order_items_quantity_check check (quantity > 0),
+  add constraint order_items_price_check check (price >= 0);
+
+-- Foreign keys, recreated with explicit delete behaviour:
+--  * a supermarket takes its catalogue and requests with it, but not its orders;
+--  * order lines go with their order, and a product that was ever sold stays;
+--  * deleting an auth user removes their profile and detaches their orders.
+alter table public.products
+  drop constraint if exists products_supermarket_id_fkey,
+  add constraint products_supermarket_id_fkey
+    foreign key (supermarket_id) references public.supermarkets (id) on delete cascade;
+
+alter table public.orders
+  drop constraint if exists orders_supermarket_id_fkey,
+  add constraint orders_supermarket_id_fkey
+    foreign key (supermarket_id) references public.supermarkets (id) on delete restrict,
+  drop constraint if exists orders_user_id_fkey,
+  add constraint orders_user_id_fkey
+    foreign key (user_id) references auth.users (id) on delete set null;
+
+alter table public.order_items
+  drop constraint if exists order_items_order_id_fkey,
+  add constraint order_items_order_id_fkey
+    foreign key (order_id) references public.orders (id) on delete cascade,
+  drop constraint if exists order_items_product_id_fkey,
+  add constraint order_items_product_id_fkey
+    foreign key (product_id) references public.products (id) on delete restrict;
+
+alter table public.profiles
+  drop constraint if exists profiles_id_fkey,
+  add constraint profiles_id_fkey
+    foreign key (id) references auth.users (id) on delete cascade,
+  drop constraint if exists profiles_supermarket_id_fkey,
+  add constraint profiles_supermarket_id_fkey
+    foreign key (supermarket_id) references public.supermarkets (id) on delete restrict;
+
+alter table public.requests
+  drop constraint if exists requests_supermarket_id_fkey,
+  add constraint requests_supermarket_id_fkey
+    foreign key (supermarket_id) references public.supermarkets (id) on delete cascade;
+
+alter table public.product_requests
+  drop constraint if exists product_requests_supermarket_id_fkey,
+  add constraint product_requests_supermarket_id_fkey
+    foreign key (supermarket_id) references public.supermarkets (id) on delete cascade;
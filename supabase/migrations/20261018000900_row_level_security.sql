@@ -0,0 +1,113 @@
+-- Row Level Security for the baseline tables. Shoppers see the catalogue and
+-- their own orders; store admins also see and manage their supermarket;
+-- super admins manage everything. Money and status changes still go through
+-- security-definer RPCs or the service role, never direct client writes.
+
+-- Role checks read profiles as the definer so profile policies cannot recurse.
+create or replace function public.is_super_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from profiles where id = auth.uid() and role = 'super_admin'
+  );
+$$;
+
+create or replace function public.manages_supermarket(p_supermarket_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from profiles
+    where id = auth.uid()
+      and (role = 'super_admin' or (role = 'store_admin' and supermarket_id = p_supermarket_id))
+  );
+$$;
+
+revoke all on function public.is_super_admin() from public;
+revoke all on function public.manages_supermarket(uuid) from public;
+grant execute on function public.is_super_admin() to anon, authenticated;
+grant execute on function public.manages_supermarket(uuid) to anon, authenticated;
+
+-- Supermarkets: public directory, edited by super admins only
+alter table public.supermarkets enable row level security;
+
+create policy "supermarkets are public"
+  on public.supermarkets for select
+  using (true);
+
+create policy "super admins manage supermarkets"
+  on public.supermarkets for all
+  using (public.is_super_admin())
+  with check (public.is_super_admin());
+
+-- Products: public catalogue, edited by the supermarket's admins
+alter table public.products enable row level security;
+
+create policy "products are public"
+  on public.products for select
+  using (true);
+
+create policy "store admins manage their products"
+  on public.products for all
+  using (public.manages_supermarket(supermarket_id))
+  with check (public.manages_supermarket(supermarket_id));
+
+-- Orders: placed through place_order() and moved through
+-- transition_order_status(), so clients only ever read them
+alter table public.orders enable row level security;
+
+create policy "shoppers read their own orders"
+  on public.orders for select
+  using (user_id = auth.uid());
+
+create policy "store admins read their supermarket's orders"
+  on public.orders for select
+  using (public.manages_supermarket(supermarket_id));
+
+alter table public.order_items enable row level security;
+
+create policy "order items follow order visibility"
+  on public.order_items for select
+  using (exists (select 1 from public.orders o where o.id = order_id));
+
+-- Profiles: readable by their owner and super admins. Nobody edits their own
+-- role from the client; admins are provisioned with the service role.
+alter table public.profiles enable row level security;
+
+create policy "users read their own profile"
+  on public.profiles for select
+  using (id = auth.uid());
+
+create policy "super admins read all profiles"
+  on public.profiles for select
+  using (public.is_super_admin());
+
+-- Product requests: any signed-in shopper may ask, the store reads them
+alter table public.requests enable row level security;
+
+create policy "signed-in users request products"
+  on public.requests for insert
+  to authenticated
+  with check (true);
+
+create policy "store admins read their requests"
+  on public.requests for select
+  using (public.manages_supermarket(supermarket_id));
+
+alter table public.product_requests enable row level security;
+
+create policy "signed-in users request products"
+  on public.product_requests for insert
+  to authenticated
+  with check (true);
+
+create policy "store admins read their requests"
+  on public.product_requests for select
+  using (public.manages_supermarket(supermarket_id));
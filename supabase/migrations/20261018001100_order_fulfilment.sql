@@ -0,0 +1,9 @@
+-- Picking state for the fulfilment board: which lines of an order a store
+-- admin has already taken off the shelf. Written by the admin API routes with
+-- the service role; readable wherever the order is.
+alter table public.order_items
+  add column if not exists picked_at timestamptz,
+  add column if not exists picked_by uuid references auth.users (id) on delete set null;
+
+-- The board follows new, paid and picked orders live
+alter publication supabase_realtime add table public.orders, public.order_items;
@@ -0,0 +1,298 @@
+-- One product-request model. Shoppers used to write free text into either
+-- `requests` (supermarket page) or `product_requests` (old login page) and
+-- nobody read them. Requests for the same product at the same supermarket are
+-- now merged into one row that collects a vote per shopper; store admins work
+-- through them from /admin/<supermarketId>/requests, and voters are notified
+-- in-app once the product is stocked.
+
+-- Lower-case, trimmed, single-spaced: "  Oat  Milk" and "oat milk" are one request.
+-- Mirrored by normalizeRequestName in lib/productRequests.ts.
+create or replace function public.normalize_request_name(p_name text)
+returns text
+language sql
+immutable
+as $$
+  select lower(regexp_replace(btrim(p_name), '\s+', ' ', 'g'));
+$$;
+
+alter table public.product_requests
+  add column if not exists name text,
+  add column if not exists status text not null default 'open',
+  add column if not exists vote_count integer not null default 0,
+  add column if not exists requested_by uuid references auth.users (id) on delete set null,
+  add column if not exists product_id uuid references public.products (id) on delete set null,
+  add column if not exists admin_note text,
+  add column if not exists updated_at timestamptz not null default now();
+
+alter table public.product_requests
+  add column if not exists normalized_name text
+    generated always as (public.normalize_request_name(name)) stored;
+
+-- Carry both legacy tables over. They never recorded who asked, so each old
+-- row counts as one anonymous vote.
+alter table public.product_requests alter column request drop not null;
+
+update public.product_requests
+set name = regexp_replace(btrim(request), '\s+', ' ', 'g'), vote_count = 1
+where name is null;
+
+insert into public.product_requests (supermarket_id, name, vote_count, created_at)
+select supermarket_id, regexp_replace(btrim(name), '\s+', ' ', 'g'), 1, created_at
+from public.requests
+where btrim(name) <> '';
+
+delete from public.product_requests where name is null or name = '';
+
+-- Merge duplicates into the oldest row of each group
+update public.product_requests r
+set vote_count = d.total
+from (
+  select supermarket_id, normalized_name, count(*)::integer as total
+  from public.product_requests
+  group by supermarket_id, normalized_name
+) d
+where r.supermarket_id = d.supermarket_id and r.normalized_name = d.normalized_name;
+
+delete from public.product_requests r
+using public.product_requests older
+where older.supermarket_id = r.supermarket_id
+  and older.normalized_name = r.normalized_name
+  and (older.created_at, older.id) < (r.created_at, r.id);
+
+alter table public.product_requests
+  drop column if exists request,
+  alter column name set not null,
+  drop constraint if exists product_requests_name_check,
+  add constraint product_requests_name_check check (char_length(name) between 1 and 120),
+  drop constraint if exists product_requests_status_check,
+  add constraint product_requests_status_check
+    check (status in ('open', 'planned', 'declined', 'fulfilled')),
+  drop constraint if exists product_requests_vote_count_check,
+  add constraint product_requests_vote_count_check check (vote_count >= 0);
+
+drop table if exists public.requests;
+
+-- Only one live request per product; once declined or fulfilled, asking again
+-- starts a new one.
+create unique index if not exists product_requests_live_name_key
+  on public.product_requests (supermarket_id, normalized_name)
+  where status in ('open', 'planned');
+
+create index if not exists product_requests_inbox_idx
+  on public.product_requests (supermarket_id, status, vote_count desc);
+
+create table if not exists public.product_request_votes (
+  request_id uuid not null references public.product_requests (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (request_id, user_id)
+);
+
+create index if not exists product_request_votes_user_id_idx on public.product_request_votes (user_id);
+
+-- In-app notifications. Rows are written by triggers and the service role;
+-- users read theirs and may only mark them read.
+create table if not exists public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  kind text not null,
+  title text not null,
+  body text,
+  link text,
+  read_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists notifications_user_id_idx on public.notifications (user_id, created_at desc);
+
+-- Submit (or upvote) a request as the signed-in shopper. Returns
+-- { request_id, status, votes, created, already_voted }, or
+-- { status: 'in_stock', product_id } when the supermarket already sells it.
+create or replace function public.request_product(p_supermarket_id uuid, p_name text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_name text := regexp_replace(btrim(coalesce(p_name, '')), '\s+', ' ', 'g');
+  v_product_id uuid;
+  v_request_id uuid;
+  v_created boolean := false;
+  v_voted boolean;
+  v_request product_requests%rowtype;
+begin
+  if v_user_id is null then
+    raise exception 'request_product: not authenticated' using errcode = '28000';
+  end if;
+  if char_length(v_name) = 0 or char_length(v_name) > 120 then
+    raise exception 'request_product: name must be 1-120 characters' using errcode = '22023';
+  end if;
+  if not exists (select 1 from supermarkets where id = p_supermarket_id) then
+    raise exception 'request_product: supermarket % not found', p_supermarket_id using errcode = 'P0002';
+  end if;
+
+  select id into v_product_id
+  from products
+  where supermarket_id = p_supermarket_id
+    and archived_at is null
+    and stock > 0
+    and normalize_request_name(name) = normalize_request_name(v_name)
+  limit 1;
+  if v_product_id is not null then
+    return jsonb_build_object('status', 'in_stock', 'product_id', v_product_id);
+  end if;
+
+  insert into product_requests (supermarket_id, name, requested_by)
+  values (p_supermarket_id, v_name, v_user_id)
+  on conflict (supermarket_id, normalized_name) where status in ('open', 'planned') do nothing
+  returning id into v_request_id;
+
+  if v_request_id is not null then
+    v_created := true;
+  else
+    select id into v_request_id
+    from product_requests
+    where supermarket_id = p_supermarket_id
+      and normalized_name = normalize_request_name(v_name)
+      and status in ('open', 'planned');
+  end if;
+
+  insert into product_request_votes (request_id, user_id)
+  values (v_request_id, v_user_id)
+  on conflict do nothing;
+  v_voted := found;
+
+  if v_voted then
+    update product_requests
+    set vote_count = vote_count + 1
+    where id = v_request_id
+    returning * into v_request;
+  else
+    select * into v_request from product_requests where id = v_request_id;
+  end if;
+
+  return jsonb_build_object(
+    'request_id', v_request.id,
+    'status', v_request.status,
+    'votes', v_request.vote_count,
+    'created', v_created,
+    'already_voted', not v_voted
+  );
+end;
+$$;
+
+revoke all on function public.request_product(uuid, text) from public;
+grant execute on function public.request_product(uuid, text) to authenticated;
+
+create or replace function public.touch_product_request()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists product_requests_touch on public.product_requests;
+create trigger product_requests_touch
+  before update on public.product_requests
+  for each row execute function public.touch_product_request();
+
+-- Tell every voter when their request is fulfilled
+create or replace function public.notify_product_request_fulfilled()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into notifications (user_id, kind, title, body, link)
+  select v.user_id,
+         'product_request_fulfilled',
+         new.name || ' is now in stock',
+         'You asked ' || s.name || ' to stock ' || new.name || '. It is available now.',
+         '/supermarket/' || new.supermarket_id
+  from product_request_votes v
+  join supermarkets s on s.id = new.supermarket_id
+  where v.request_id = new.id;
+  return new;
+end;
+$$;
+
+drop trigger if exists product_requests_notify_fulfilled on public.product_requests;
+create trigger product_requests_notify_fulfilled
+  after update of status on public.product_requests
+  for each row
+  when (new.status = 'fulfilled' and old.status is distinct from 'fulfilled')
+  execute function public.notify_product_request_fulfilled();
+
+-- A product that comes into stock fulfils the live requests with the same
+-- name, however it got there: the admin pages, a catalogue sync or a restock.
+create or replace function public.fulfil_product_requests()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.stock > 0 and new.archived_at is null then
+    update product_requests
+    set status = 'fulfilled', product_id = new.id
+    where supermarket_id = new.supermarket_id
+      and normalized_name = normalize_request_name(new.name)
+      and status in ('open', 'planned');
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists products_fulfil_requests on public.products;
+create trigger products_fulfil_requests
+  after insert or update of name, stock, archived_at on public.products
+  for each row execute function public.fulfil_product_requests();
+
+-- Row Level Security. Shoppers write through request_product only.
+drop policy if exists "signed-in users request products" on public.product_requests;
+drop policy if exists "store admins read their requests" on public.product_requests;
+
+create policy "store admins read their requests"
+  on public.product_requests for select
+  using (public.manages_supermarket(supermarket_id));
+
+create policy "voters read their requests"
+  on public.product_requests for select
+  using (exists (
+    select 1 from public.product_request_votes v
+    where v.request_id = product_requests.id and v.user_id = auth.uid()
+  ));
+
+create policy "store admins update their requests"
+  on public.product_requests for update
+  using (public.manages_supermarket(supermarket_id))
+  with check (public.manages_supermarket(supermarket_id));
+
+alter table public.product_request_votes enable row level security;
+
+create policy "users read own votes"
+  on public.product_request_votes for select
+  using (user_id = auth.uid());
+
+alter table public.notifications enable row level security;
+
+create policy "users read own notifications"
+  on public.notifications for select
+  using (user_id = auth.uid());
+
+create policy "users mark own notifications read"
+  on public.notifications for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+revoke insert, update, delete on public.notifications from anon, authenticated;
+grant update (read_at) on public.notifications to authenticated;
+
+-- The admin inbox and the notification bell update live
+alter publication supabase_realtime add table public.product_requests, public.notifications;
@@ -0,0 +1,39 @@
+-- Catalogue sync from each supermarket's `api_url` feed (lib/catalogSync.ts).
+-- Feed items are matched to products by the supermarket's own SKU, so a run
+-- updates what it already imported instead of inserting duplicates. Products
+-- without a SKU were created by hand and are never touched by a sync.
+alter table public.products add column if not exists external_sku text;
+
+alter table public.products
+  drop constraint if exists products_supermarket_sku_key,
+  add constraint products_supermarket_sku_key unique (supermarket_id, external_sku);
+
+-- One row per sync of one supermarket, dry runs included. `report` holds the
+-- per-product diff; the counters summarise it for the admin list.
+create table if not exists public.sync_runs (
+  id uuid primary key default gen_random_uuid(),
+  supermarket_id uuid not null references public.supermarkets (id) on delete cascade,
+  status text not null default 'running'
+    check (status in ('running', 'succeeded', 'failed')),
+  dry_run boolean not null default false,
+  triggered_by text not null, -- "cron", "admin:<uuid>"
+  feed_url text,
+  added integer not null default 0,
+  updated integer not null default 0,
+  archived integer not null default 0,
+  unchanged integer not null default 0,
+  skipped integer not null default 0,
+  report jsonb,
+  error text,
+  started_at timestamptz not null default now(),
+  finished_at timestamptz
+);
+
+create index if not exists sync_runs_supermarket_id_idx on public.sync_runs (supermarket_id, started_at desc);
+
+-- Written with the service role only
+alter table public.sync_runs enable row level security;
+
+create policy "store admins read their sync runs"
+  on public.sync_runs for select
+  using (public.manages_supermarket(supermarket_id));
@@ -0,0 +1,18 @@
+-- Supplier feeds come as JSON, CSV exports or XML price files with their own
+-- column names, price units and currencies. `feed_format` picks the adapter in
+-- lib/feeds; `feed_mapping` (see FeedMapping in lib/feeds/types.ts) says where
+-- each product field is and how to convert prices, e.g.
+--   { "fields": { "sku": "ItemCode", "name": "Description", "price": "UnitPrice" },
+--     "delimiter": ";", "price_unit": "minor", "currency": "USD",
+--     "exchange_rates": { "USD": 129.5 } }
+-- Existing supermarkets keep working: JSON shaped like our products is the default.
+alter table public.supermarkets
+  add column if not exists feed_format text not null default 'json',
+  add column if not exists feed_mapping jsonb;
+
+alter table public.supermarkets
+  drop constraint if exists supermarkets_feed_format_check,
+  add constraint supermarkets_feed_format_check check (feed_format in ('json', 'csv', 'xml')),
+  drop constraint if exists supermarkets_feed_mapping_check,
+  add constraint supermarkets_feed_mapping_check
+    check (feed_mapping is null or jsonb_typeof(feed_mapping) = 'object');
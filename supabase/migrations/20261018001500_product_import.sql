@@ -0,0 +1,59 @@
+-- Spreadsheet import from /admin/<supermarketId>/products. The route checks
+-- every row first (lib/productTransfer.ts) and then hands the whole batch to
+-- this function, so an import is applied completely or not at all.
+--
+-- p_rows: [{ "id"?: uuid, "name"?, "price"?, "stock"?, "category"?,
+-- "description"?, "image_url"?, "external_sku"? }]. Rows with an id update
+-- only the keys they carry; rows without one are inserted. Runs as the caller,
+-- so the "store admins manage their products" policy applies.
+create or replace function public.import_products(p_supermarket_id uuid, p_rows jsonb)
+returns jsonb
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_row jsonb;
+  v_created integer := 0;
+  v_updated integer := 0;
+begin
+  if jsonb_typeof(p_rows) is distinct from 'array' then
+    raise exception 'import_products: rows must be an array' using errcode = '22023';
+  end if;
+
+  for v_row in select value from jsonb_array_elements(p_rows) loop
+    if v_row ? 'id' then
+      update products set
+        name = case when v_row ? 'name' then v_row->>'name' else name end,
+        price = case when v_row ? 'price' then (v_row->>'price')::numeric else price end,
+        stock = case when v_row ? 'stock' then (v_row->>'stock')::integer else stock end,
+        category = case when v_row ? 'category' then v_row->>'category' else category end,
+        description = case when v_row ? 'description' then v_row->>'description' else description end,
+        image_url = case when v_row ? 'image_url' then v_row->>'image_url' else image_url end,
+        external_sku = case when v_row ? 'external_sku' then v_row->>'external_sku' else external_sku end
+      where id = (v_row->>'id')::uuid and supermarket_id = p_supermarket_id;
+      if not found then
+        raise exception 'import_products: product % not found', v_row->>'id' using errcode = 'P0002';
+      end if;
+      v_updated := v_updated + 1;
+    else
+      insert into products (supermarket_id, name, price, stock, category, description, image_url, external_sku)
+      values (
+        p_supermarket_id,
+        v_row->>'name',
+        (v_row->>'price')::numeric,
+        coalesce((v_row->>'stock')::integer, 0),
+        v_row->>'category',
+        v_row->>'description',
+        v_row->>'image_url',
+        v_row->>'external_sku'
+      );
+      v_created := v_created + 1;
+    end if;
+  end loop;
+
+  return jsonb_build_object('created', v_created, 'updated', v_updated);
+end;
+$$;
+
+revoke all on function public.import_products(uuid, jsonb) from public;
+grant execute on function public.import_products(uuid, jsonb) to authenticated;
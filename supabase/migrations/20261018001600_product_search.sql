@@ -0,0 +1,129 @@
+-- Server-side product search for GET /api/supermarkets/[id]/products.
+-- Full-text search over name, category and description, with trigram word
+-- similarity on the name so "suger" still finds "Sugar 2kg". Results are
+-- paged with a keyset cursor (sort value, id) instead of offsets.
+create extension if not exists pg_trgm with schema extensions;
+
+-- Weighted document: name matches rank above category, category above description.
+-- An expression rather than a stored column so `select *` stays small.
+create or replace function public.product_search_vector(p_name text, p_category text, p_description text)
+returns tsvector
+language sql
+immutable
+as $$
+  select setweight(to_tsvector('english'::regconfig, coalesce(p_name, '')), 'A')
+      || setweight(to_tsvector('english'::regconfig, coalesce(p_category, '')), 'B')
+      || setweight(to_tsvector('english'::regconfig, coalesce(p_description, '')), 'C');
+$$;
+
+create index if not exists products_search_idx
+  on public.products
+  using gin (public.product_search_vector(name, category, description))
+  where archived_at is null;
+
+create index if not exists products_name_trgm_idx
+  on public.products
+  using gin (name extensions.gin_trgm_ops)
+  where archived_at is null;
+
+-- Keyset pagination for the non-relevance sorts
+create index if not exists products_price_page_idx
+  on public.products (supermarket_id, price, id) where archived_at is null;
+create index if not exists products_stock_page_idx
+  on public.products (supermarket_id, stock, id) where archived_at is null;
+create index if not exists products_name_page_idx
+  on public.products (supermarket_id, lower(name), id) where archived_at is null;
+
+-- One page of a supermarket's active products. p_sort is one of relevance,
+-- price_asc, price_desc, stock_desc, name_asc (relevance needs a query and
+-- falls back to name_asc without one). Each row carries its sort value as
+-- text; pass the last row's value and id back as p_after_value/p_after_id for
+-- the next page. Runs as the caller, so the "products are public" policy applies.
+create or replace function public.search_products(
+  p_supermarket_id uuid,
+  p_query text default null,
+  p_category text default null,
+  p_min_price numeric default null,
+  p_max_price numeric default null,
+  p_in_stock boolean default false,
+  p_sort text default 'relevance',
+  p_after_value text default null,
+  p_after_id uuid default null,
+  p_limit integer default 24
+)
+returns table (product public.products, sort_value text)
+language plpgsql
+stable
+set search_path = public, extensions
+-- Default 0.6 misses one-letter typos in short names ("suger" vs "sugar" is 0.5)
+set pg_trgm.word_similarity_threshold = 0.4
+as $$
+declare
+  v_query text := nullif(btrim(p_query), '');
+  v_sort text := coalesce(p_sort, 'relevance');
+  v_expr text;
+  v_type text;
+  v_desc boolean;
+begin
+  if v_sort = 'relevance' and v_query is null then
+    v_sort := 'name_asc';
+  end if;
+
+  case v_sort
+    when 'relevance' then
+      v_expr := 'ts_rank(product_search_vector(p.name, p.category, p.description), websearch_to_tsquery(''english'', $2))'
+             || ' + word_similarity($2, p.name)';
+      v_type := 'real';
+      v_desc := true;
+    when 'price_asc' then v_expr := 'p.price'; v_type := 'numeric'; v_desc := false;
+    when 'price_desc' then v_expr := 'p.price'; v_type := 'numeric'; v_desc := true;
+    when 'stock_desc' then v_expr := 'p.stock'; v_type := 'integer'; v_desc := true;
+    when 'name_asc' then v_expr := 'lower(p.name)'; v_type := 'text'; v_desc := false;
+    else
+      raise exception 'search_products: unknown sort %', p_sort using errcode = '22023';
+  end case;
+
+  return query execute format(
+    $sql$
+      select p, (%1$s)::text
+      from products p
+      where p.supermarket_id = $1
+        and p.archived_at is null
+        and ($2 is null
+             or product_search_vector(p.name, p.category, p.description) @@ websearch_to_tsquery('english', $2)
+             or $2 <%% p.name)
+        and ($3 is null or coalesce(p.category, 'Uncategorized') = $3)
+        and ($4 is null or p.price >= $4)
+        and ($5 is null or p.price <= $5)
+        and (not $6 or p.stock > 0)
+        and ($7 is null or ((%1$s), p.id) %2$s ($7::%3$s, $8))
+      order by %1$s %4$s, p.id %4$s
+      limit $9
+    $sql$,
+    v_expr,
+    case when v_desc then '<' else '>' end,
+    v_type,
+    case when v_desc then 'desc' else 'asc' end
+  )
+  using p_supermarket_id, v_query, p_category, p_min_price, p_max_price, coalesce(p_in_stock, false),
+        p_after_value, p_after_id, least(greatest(coalesce(p_limit, 24), 1), 100);
+end;
+$$;
+
+grant execute on function public.search_products(uuid, text, text, numeric, numeric, boolean, text, text, uuid, integer)
+  to anon, authenticated;
+
+-- Category names for the shop's filter sidebar
+create or replace function public.product_categories(p_supermarket_id uuid)
+returns setof text
+language sql
+stable
+set search_path = public
+as $$
+  select distinct coalesce(category, 'Uncategorized')
+  from products
+  where supermarket_id = p_supermarket_id and archived_at is null
+  order by 1;
+$$;
+
+grant execute on function public.product_categories(uuid) to anon, authenticated;
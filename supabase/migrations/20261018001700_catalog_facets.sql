@@ -0,0 +1,206 @@
+-- Sale prices, best sellers and facet counts for the shop catalogue.
+
+-- A product is on sale while its compare-at ("was") price is above its price.
+-- Not a constraint: a feed may raise the price past it, which just ends the sale.
+alter table public.products
+  add column if not exists compare_at_price numeric(12, 2)
+    check (compare_at_price is null or compare_at_price > 0),
+  add column if not exists units_sold integer not null default 0;
+
+-- Units sold count every order from payment on, and are given back when a
+-- paid order is refunded
+create or replace function public.is_sold_order_status(p_status text)
+returns boolean
+language sql
+immutable
+as $$
+  select p_status in ('paid', 'packing', 'ready', 'out_for_delivery', 'delivered');
+$$;
+
+update public.products p
+set units_sold = s.quantity
+from (
+  select oi.product_id, sum(oi.quantity)::integer as quantity
+  from public.order_items oi
+  join public.orders o on o.id = oi.order_id
+  where public.is_sold_order_status(o.status)
+  group by oi.product_id
+) s
+where s.product_id = p.id;
+
+create or replace function public.track_units_sold()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_sign integer;
+begin
+  if is_sold_order_status(new.status) = is_sold_order_status(old.status) then
+    return new;
+  end if;
+  v_sign := case when is_sold_order_status(new.status) then 1 else -1 end;
+
+  update products p
+  set units_sold = greatest(p.units_sold + v_sign * s.quantity, 0)
+  from (
+    select product_id, sum(quantity)::integer as quantity
+    from order_items
+    where order_id = new.id
+    group by product_id
+  ) s
+  where s.product_id = p.id;
+  return new;
+end;
+$$;
+
+drop trigger if exists orders_track_units_sold on public.orders;
+create trigger orders_track_units_sold
+  after update of status on public.orders
+  for each row execute function public.track_units_sold();
+
+create index if not exists products_newest_page_idx
+  on public.products (supermarket_id, created_at, id) where archived_at is null;
+create index if not exists products_best_selling_page_idx
+  on public.products (supermarket_id, units_sold, id) where archived_at is null;
+
+-- Several categories at once, on-sale only, and the newest/best_selling sorts.
+-- The category list now comes with counts from product_facets.
+drop function if exists public.search_products(uuid, text, text, numeric, numeric, boolean, text, text, uuid, integer);
+drop function if exists public.product_categories(uuid);
+
+create or replace function public.search_products(
+  p_supermarket_id uuid,
+  p_query text default null,
+  p_categories text[] default null,
+  p_min_price numeric default null,
+  p_max_price numeric default null,
+  p_in_stock boolean default false,
+  p_on_sale boolean default false,
+  p_sort text default 'relevance',
+  p_after_value text default null,
+  p_after_id uuid default null,
+  p_limit integer default 24
+)
+returns table (product public.products, sort_value text)
+language plpgsql
+stable
+set search_path = public, extensions
+-- Default 0.6 misses one-letter typos in short names ("suger" vs "sugar" is 0.5)
+set pg_trgm.word_similarity_threshold = 0.4
+as $$
+declare
+  v_query text := nullif(btrim(p_query), '');
+  v_sort text := coalesce(p_sort, 'relevance');
+  v_expr text;
+  v_type text;
+  v_desc boolean;
+begin
+  if v_sort = 'relevance' and v_query is null then
+    v_sort := 'name_asc';
+  end if;
+
+  case v_sort
+    when 'relevance' then
+      v_expr := 'ts_rank(product_search_vector(p.name, p.category, p.description), websearch_to_tsquery(''english'', $2))'
+             || ' + word_similarity($2, p.name)';
+      v_type := 'real';
+      v_desc := true;
+    when 'price_asc' then v_expr := 'p.price'; v_type := 'numeric'; v_desc := false;
+    when 'price_desc' then v_expr := 'p.price'; v_type := 'numeric'; v_desc := true;
+    when 'stock_desc' then v_expr := 'p.stock'; v_type := 'integer'; v_desc := true;
+    when 'name_asc' then v_expr := 'lower(p.name)'; v_type := 'text'; v_desc := false;
+    when 'newest' then v_expr := 'p.created_at'; v_type := 'timestamptz'; v_desc := true;
+    when 'best_selling' then v_expr := 'p.units_sold'; v_type := 'integer'; v_desc := true;
+    else
+      raise exception 'search_products: unknown sort %', p_sort using errcode = '22023';
+  end case;
+
+  return query execute format(
+    $sql$
+      select p, (%1$s)::text
+      from products p
+      where p.supermarket_id = $1
+        and p.archived_at is null
+        and ($2 is null
+             or product_search_vector(p.name, p.category, p.description) @@ websearch_to_tsquery('english', $2)
+             or $2 <%% p.name)
+        and ($3 is null or coalesce(p.category, 'Uncategorized') = any ($3))
+        and ($4 is null or p.price >= $4)
+        and ($5 is null or p.price <= $5)
+        and (not $6 or p.stock > 0)
+        and (not $7 or p.compare_at_price > p.price)
+        and ($8 is null or ((%1$s), p.id) %2$s ($8::%3$s, $9))
+      order by %1$s %4$s, p.id %4$s
+      limit $10
+    $sql$,
+    v_expr,
+    case when v_desc then '<' else '>' end,
+    v_type,
+    case when v_desc then 'desc' else 'asc' end
+  )
+  using p_supermarket_id, v_query, nullif(p_categories, '{}'), p_min_price, p_max_price,
+        coalesce(p_in_stock, false), coalesce(p_on_sale, false),
+        p_after_value, p_after_id, least(greatest(coalesce(p_limit, 24), 1), 100);
+end;
+$$;
+
+grant execute on function public.search_products(uuid, text, text[], numeric, numeric, boolean, boolean, text, text, uuid, integer)
+  to anon, authenticated;
+
+-- Counts for the shop's filters under the same search. Each facet is counted
+-- with every other filter applied but its own, so a count is how many
+-- products the shopper would see after ticking that value. Every category of
+-- the store is listed, with 0 when nothing matches.
+create or replace function public.product_facets(
+  p_supermarket_id uuid,
+  p_query text default null,
+  p_categories text[] default null,
+  p_min_price numeric default null,
+  p_max_price numeric default null,
+  p_in_stock boolean default false,
+  p_on_sale boolean default false
+)
+returns jsonb
+language sql
+stable
+set search_path = public, extensions
+set pg_trgm.word_similarity_threshold = 0.4
+as $$
+  with active as (
+    select p.*,
+           coalesce(p.category, 'Uncategorized') as category_name,
+           p.stock > 0 as in_stock,
+           coalesce(p.compare_at_price > p.price, false) as on_sale
+    from products p
+    where p.supermarket_id = p_supermarket_id and p.archived_at is null
+  ),
+  matching as (
+    select a.*,
+           (nullif(p_categories, '{}') is null or a.category_name = any (p_categories)) as category_ok,
+           (not coalesce(p_in_stock, false) or a.in_stock) as stock_ok,
+           (not coalesce(p_on_sale, false) or a.on_sale) as sale_ok
+    from active a
+    where (nullif(btrim(p_query), '') is null
+           or product_search_vector(a.name, a.category, a.description) @@ websearch_to_tsquery('english', btrim(p_query))
+           or btrim(p_query) <% a.name)
+      and (p_min_price is null or a.price >= p_min_price)
+      and (p_max_price is null or a.price <= p_max_price)
+  )
+  select jsonb_build_object(
+    'total', (select count(*) from matching where category_ok and stock_ok and sale_ok),
+    'categories', (
+      select coalesce(jsonb_agg(jsonb_build_object('name', c.name, 'count', coalesce(m.count, 0)) order by c.name), '[]'::jsonb)
+      from (select distinct category_name as name from active) c
+      left join (
+        select category_name, count(*) as count from matching where stock_ok and sale_ok group by category_name
+      ) m on m.category_name = c.name
+    ),
+    'in_stock', (select count(*) from matching where category_ok and sale_ok and in_stock),
+    'on_sale', (select count(*) from matching where category_ok and stock_ok and on_sale)
+  );
+$$;
+
+grant execute on function public.product_facets(uuid, text, text[], numeric, numeric, boolean, boolean)
+  to anon, authenticated;
@@ -0,0 +1,54 @@
+-- Product detail pages: extra gallery images and a price history.
+
+-- Images shown after image_url on the product page
+alter table public.products
+  add column if not exists gallery_urls text[] not null default '{}'
+    check (cardinality(gallery_urls) <= 8);
+
+-- Every price (and "was" price) a product has had, newest last
+create table if not exists public.product_price_history (
+  id bigserial primary key,
+  product_id uuid not null references public.products (id) on delete cascade,
+  price numeric(12, 2) not null,
+  compare_at_price numeric(12, 2),
+  recorded_at timestamptz not null default now()
+);
+
+create index if not exists product_price_history_product_idx
+  on public.product_price_history (product_id, recorded_at);
+
+-- Start every existing product's history at its current price
+insert into public.product_price_history (product_id, price, compare_at_price, recorded_at)
+select p.id, p.price, p.compare_at_price, p.created_at
+from public.products p
+where not exists (select 1 from public.product_price_history h where h.product_id = p.id);
+
+create or replace function public.record_product_price()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT'
+     or new.price is distinct from old.price
+     or new.compare_at_price is distinct from old.compare_at_price then
+    insert into product_price_history (product_id, price, compare_at_price)
+    values (new.id, new.price, new.compare_at_price);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists products_record_price on public.products;
+create trigger products_record_price
+  after insert or update of price, compare_at_price on public.products
+  for each row execute function public.record_product_price();
+
+-- Public like the products themselves; written only by the trigger
+alter table public.product_price_history enable row level security;
+
+drop policy if exists "price history is public" on public.product_price_history;
+create policy "price history is public"
+  on public.product_price_history for select
+  using (true);
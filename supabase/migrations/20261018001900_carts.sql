@@ -0,0 +1,103 @@
+-- Signed-in shoppers' carts, one per user and supermarket, so a cart follows
+-- the account across devices. Lines hold no product snapshot: the shop reads
+-- current price and stock and compares the price with price_seen, the price
+-- the shopper last saw, to tell them what changed.
+create table if not exists public.cart_items (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  supermarket_id uuid not null references public.supermarkets (id) on delete cascade,
+  product_id uuid not null references public.products (id) on delete cascade,
+  quantity integer not null check (quantity between 1 and 999),
+  price_seen numeric(12, 2) not null,
+  added_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  primary key (user_id, product_id)
+);
+
+create index if not exists cart_items_user_supermarket_idx
+  on public.cart_items (user_id, supermarket_id);
+
+create or replace function public.touch_cart_item()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists cart_items_touch on public.cart_items;
+create trigger cart_items_touch
+  before update on public.cart_items
+  for each row execute function public.touch_cart_item();
+
+alter table public.cart_items enable row level security;
+
+drop policy if exists "users read their cart" on public.cart_items;
+create policy "users read their cart"
+  on public.cart_items for select
+  using (user_id = auth.uid());
+
+-- Only products of the cart's own supermarket
+drop policy if exists "users add to their cart" on public.cart_items;
+create policy "users add to their cart"
+  on public.cart_items for insert
+  with check (
+    user_id = auth.uid()
+    and exists (
+      select 1 from public.products p
+      where p.id = product_id and p.supermarket_id = cart_items.supermarket_id
+    )
+  );
+
+drop policy if exists "users change their cart" on public.cart_items;
+create policy "users change their cart"
+  on public.cart_items for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+drop policy if exists "users remove from their cart" on public.cart_items;
+create policy "users remove from their cart"
+  on public.cart_items for delete
+  using (user_id = auth.uid());
+
+-- Fold the cart a shopper built before signing in into their account cart.
+-- p_items: [{ "product_id": uuid, "quantity": int, "price_seen": number }].
+-- Quantities add up; lines for products that are gone or belong to another
+-- supermarket are dropped. Stock is not checked here: the shop revalidates
+-- the merged cart and tells the shopper what it had to change.
+create or replace function public.merge_cart(p_supermarket_id uuid, p_items jsonb)
+returns integer
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_merged integer;
+begin
+  if v_user_id is null then
+    raise exception 'merge_cart: not authenticated' using errcode = '28000';
+  end if;
+  if jsonb_typeof(p_items) is distinct from 'array' then
+    raise exception 'merge_cart: p_items must be an array' using errcode = '22023';
+  end if;
+
+  insert into cart_items (user_id, supermarket_id, product_id, quantity, price_seen)
+  select v_user_id, p_supermarket_id, p.id, least(i.quantity, 999), coalesce(i.price_seen, p.price)
+  from (
+    select product_id, sum(quantity)::integer as quantity, min(price_seen) as price_seen
+    from jsonb_to_recordset(p_items) as x(product_id uuid, quantity integer, price_seen numeric)
+    where quantity > 0
+    group by product_id
+  ) i
+  join products p on p.id = i.product_id and p.supermarket_id = p_supermarket_id and p.archived_at is null
+  on conflict (user_id, product_id) do update
+    set quantity = least(cart_items.quantity + excluded.quantity, 999);
+
+  get diagnostics v_merged = row_count;
+  return v_merged;
+end;
+$$;
+
+grant execute on function public.merge_cart(uuid, jsonb) to authenticated;
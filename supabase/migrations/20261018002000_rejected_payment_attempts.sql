@@ -0,0 +1,7 @@
+-- A charge Paystack reports as successful but the webhook refuses (amount or
+-- currency mismatch, or the order was cancelled before the payment landed) is
+-- recorded as 'rejected', never 'success', so refunds of the order's payment
+-- cannot pick it up.
+alter table public.payment_attempts drop constraint if exists payment_attempts_status_check;
+alter table public.payment_attempts add constraint payment_attempts_status_check
+  check (status in ('initialized', 'success', 'failed', 'abandoned', 'rejected'));
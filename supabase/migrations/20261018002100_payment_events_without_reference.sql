@@ -0,0 +1,4 @@
+-- Paystack also signs events that carry no transaction reference (transfers,
+-- subscriptions, ...). They are recorded as ignored so Paystack stops retrying,
+-- which needs the reference to be optional.
+alter table public.payment_events alter column reference drop not null;
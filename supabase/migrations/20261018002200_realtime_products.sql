@@ -0,0 +1,14 @@
+-- 20261018001000 adds products to the realtime publication unconditionally,
+-- which fails on projects set up from the dashboard, where it is already
+-- published; such projects mark it applied with `supabase migration repair`.
+-- From here on products is published only if it is missing.
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'products'
+  ) then
+    alter publication supabase_realtime add table public.products;
+  end if;
+end;
+$$;
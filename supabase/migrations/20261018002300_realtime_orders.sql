@@ -0,0 +1,20 @@
+-- 20261018001100 adds orders and order_items to the realtime publication
+-- unconditionally, which fails where the dashboard already streams orders;
+-- such projects mark it applied with `supabase migration repair`. From here on
+-- each table is published only if it is missing.
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'orders'
+  ) then
+    alter publication supabase_realtime add table public.orders;
+  end if;
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'order_items'
+  ) then
+    alter publication supabase_realtime add table public.order_items;
+  end if;
+end;
+$$;
@@ -0,0 +1,19 @@
+-- 20261018001200 adds product_requests and notifications to the realtime
+-- publication unconditionally, so it cannot be re-run; from here on each table
+-- is published only if it is missing.
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'product_requests'
+  ) then
+    alter publication supabase_realtime add table public.product_requests;
+  end if;
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'notifications'
+  ) then
+    alter publication supabase_realtime add table public.notifications;
+  end if;
+end;
+$$;
@@ -0,0 +1,60 @@
+-- Imports no longer overwrite the stock of existing products: a spreadsheet can
+-- be edited for hours while orders keep selling, and writing its stock back
+-- would undo those sales. Update rows carry "stock_delta" (how far the file
+-- moved stock from its exported value) and stock moves by it, the way
+-- adjust_product_stock does; the stock check still rejects a negative result.
+-- Inserted rows keep their absolute "stock".
+create or replace function public.import_products(p_supermarket_id uuid, p_rows jsonb)
+returns jsonb
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_row jsonb;
+  v_created integer := 0;
+  v_updated integer := 0;
+begin
+  if jsonb_typeof(p_rows) is distinct from 'array' then
+    raise exception 'import_products: rows must be an array' using errcode = '22023';
+  end if;
+
+  for v_row in select value from jsonb_array_elements(p_rows) loop
+    if v_row ? 'id' then
+      if v_row ? 'stock' then
+        raise exception 'import_products: update % sets stock; send stock_delta', v_row->>'id' using errcode = '22023';
+      end if;
+      update products set
+        name = case when v_row ? 'name' then v_row->>'name' else name end,
+        price = case when v_row ? 'price' then (v_row->>'price')::numeric else price end,
+        stock = stock + coalesce((v_row->>'stock_delta')::integer, 0),
+        category = case when v_row ? 'category' then v_row->>'category' else category end,
+        description = case when v_row ? 'description' then v_row->>'description' else description end,
+        image_url = case when v_row ? 'image_url' then v_row->>'image_url' else image_url end,
+        external_sku = case when v_row ? 'external_sku' then v_row->>'external_sku' else external_sku end
+      where id = (v_row->>'id')::uuid and supermarket_id = p_supermarket_id;
+      if not found then
+        raise exception 'import_products: product % not found', v_row->>'id' using errcode = 'P0002';
+      end if;
+      v_updated := v_updated + 1;
+    else
+      insert into products (supermarket_id, name, price, stock, category, description, image_url, external_sku)
+      values (
+        p_supermarket_id,
+        v_row->>'name',
+        (v_row->>'price')::numeric,
+        coalesce((v_row->>'stock')::integer, 0),
+        v_row->>'category',
+        v_row->>'description',
+        v_row->>'image_url',
+        v_row->>'external_sku'
+      );
+      v_created := v_created + 1;
+    end if;
+  end loop;
+
+  return jsonb_build_object('created', v_created, 'updated', v_updated);
+end;
+$$;
+
+revoke all on function public.import_products(uuid, jsonb) from public;
+grant execute on function public.import_products(uuid, jsonb) to authenticated;
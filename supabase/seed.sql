@@ -0,0 +1,22 @@
+-- Local development data, loaded by `supabase db reset` after the migrations.
+-- Admin accounts are created separately with create-admins.js (it needs auth users).
+-- Naivas syncs from the json-server stub feed (`npm run api`, serving db.json).
+insert into public.supermarkets (id, name, location, api_url) values
+  ('11111111-1111-4111-8111-111111111111', 'Naivas Westlands', 'Nairobi', 'http://localhost:3001/products'),
+  ('22222222-2222-4222-8222-222222222222', 'Carrefour Two Rivers', 'Nairobi', null)
+on conflict (id) do nothing;
+
+insert into public.products (id, supermarket_id, name, description, price, stock, image_url, category, external_sku, compare_at_price) values
+  ('a0000000-0000-4000-8000-000000000001', '11111111-1111-4111-8111-111111111111',
+   'Maize Flour 2kg', 'Premium sifted maize flour', 180, 50, null, 'Food', '1', null),
+  ('a0000000-0000-4000-8000-000000000002', '11111111-1111-4111-8111-111111111111',
+   'Cooking Oil 1L', 'Pure sunflower oil', 320, 30, null, 'Food', '2', 360),
+  ('a0000000-0000-4000-8000-000000000003', '11111111-1111-4111-8111-111111111111',
+   'Toilet Paper 10 Pack', 'Soft & strong tissue paper', 500, 100, null, 'Home', '3', null),
+  ('a0000000-0000-4000-8000-000000000004', '11111111-1111-4111-8111-111111111111',
+   'Fresh Milk 500ml', 'Pasteurised whole milk', 65, 0, null, 'Dairy', null, null),
+  ('b0000000-0000-4000-8000-000000000001', '22222222-2222-4222-8222-222222222222',
+   'Basmati Rice 1kg', 'Long grain aromatic rice', 240, 40, null, 'Food', null, 280),
+  ('b0000000-0000-4000-8000-000000000002', '22222222-2222-4222-8222-222222222222',
+   'Laundry Detergent 1kg', 'Powder detergent for hand and machine wash', 410, 25, null, 'Home', null, null)
+on conflict (id) do nothing;
@@ -0,0 +1,100 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { PGlite } from "@electric-sql/pglite";
+import { asCaller, createLocalDatabase, createUser } from "./helpers/localPostgres";
+
+// From supabase/seed.sql
+const NAIVAS = "11111111-1111-4111-8111-111111111111";
+const MAIZE_FLOUR = "a0000000-0000-4000-8000-000000000001";
+const COOKING_OIL = "a0000000-0000-4000-8000-000000000002";
+
+let db: PGlite;
+let orderId: string;
+let shopperId: string;
+
+async function stock(productId: string) {
+  const { rows } = await db.query<{ stock: number }>("select stock from products where id = $1", [productId]);
+  return rows[0].stock;
+}
+
+async function createRefund(items: { product_id: string; quantity: number }[]) {
+  const { rows } = await db.query<{ id: number }>(
+    "insert into refunds (order_id, transaction_reference, amount, currency, items) values ($1, $2, 18000, 'KES', $3) returning id",
+    [orderId, `ref-${orderId}`, JSON.stringify(items)]
+  );
+  return rows[0].id;
+}
+
+// As the webhook calls it, through the service role
+async function completeRefund(refundId: number, status: string) {
+  return asCaller(db, { role: "service_role" }, async (tx) => {
+    const { rows } = await tx.query<{ applied: boolean }>("select complete_refund($1, $2) as applied", [refundId, status]);
+    return rows[0].applied;
+  });
+}
+
+beforeAll(async () => {
+  db = await createLocalDatabase({ seed: true });
+  shopperId = await createUser(db, "shopper@example.com");
+  const { rows } = await db.query<{ id: string }>(
+    "insert into orders (supermarket_id, user_id, total_amount, status) values ($1, $2, 1000, 'paid') returning id",
+    [NAIVAS, shopperId]
+  );
+  orderId = rows[0].id;
+}, 120_000);
+
+afterAll(() => db.close());
+
+describe("complete_refund", () => {
+  it("restocks a processed refund's items exactly once", async () => {
+    const before = { flour: await stock(MAIZE_FLOUR), oil: await stock(COOKING_OIL) };
+    const refundId = await createRefund([
+      { product_id: MAIZE_FLOUR, quantity: 2 },
+      { product_id: COOKING_OIL, quantity: 1 },
+      { product_id: MAIZE_FLOUR, quantity: 1 },
+    ]);
+
+    expect(await completeRefund(refundId, "processed")).toBe(true);
+    expect(await completeRefund(refundId, "processed")).toBe(false);
+    expect(await completeRefund(refundId, "failed")).toBe(false);
+
+    expect(await stock(MAIZE_FLOUR)).toBe(before.flour + 3);
+    expect(await stock(COOKING_OIL)).toBe(before.oil + 1);
+    const { rows } = await db.query<{ status: string; processed_at: string | null }>(
+      "select status, processed_at from refunds where id = $1",
+      [refundId]
+    );
+    expect(rows[0].status).toBe("processed");
+    expect(rows[0].processed_at).not.toBeNull();
+  });
+
+  it("does not restock a failed refund", async () => {
+    const before = await stock(MAIZE_FLOUR);
+    const refundId = await createRefund([{ product_id: MAIZE_FLOUR, quantity: 5 }]);
+
+    expect(await completeRefund(refundId, "failed")).toBe(true);
+    expect(await completeRefund(refundId, "processed")).toBe(false);
+
+    expect(await stock(MAIZE_FLOUR)).toBe(before);
+  });
+
+  it("rejects unknown statuses", async () => {
+    const refundId = await createRefund([]);
+    await expect(completeRefund(refundId, "pending")).rejects.toThrow("complete_refund: invalid status pending");
+  });
+
+  it("settles nothing when a signed-in user calls it", async () => {
+    const before = await stock(MAIZE_FLOUR);
+    const refundId = await createRefund([{ product_id: MAIZE_FLOUR, quantity: 1 }]);
+
+    // It runs as the caller, and refunds have no update policy for clients
+    const applied = await asCaller(db, { role: "authenticated", userId: shopperId }, async (tx) => {
+      const { rows } = await tx.query<{ applied: boolean }>("select complete_refund($1, 'processed') as applied", [refundId]);
+      return rows[0].applied;
+    });
+
+    expect(applied).toBe(false);
+    expect(await stock(MAIZE_FLOUR)).toBe(before);
+    const { rows } = await db.query<{ status: string }>("select status from refunds where id = $1", [refundId]);
+    expect(rows[0].status).toBe("pending");
+  });
+});
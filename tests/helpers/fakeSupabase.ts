@@ -0,0 +1,345 @@
+// tests/helpers/fakeSupabase.ts
+// In-memory stand-in for the service-role Supabase client, covering the parts
+// of supabase-js the payment code uses: filters, embedded relations, unique
+// keys and the RPCs it calls (mirroring their SQL in supabase/migrations).
+import { randomUUID } from "crypto";
+import type { User } from "@supabase/supabase-js";
+import type { TypedSupabaseClient } from "@/lib/supabase/config";
+
+type Row = Record<string, unknown>;
+type Filter = (row: Row) => boolean;
+type Result = { data: unknown; error: { code?: string; message: string } | null };
+
+// Columns that must stay unique, as in the migrations
+const UNIQUE_KEYS: Record<string, string[]> = {
+  payment_events: ["event_key"],
+  payment_attempts: ["reference"],
+  refunds: ["paystack_refund_id"],
+};
+
+const DEFAULTS: Record<string, () => Row> = {
+  payment_events: () => ({ outcome: "received", outcome_reason: null, order_id: null, processed_at: null }),
+  payment_attempts: () => ({ status: "initialized", authorization_url: null }),
+  refunds: () => ({ status: "pending", paystack_refund_id: null, items: [], reason: null, requested_by: null, processed_at: null }),
+  notifications: () => ({ id: randomUUID(), body: null, link: null, read_at: null }),
+};
+
+function same(a: unknown, b: unknown) {
+  if (a === null || a === undefined || b === null || b === undefined) return a == b;
+  return String(a) === String(b);
+}
+
+// Split on commas that are not inside parentheses
+function splitTopLevel(list: string) {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const ch of list) {
+    if (ch === "(") depth++;
+    if (ch === ")") depth--;
+    if (ch === "," && depth === 0) {
+      parts.push(current.trim());
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+// PostgREST `or` syntax: "role.eq.super_admin,and(role.eq.store_admin,supermarket_id.eq.x)"
+function parseLogic(expr: string, mode: "or" | "and"): Filter {
+  const filters = splitTopLevel(expr).map((part): Filter => {
+    const nested = part.match(/^(and|or)\((.*)\)$/);
+    if (nested) return parseLogic(nested[2], nested[1] as "and" | "or");
+    const [column, op, ...rest] = part.split(".");
+    const value = rest.join(".");
+    if (op === "eq") return (row) => same(row[column], value);
+    if (op === "neq") return (row) => !same(row[column], value);
+    if (op === "is") return (row) => same(row[column], value === "null" ? null : value);
+    throw new Error(`fakeSupabase: unsupported filter ${part}`);
+  });
+  return mode === "or" ? (row) => filters.some((f) => f(row)) : (row) => filters.every((f) => f(row));
+}
+
+function singular(table: string) {
+  return table.endsWith("s") ? table.slice(0, -1) : table;
+}
+
+class Query implements PromiseLike<Result> {
+  private op: "select" | "insert" | "update" | "delete" = "select";
+  private filters: Filter[] = [];
+  private columns: string | null = null;
+  private payload: Row[] = [];
+  private patch: Row = {};
+  private sort: { column: string; ascending: boolean } | null = null;
+  private max: number | null = null;
+  private mode: "many" | "single" | "maybeSingle" = "many";
+
+  constructor(
+    private db: FakeDatabase,
+    private table: string
+  ) {}
+
+  select(columns = "*") {
+    this.columns = columns;
+    return this;
+  }
+
+  insert(values: Row | Row[]) {
+    this.op = "insert";
+    this.payload = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  update(patch: Row) {
+    this.op = "update";
+    this.patch = patch;
+    return this;
+  }
+
+  delete() {
+    this.op = "delete";
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push((row) => same(row[column], value));
+    return this;
+  }
+
+  neq(column: string, value: unknown) {
+    this.filters.push((row) => !same(row[column], value));
+    return this;
+  }
+
+  in(column: string, values: unknown[]) {
+    this.filters.push((row) => values.some((v) => same(row[column], v)));
+    return this;
+  }
+
+  lt(column: string, value: string | number) {
+    this.filters.push((row) => String(row[column]) < String(value));
+    return this;
+  }
+
+  is(column: string, value: null) {
+    this.filters.push((row) => same(row[column], value));
+    return this;
+  }
+
+  or(expr: string) {
+    this.filters.push(parseLogic(expr, "or"));
+    return this;
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}) {
+    this.sort = { column, ascending: options.ascending ?? true };
+    return this;
+  }
+
+  limit(count: number) {
+    this.max = count;
+    return this;
+  }
+
+  single() {
+    this.mode = "single";
+    return this;
+  }
+
+  maybeSingle() {
+    this.mode = "maybeSingle";
+    return this;
+  }
+
+  then<A = Result, B = never>(
+    onFulfilled?: ((value: Result) => A | PromiseLike<A>) | null,
+    onRejected?: ((reason: unknown) => B | PromiseLike<B>) | null
+  ) {
+    return Promise.resolve()
+      .then(() => this.execute())
+      .then(onFulfilled, onRejected);
+  }
+
+  private execute(): Result {
+    const rows = this.db.rows(this.table);
+    let matched: Row[];
+
+    if (this.op === "insert") {
+      const inserted: Row[] = [];
+      for (const value of this.payload) {
+        const row: Row = {
+          id: this.db.nextId(),
+          created_at: new Date().toISOString(),
+          ...(DEFAULTS[this.table]?.() ?? {}),
+          ...value,
+        };
+        for (const key of UNIQUE_KEYS[this.table] ?? []) {
+          if (row[key] != null && rows.some((r) => same(r[key], row[key]))) {
+            return {
+              data: null,
+              error: { code: "23505", message: `duplicate key value violates unique constraint "${this.table}_${key}_key"` },
+            };
+          }
+        }
+        inserted.push(row);
+      }
+      rows.push(...inserted);
+      matched = inserted;
+    } else {
+      matched = rows.filter((row) => this.filters.every((f) => f(row)));
+      if (this.op === "update") for (const row of matched) Object.assign(row, this.patch);
+      if (this.op === "delete") this.db.setRows(this.table, rows.filter((row) => !matched.includes(row)));
+    }
+
+    // Writes return rows only when .select() was chained
+    if (this.op !== "select" && this.columns === null) return { data: null, error: null };
+
+    if (this.sort) {
+      const { column, ascending } = this.sort;
+      matched = [...matched].sort((a, b) => String(a[column]).localeCompare(String(b[column])) * (ascending ? 1 : -1));
+    }
+    if (this.max !== null) matched = matched.slice(0, this.max);
+    const data = matched.map((row) => this.db.project(this.table, row, this.columns ?? "*"));
+
+    if (this.mode === "many") return { data, error: null };
+    if (data.length > 1) return { data: null, error: { message: "multiple rows returned" } };
+    if (data.length === 0 && this.mode === "single") {
+      return { data: null, error: { code: "PGRST116", message: "no rows returned" } };
+    }
+    return { data: data[0] ?? null, error: null };
+  }
+}
+
+export class FakeDatabase {
+  private tables = new Map<string, Row[]>();
+  private users = new Map<string, User>();
+  private sequence = 0;
+  // Every RPC call, in order, for assertions
+  rpcCalls: { fn: string; args: Row; result: unknown }[] = [];
+
+  readonly client = {
+    from: (table: string) => new Query(this, table),
+    rpc: async (fn: string, args: Row = {}) => {
+      const handler = this.functions[fn];
+      if (!handler) return { data: null, error: { message: `function ${fn} does not exist` } };
+      try {
+        const data = handler(args);
+        this.rpcCalls.push({ fn, args, result: data });
+        return { data, error: null };
+      } catch (err) {
+        return { data: null, error: { message: (err as Error).message } };
+      }
+    },
+    auth: {
+      getUser: async (token?: string) => {
+        const user = token ? this.users.get(token) : undefined;
+        return user
+          ? { data: { user }, error: null }
+          : { data: { user: null }, error: { message: "invalid JWT" } };
+      },
+    },
+  } as unknown as TypedSupabaseClient;
+
+  // Same behaviour as the SQL functions of the same name
+  private functions: Record<string, (args: Row) => unknown> = {
+    transition_order_status: (args) => {
+      const order = this.rows("orders").find((o) => same(o.id, args.p_order_id) && o.status === args.p_from);
+      if (!order) return false;
+      order.status = args.p_to;
+      if (args.p_release_stock) {
+        for (const item of this.rows("order_items").filter((i) => same(i.order_id, order.id))) {
+          this.restock(item.product_id, Number(item.quantity));
+        }
+      }
+      this.insert("order_status_history", {
+        order_id: order.id,
+        from_status: args.p_from,
+        to_status: args.p_to,
+        actor: args.p_actor,
+        reason: args.p_reason ?? null,
+      });
+      return true;
+    },
+    complete_refund: (args) => {
+      if (args.p_status !== "processed" && args.p_status !== "failed") {
+        throw new Error(`complete_refund: invalid status ${args.p_status}`);
+      }
+      const refund = this.rows("refunds").find((r) => same(r.id, args.p_refund_id) && r.status === "pending");
+      if (!refund) return false;
+      refund.status = args.p_status;
+      refund.processed_at = new Date().toISOString();
+      if (args.p_status === "processed") {
+        for (const item of refund.items as { product_id: string; quantity: number }[]) {
+          this.restock(item.product_id, item.quantity);
+        }
+      }
+      return true;
+    },
+  };
+
+  reset() {
+    this.tables.clear();
+    this.users.clear();
+    this.rpcCalls = [];
+  }
+
+  rows(table: string) {
+    if (!this.tables.has(table)) this.tables.set(table, []);
+    return this.tables.get(table)!;
+  }
+
+  setRows(table: string, rows: Row[]) {
+    this.tables.set(table, rows);
+  }
+
+  nextId() {
+    return ++this.sequence;
+  }
+
+  insert<T extends Row>(table: string, row: T) {
+    const full = { id: this.nextId(), created_at: new Date().toISOString(), ...(DEFAULTS[table]?.() ?? {}), ...row };
+    this.rows(table).push(full);
+    return full as T & { id: number | string; created_at: string };
+  }
+
+  find(table: string, match: Row) {
+    return this.rows(table).find((row) => Object.entries(match).every(([k, v]) => same(row[k], v)));
+  }
+
+  // Bearer token `token` will resolve to this user
+  signIn(token: string, user: Partial<User> & { id: string }) {
+    this.users.set(token, { aud: "authenticated", app_metadata: {}, user_metadata: {}, created_at: "", ...user });
+  }
+
+  // Row plus the relations named in a select list, e.g. "*, refunds(amount, status)"
+  project(table: string, row: Row, columns: string): Row {
+    const out: Row = { ...row };
+    for (const part of splitTopLevel(columns)) {
+      const embed = part.match(/^(\w+)\((.*)\)$/);
+      if (!embed) continue;
+      const [, relation, inner] = embed;
+      const foreignKey = `${singular(table)}_id`;
+      const parentKey = `${singular(relation)}_id`;
+      if (parentKey in row) {
+        // many-to-one, e.g. order_items -> products
+        const parent = this.rows(relation).find((r) => same(r.id, row[parentKey]));
+        out[relation] = parent ? this.project(relation, parent, inner) : null;
+      } else {
+        out[relation] = this.rows(relation)
+          .filter((r) => same(r[foreignKey], row.id))
+          .map((r) => this.project(relation, r, inner));
+      }
+    }
+    return out;
+  }
+
+  private restock(productId: unknown, quantity: number) {
+    const product = this.rows("products").find((p) => same(p.id, productId));
+    if (product) product.stock = Number(product.stock) + quantity;
+  }
+}
+
+export const fakeDb = new FakeDatabase();
@@ -0,0 +1,114 @@
+// tests/helpers/paystackStub.ts
+// Local Paystack stand-in: lib/paystack.ts talks to it over HTTP through
+// PAYSTACK_BASE_URL. Tests register the transactions Paystack "knows" and
+// read back the refunds that were requested; every checkout it opens succeeds.
+import http from "http";
+import type { AddressInfo } from "net";
+import type { VerifiedTransaction } from "@/lib/paystack";
+
+export interface StubRefundRequest {
+  transaction: string;
+  amount?: number;
+  merchant_note?: string;
+}
+
+class PaystackStub {
+  url = "";
+  transactions = new Map<string, VerifiedTransaction>();
+  refundRequests: StubRefundRequest[] = [];
+  // Set to make POST /refund answer like Paystack refusing the refund
+  refuseRefunds: string | null = null;
+  private server: http.Server | null = null;
+  private nextId = 1000;
+
+  async listen() {
+    this.server = http.createServer((req, res) => this.handle(req, res));
+    await new Promise<void>((resolve) => this.server!.listen(0, "127.0.0.1", resolve));
+    const { port } = this.server.address() as AddressInfo;
+    this.url = `http://127.0.0.1:${port}`;
+  }
+
+  async close() {
+    await new Promise<void>((resolve) => (this.server ? this.server.close(() => resolve()) : resolve()));
+  }
+
+  reset() {
+    this.transactions.clear();
+    this.refundRequests = [];
+    this.refuseRefunds = null;
+  }
+
+  // What GET /transaction/verify/:reference will report
+  charge(reference: string, amount: number, overrides: Partial<VerifiedTransaction> = {}) {
+    this.transactions.set(reference, {
+      id: this.nextId++,
+      status: "success",
+      reference,
+      amount,
+      currency: "KES",
+      paid_at: new Date().toISOString(),
+      gateway_response: "Approved",
+      ...overrides,
+    });
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+    if (req.headers.authorization !== `Bearer ${process.env.PAYSTACK_SECRET_KEY}`) {
+      return send(401, { status: false, message: "Invalid key" });
+    }
+
+    const url = new URL(req.url ?? "/", this.url);
+    const verify = url.pathname.match(/^\/transaction\/verify\/(.+)$/);
+    if (req.method === "GET" && verify) {
+      const transaction = this.transactions.get(decodeURIComponent(verify[1]));
+      if (!transaction) return send(400, { status: false, message: "Transaction reference not found" });
+      return send(200, { status: true, message: "Verification successful", data: transaction });
+    }
+
+    if (req.method === "POST" && url.pathname === "/transaction/initialize") {
+      let raw = "";
+      req.on("data", (chunk) => (raw += chunk));
+      req.on("end", () => {
+        const { reference } = JSON.parse(raw) as { reference: string };
+        send(200, {
+          status: true,
+          message: "Authorization URL created",
+          data: { authorization_url: `https://checkout.paystack.com/${reference}`, access_code: reference, reference },
+        });
+      });
+      return;
+    }
+
+    if (req.method === "POST" && url.pathname === "/refund") {
+      let raw = "";
+      req.on("data", (chunk) => (raw += chunk));
+      req.on("end", () => {
+        const body = JSON.parse(raw) as StubRefundRequest;
+        this.refundRequests.push(body);
+        if (this.refuseRefunds) return send(400, { status: false, message: this.refuseRefunds });
+
+        const transaction = this.transactions.get(body.transaction);
+        send(200, {
+          status: true,
+          message: "Refund has been queued for processing",
+          data: {
+            id: this.nextId++,
+            status: "pending",
+            amount: body.amount ?? transaction?.amount,
+            currency: "KES",
+            transaction: { id: transaction?.id ?? 0, reference: body.transaction },
+          },
+        });
+      });
+      return;
+    }
+
+    send(404, { status: false, message: `No stub for ${req.method} ${url.pathname}` });
+  }
+}
+
+export const paystackStub = new PaystackStub();
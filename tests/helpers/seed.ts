@@ -0,0 +1,60 @@
+// tests/helpers/seed.ts
+// Orders as /api/orders and /api/orders/[id]/pay would leave them.
+import { randomUUID } from "crypto";
+import { toKobo } from "@/lib/paystack";
+import { fakeDb } from "./fakeSupabase";
+
+export interface SeedLine {
+  name: string;
+  price: number; // KES
+  quantity: number;
+  stock?: number; // left on the shelf after the order reserved its lines
+}
+
+const DEFAULT_LINES: SeedLine[] = [
+  { name: "Sugar 2kg", price: 250, quantity: 1 },
+  { name: "Milk 1L", price: 100, quantity: 2 },
+];
+
+// An order with one payment attempt; its reference is what Paystack reports back
+export function seedOrder(options: { status?: string; lines?: SeedLine[]; userId?: string } = {}) {
+  const lines = options.lines ?? DEFAULT_LINES;
+  const supermarket = fakeDb.insert("supermarkets", { id: randomUUID(), name: "Naivas Westlands" });
+  const products = lines.map((line) =>
+    fakeDb.insert("products", {
+      id: randomUUID(),
+      supermarket_id: supermarket.id,
+      name: line.name,
+      price: line.price,
+      stock: line.stock ?? 10,
+    })
+  );
+  const total = lines.reduce((sum, line) => sum + line.price * line.quantity, 0);
+  const order = fakeDb.insert("orders", {
+    id: randomUUID(),
+    user_id: options.userId ?? randomUUID(),
+    supermarket_id: supermarket.id,
+    status: options.status ?? "pending",
+    total_amount: total,
+  });
+  lines.forEach((line, i) =>
+    fakeDb.insert("order_items", {
+      order_id: order.id,
+      product_id: products[i].id,
+      quantity: line.quantity,
+      price: line.price,
+    })
+  );
+  const attempt = fakeDb.insert("payment_attempts", {
+    order_id: order.id,
+    reference: `${order.id.slice(0, 8)}-${randomUUID()}`,
+    amount: toKobo(total),
+    currency: "KES",
+  });
+
+  return { supermarket, products, order, attempt, reference: attempt.reference, amount: toKobo(total) };
+}
+
+export function stockOf(productId: string) {
+  return Number(fakeDb.find("products", { id: productId })?.stock);
+}
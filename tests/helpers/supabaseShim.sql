@@ -0,0 +1,33 @@
+-- Just enough of a Supabase project for supabase/migrations to run on plain
+-- Postgres: the API roles, auth.users, auth.uid() (read from the JWT claim
+-- PostgREST sets per request), the grants a new project starts with, and the
+-- realtime publication.
+create role anon nologin noinherit;
+create role authenticated nologin noinherit;
+create role service_role nologin noinherit bypassrls;
+
+create schema if not exists auth;
+create schema if not exists extensions;
+
+create table auth.users (
+  id uuid primary key default gen_random_uuid(),
+  email text,
+  created_at timestamptz not null default now()
+);
+
+create function auth.uid()
+returns uuid
+language sql
+stable
+as $$
+  select nullif(current_setting('request.jwt.claim.sub', true), '')::uuid;
+$$;
+
+grant usage on schema auth, extensions, public to anon, authenticated, service_role;
+grant all on schema public to service_role;
+
+alter default privileges in schema public grant all on tables to anon, authenticated, service_role;
+alter default privileges in schema public grant all on sequences to anon, authenticated, service_role;
+alter default privileges in schema public grant execute on functions to anon, authenticated, service_role;
+
+create publication supabase_realtime;
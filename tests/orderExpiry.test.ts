@@ -0,0 +1,117 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { POST as payOrder } from "@/app/api/orders/[id]/pay/route";
+import { ORDER_PAYMENT_TTL_MINUTES, expireStaleOrders } from "@/lib/payments";
+import { fakeDb } from "./helpers/fakeSupabase";
+import { paystackStub } from "./helpers/paystackStub";
+import { deliver, recordedEvent } from "./helpers/paystackWebhook";
+import { seedOrder, stockOf } from "./helpers/seed";
+
+function minutesAgo(minutes: number) {
+  return new Date(Date.now() - minutes * 60_000).toISOString();
+}
+
+// An unpaid order placed `orderAge` minutes ago whose latest payment attempt started `attemptAge` minutes ago
+function seedUnpaidOrder(orderAge: number, attemptAge: number) {
+  const seeded = seedOrder({ userId: "shopper-1" });
+  fakeDb.find("orders", { id: seeded.order.id })!.created_at = minutesAgo(orderAge);
+  fakeDb.find("payment_attempts", { reference: seeded.reference })!.created_at = minutesAgo(attemptAge);
+  return seeded;
+}
+
+function orderStatus(orderId: string) {
+  return fakeDb.find("orders", { id: orderId })?.status;
+}
+
+// "Pay now" from the order's owner
+async function payNow(orderId: string) {
+  const res = await payOrder(
+    new Request(`http://localhost/api/orders/${orderId}/pay`, {
+      method: "POST",
+      headers: { authorization: "Bearer shopper-token" },
+    }),
+    { params: Promise.resolve({ id: orderId }) }
+  );
+  return { status: res.status, body: (await res.json()) as { error?: string } };
+}
+
+beforeEach(() => {
+  fakeDb.reset();
+  paystackStub.reset();
+  fakeDb.signIn("shopper-token", { id: "shopper-1", email: "shopper@example.com" });
+});
+
+describe("expireStaleOrders", () => {
+  it("cancels an order whose last payment attempt is past the TTL and releases its stock", async () => {
+    const { order, reference, products } = seedUnpaidOrder(ORDER_PAYMENT_TTL_MINUTES + 10, ORDER_PAYMENT_TTL_MINUTES + 5);
+
+    const result = await expireStaleOrders();
+
+    expect(result).toEqual({ expired: [order.id], skipped: [] });
+    expect(orderStatus(order.id)).toBe("cancelled");
+    expect(stockOf(products[0].id)).toBe(11);
+    expect(fakeDb.find("payment_attempts", { reference })?.status).toBe("abandoned");
+  });
+
+  it("waits for a payment started just before the deadline", async () => {
+    // Placed past the TTL, but the shopper opened Paystack a minute ago
+    const { order, reference, amount } = seedUnpaidOrder(ORDER_PAYMENT_TTL_MINUTES + 1, 1);
+
+    const result = await expireStaleOrders();
+    paystackStub.charge(reference, amount);
+    await deliver(recordedEvent("charge.success", { reference, amount }));
+
+    expect(result).toEqual({ expired: [], skipped: [order.id] });
+    expect(orderStatus(order.id)).toBe("paid");
+    expect(paystackStub.refundRequests).toHaveLength(0);
+  });
+
+  it("leaves an order Paystack reports as paid for the webhook", async () => {
+    const { order, reference, amount } = seedUnpaidOrder(ORDER_PAYMENT_TTL_MINUTES + 10, ORDER_PAYMENT_TTL_MINUTES + 5);
+    paystackStub.charge(reference, amount);
+
+    const result = await expireStaleOrders();
+
+    expect(result).toEqual({ expired: [], skipped: [order.id] });
+    expect(orderStatus(order.id)).toBe("pending");
+  });
+
+  it("keeps orders younger than the TTL", async () => {
+    const { order } = seedUnpaidOrder(5, 5);
+
+    expect(await expireStaleOrders()).toEqual({ expired: [], skipped: [] });
+    expect(orderStatus(order.id)).toBe("pending");
+  });
+});
+
+describe("POST /api/orders/[id]/pay on an order past the TTL", () => {
+  it("cancels the order once its last payment attempt is past the TTL too", async () => {
+    const { order, products } = seedUnpaidOrder(ORDER_PAYMENT_TTL_MINUTES + 10, ORDER_PAYMENT_TTL_MINUTES + 5);
+
+    const res = await payNow(order.id);
+
+    expect(res).toEqual({ status: 410, body: { error: "This order has expired and its items were released" } });
+    expect(orderStatus(order.id)).toBe("cancelled");
+    expect(stockOf(products[0].id)).toBe(11);
+  });
+
+  it("lets the shopper retry a payment started just before the deadline", async () => {
+    const { order } = seedUnpaidOrder(ORDER_PAYMENT_TTL_MINUTES + 1, 1);
+
+    const res = await payNow(order.id);
+
+    expect(res.status).toBe(200);
+    expect(orderStatus(order.id)).toBe("pending");
+    expect(fakeDb.rows("payment_attempts").filter((a) => a.order_id === order.id)).toHaveLength(2);
+  });
+
+  it("does not cancel an order Paystack reports as paid", async () => {
+    const { order, reference, amount, products } = seedUnpaidOrder(ORDER_PAYMENT_TTL_MINUTES + 10, ORDER_PAYMENT_TTL_MINUTES + 5);
+    paystackStub.charge(reference, amount);
+
+    const res = await payNow(order.id);
+
+    expect(res).toEqual({ status: 409, body: { error: "This order has been paid and is being confirmed" } });
+    expect(orderStatus(order.id)).toBe("pending");
+    expect(stockOf(products[0].id)).toBe(10);
+  });
+});
@@ -0,0 +1,245 @@
+import { randomUUID } from "crypto";
+import { beforeEach, describe, expect, it } from "vitest";
+import { fakeDb } from "./helpers/fakeSupabase";
+import { paystackStub } from "./helpers/paystackStub";
+import { deliver, recordedEvent, sign } from "./helpers/paystackWebhook";
+import { seedOrder, stockOf } from "./helpers/seed";
+
+function ledger(event: string) {
+  return fakeDb.rows("payment_events").filter((e) => e.event === event);
+}
+
+function orderStatus(orderId: string) {
+  return fakeDb.find("orders", { id: orderId })?.status;
+}
+
+function attemptStatus(reference: string) {
+  return fakeDb.find("payment_attempts", { reference })?.status;
+}
+
+beforeEach(() => {
+  fakeDb.reset();
+  paystackStub.reset();
+});
+
+describe("POST /api/paystack-webhook", () => {
+  it("marks the order paid after Paystack confirms the charge", async () => {
+    const { order, reference, amount } = seedOrder();
+    paystackStub.charge(reference, amount);
+
+    const res = await deliver(recordedEvent("charge.success", { reference, amount }));
+
+    expect(res).toEqual({ status: 200, body: { status: "ok" } });
+    expect(orderStatus(order.id)).toBe("paid");
+    expect(attemptStatus(reference)).toBe("success");
+    expect(ledger("charge.success")).toMatchObject([{ outcome: "processed", order_id: order.id }]);
+    expect(fakeDb.rows("order_status_history")).toMatchObject([
+      { order_id: order.id, from_status: "pending", to_status: "paid", actor: "system:paystack-webhook" },
+    ]);
+  });
+
+  it("rejects a payload whose signature does not match", async () => {
+    const { order, reference, amount } = seedOrder();
+    paystackStub.charge(reference, amount);
+    const payload = recordedEvent("charge.success", { reference, amount });
+
+    const forged = await deliver(payload, { signature: sign(JSON.stringify(payload), "sk_test_someone_else") });
+    const missing = await deliver(payload, { signature: "" });
+
+    expect(forged.status).toBe(401);
+    expect(missing.status).toBe(401);
+    expect(fakeDb.rows("payment_events")).toHaveLength(0);
+    expect(orderStatus(order.id)).toBe("pending");
+  });
+
+  it("processes a duplicate delivery only once", async () => {
+    const { order, reference, amount } = seedOrder();
+    paystackStub.charge(reference, amount);
+    const payload = recordedEvent("charge.success", { reference, amount });
+
+    const first = await deliver(payload);
+    const second = await deliver(payload);
+
+    expect(first.body).toEqual({ status: "ok" });
+    expect(second).toEqual({ status: 200, body: { status: "duplicate" } });
+    expect(ledger("charge.success")).toHaveLength(1);
+    expect(fakeDb.rpcCalls.filter((c) => c.fn === "transition_order_status")).toHaveLength(1);
+    expect(orderStatus(order.id)).toBe("paid");
+  });
+
+  it("retries a delivery whose first attempt errored", async () => {
+    const { order, reference, amount } = seedOrder();
+    const payload = recordedEvent("charge.success", { reference, amount });
+
+    // Paystack cannot confirm the charge yet, so the webhook fails and Paystack retries
+    const first = await deliver(payload);
+    paystackStub.charge(reference, amount);
+    const retry = await deliver(payload);
+
+    expect(first.status).toBe(500);
+    expect(retry.body).toEqual({ status: "ok" });
+    expect(ledger("charge.success")).toMatchObject([{ outcome: "processed" }]);
+    expect(orderStatus(order.id)).toBe("paid");
+  });
+
+  it("rejects a charge whose verified amount differs from the order total", async () => {
+    const { order, reference, amount } = seedOrder();
+    paystackStub.charge(reference, amount - 100);
+
+    const res = await deliver(recordedEvent("charge.success", { reference, amount }));
+
+    expect(res.status).toBe(200);
+    expect(orderStatus(order.id)).toBe("pending");
+    expect(attemptStatus(reference)).toBe("rejected");
+    expect(ledger("charge.success")[0]).toMatchObject({ outcome: "rejected" });
+    expect(ledger("charge.success")[0].outcome_reason).toMatch(/^amount mismatch/);
+  });
+
+  it("rejects a charge whose event amount differs from the verified one", async () => {
+    const { order, reference, amount } = seedOrder();
+    paystackStub.charge(reference, amount);
+
+    await deliver(recordedEvent("charge.success", { reference, amount: amount * 10 }));
+
+    expect(orderStatus(order.id)).toBe("pending");
+    expect(attemptStatus(reference)).toBe("rejected");
+    expect(ledger("charge.success")[0].outcome_reason).toMatch(/^amount mismatch/);
+  });
+
+  it("rejects a charge in another currency", async () => {
+    const { order, reference, amount } = seedOrder();
+    paystackStub.charge(reference, amount, { currency: "NGN" });
+
+    await deliver(recordedEvent("charge.success", { reference, amount, currency: "NGN" }));
+
+    expect(orderStatus(order.id)).toBe("pending");
+    expect(attemptStatus(reference)).toBe("rejected");
+    expect(ledger("charge.success")[0]).toMatchObject({ outcome: "rejected", outcome_reason: "currency mismatch: NGN" });
+  });
+
+  it("rejects a charge.success that Paystack does not confirm", async () => {
+    const { order, reference, amount } = seedOrder();
+    paystackStub.charge(reference, amount, { status: "failed" });
+
+    await deliver(recordedEvent("charge.success", { reference, amount }));
+
+    expect(orderStatus(order.id)).toBe("pending");
+    expect(ledger("charge.success")[0]).toMatchObject({ outcome: "rejected", outcome_reason: "verify status is failed" });
+  });
+
+  it("marks a pending order failed on charge.failed", async () => {
+    const { order, reference, amount } = seedOrder();
+
+    await deliver(recordedEvent("charge.failed", { reference, amount }));
+
+    expect(orderStatus(order.id)).toBe("failed");
+    expect(attemptStatus(reference)).toBe("failed");
+    expect(ledger("charge.failed")).toMatchObject([{ outcome: "processed" }]);
+  });
+
+  it("keeps the order paid when a failure arrives after the success", async () => {
+    const { order, reference, amount } = seedOrder();
+    paystackStub.charge(reference, amount);
+
+    await deliver(recordedEvent("charge.success", { reference, amount }));
+    const late = await deliver(recordedEvent("charge.failed", { reference, amount }));
+
+    expect(late.body).toEqual({ status: "ok" });
+    expect(orderStatus(order.id)).toBe("paid");
+    expect(attemptStatus(reference)).toBe("success");
+    expect(ledger("charge.failed")[0]).toMatchObject({ outcome: "ignored", outcome_reason: "cannot move order from paid to failed" });
+  });
+
+  it("lets a verified success win over an earlier failure", async () => {
+    const { order, reference, amount } = seedOrder();
+    paystackStub.charge(reference, amount);
+
+    await deliver(recordedEvent("charge.failed", { reference, amount }));
+    await deliver(recordedEvent("charge.success", { reference, amount }));
+
+    expect(orderStatus(order.id)).toBe("paid");
+    expect(attemptStatus(reference)).toBe("success");
+  });
+
+  it("rejects references that match no order", async () => {
+    const res = await deliver(recordedEvent("charge.success", { reference: randomUUID() }));
+
+    expect(res).toEqual({ status: 200, body: { status: "ok" } });
+    expect(ledger("charge.success")).toMatchObject([{ outcome: "rejected", outcome_reason: "unknown order reference" }]);
+  });
+
+  it("ignores references this shop never issued", async () => {
+    const res = await deliver(recordedEvent("charge.success", { reference: "T874125903254871" }));
+
+    expect(res).toEqual({ status: 200, body: { status: "ok" } });
+    expect(ledger("charge.success")).toMatchObject([{ outcome: "ignored", outcome_reason: "unknown reference" }]);
+  });
+
+  it("acknowledges and records signed events that carry no reference", async () => {
+    const payload = recordedEvent("subscription.create");
+
+    const first = await deliver(payload);
+    const again = await deliver(payload);
+
+    expect(first).toEqual({ status: 200, body: { status: "ok" } });
+    expect(again).toEqual({ status: 200, body: { status: "duplicate" } });
+    expect(ledger("subscription.create")).toMatchObject([
+      { reference: null, outcome: "ignored", outcome_reason: "no transaction reference" },
+    ]);
+  });
+
+  it("refunds a payment that lands after the order was cancelled", async () => {
+    const { order, supermarket, reference, amount } = seedOrder({ status: "cancelled" });
+    const storeAdmin = fakeDb.insert("profiles", { id: "admin-1", role: "store_admin", supermarket_id: supermarket.id });
+    fakeDb.insert("profiles", { id: "admin-2", role: "store_admin", supermarket_id: "another-store" });
+    fakeDb.insert("profiles", { id: "shopper-1", role: "shopper", supermarket_id: null });
+    paystackStub.charge(reference, amount);
+    const payload = recordedEvent("charge.success", { reference, amount });
+
+    await deliver(payload);
+    // Paystack retrying the same event must not ask for a second refund
+    fakeDb.find("payment_events", { event: "charge.success" })!.outcome = "error";
+    await deliver(payload);
+
+    expect(orderStatus(order.id)).toBe("cancelled");
+    expect(attemptStatus(reference)).toBe("rejected");
+    expect(paystackStub.refundRequests).toEqual([
+      { transaction: reference, amount, merchant_note: "Order was cancelled before the payment arrived" },
+    ]);
+    expect(fakeDb.rows("refunds")).toMatchObject([{ order_id: order.id, amount, status: "pending", items: [] }]);
+    expect(ledger("charge.success")[0]).toMatchObject({ outcome: "rejected", order_id: order.id });
+    expect(ledger("charge.success")[0].outcome_reason).toMatch(/^paid after the order was cancelled; refund \d+/);
+    expect(fakeDb.rows("notifications")).toMatchObject([
+      { user_id: storeAdmin.id, kind: "late_payment", link: `/admin/${supermarket.id}/orders` },
+    ]);
+  });
+
+  it("asks admins for a manual refund when Paystack refuses the automatic one", async () => {
+    const { order, supermarket, reference, amount } = seedOrder({ status: "cancelled" });
+    fakeDb.insert("profiles", { id: "super-1", role: "super_admin", supermarket_id: null });
+    paystackStub.charge(reference, amount);
+    paystackStub.refuseRefunds = "Refund cannot be processed for this transaction";
+
+    await deliver(recordedEvent("charge.success", { reference, amount }));
+
+    expect(orderStatus(order.id)).toBe("cancelled");
+    expect(fakeDb.rows("refunds")).toMatchObject([{ status: "failed" }]);
+    expect(ledger("charge.success")[0].outcome_reason).toBe(
+      "paid after the order was cancelled; automatic refund failed: Refund cannot be processed for this transaction"
+    );
+    expect(fakeDb.rows("notifications")).toMatchObject([
+      { user_id: "super-1", title: "Payment on a cancelled order needs a manual refund", link: `/admin/${supermarket.id}/orders` },
+    ]);
+  });
+
+  it("leaves stock alone for a charge on an order that is already paid", async () => {
+    const { order, products, reference, amount } = seedOrder({ status: "paid" });
+    paystackStub.charge(reference, amount);
+
+    await deliver(recordedEvent("charge.success", { reference, amount }));
+
+    expect(orderStatus(order.id)).toBe("paid");
+    expect(stockOf(products[0].id)).toBe(10);
+    expect(ledger("charge.success")[0]).toMatchObject({ outcome: "ignored", outcome_reason: "order is paid" });
+  });
+});
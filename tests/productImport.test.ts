@@ -0,0 +1,103 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { PGlite } from "@electric-sql/pglite";
+import { formatCsv, parseCsv } from "@/lib/feeds/csv";
+import type { Product } from "@/lib/models";
+import { importRows, planProductImport, productsToCsv } from "@/lib/productTransfer";
+import { asCaller, createLocalDatabase, createUser, type Caller } from "./helpers/localPostgres";
+
+// From supabase/seed.sql
+const NAIVAS = "11111111-1111-4111-8111-111111111111";
+const MAIZE_FLOUR = "a0000000-0000-4000-8000-000000000001";
+const COOKING_OIL = "a0000000-0000-4000-8000-000000000002";
+
+let db: PGlite;
+let admin: Caller;
+
+async function catalogue() {
+  const { rows } = await db.query<Product>("select * from products where supermarket_id = $1 order by id", [NAIVAS]);
+  return rows.map((p) => ({ ...p, price: Number(p.price) }));
+}
+
+async function stock(productId: string) {
+  const { rows } = await db.query<{ stock: number }>("select stock from products where id = $1", [productId]);
+  return rows[0].stock;
+}
+
+// The exported file with the stock cells of some products edited, as in a spreadsheet
+function editStock(csv: string, stockById: Record<string, number>) {
+  const [header, ...rows] = parseCsv(csv).map((r) => r.cells);
+  const id = header.indexOf("id");
+  const stockColumn = header.indexOf("stock");
+  return formatCsv([
+    header,
+    ...rows.map((cells) => cells.map((cell, i) => (i === stockColumn && cells[id] in stockById ? stockById[cells[id]] : cell))),
+  ]);
+}
+
+// Check the file against the catalogue as it is now and apply it, like the import route
+async function importCsv(csv: string) {
+  const plan = planProductImport(csv, await catalogue());
+  if (plan.errors.length > 0) return { plan };
+  await asCaller(db, admin, (tx) =>
+    tx.query("select import_products($1, $2)", [NAIVAS, JSON.stringify(importRows(plan))])
+  );
+  return { plan };
+}
+
+beforeAll(async () => {
+  db = await createLocalDatabase({ seed: true });
+  const adminId = await createUser(db, "naivas-admin@example.com");
+  await db.query("insert into profiles (id, role, supermarket_id) values ($1, 'store_admin', $2)", [adminId, NAIVAS]);
+  admin = { role: "authenticated", userId: adminId };
+}, 120_000);
+
+afterAll(() => db.close());
+
+describe("product import", () => {
+  it("moves stock by the edit made to the export, keeping sales made since", async () => {
+    const exported = productsToCsv(await catalogue());
+    const [flour, oil] = [await stock(MAIZE_FLOUR), await stock(COOKING_OIL)];
+    // Sold while the spreadsheet was being edited
+    await db.query("update products set stock = stock - 3 where id = $1", [MAIZE_FLOUR]);
+
+    const { plan } = await importCsv(editStock(exported, { [MAIZE_FLOUR]: flour + 10, [COOKING_OIL]: oil }));
+
+    expect(plan.errors).toEqual([]);
+    expect(plan.updates).toMatchObject([{ id: MAIZE_FLOUR, changes: { stock_delta: 10 } }]);
+    expect(await stock(MAIZE_FLOUR)).toBe(flour - 3 + 10);
+    expect(await stock(COOKING_OIL)).toBe(oil);
+  });
+
+  it("refuses to take off more stock than is left", async () => {
+    const exported = productsToCsv(await catalogue());
+    const oil = await stock(COOKING_OIL);
+    await db.query("update products set stock = 1 where id = $1", [COOKING_OIL]);
+
+    const { plan } = await importCsv(editStock(exported, { [COOKING_OIL]: oil - 5 }));
+
+    expect(plan.errors).toEqual([{ row: expect.any(Number), errors: { stock: "Only 1 left, cannot take off 5" } }]);
+    expect(await stock(COOKING_OIL)).toBe(1);
+  });
+
+  it("escapes cells a spreadsheet would run as formulas, and reads them back unchanged", async () => {
+    await db.query(
+      "insert into products (supermarket_id, name, description, price, stock) values ($1, '=HYPERLINK(\"http://evil.example\")', '-20% off', 99, 4)",
+      [NAIVAS]
+    );
+
+    const exported = productsToCsv(await catalogue());
+    const { plan } = await importCsv(exported);
+
+    expect(exported).toContain(`,"'=HYPERLINK(""http://evil.example"")",99,4,4,`);
+    expect(exported).toContain(`,'-20% off,`);
+    expect(plan).toMatchObject({ creates: [], updates: [], errors: [] });
+  });
+
+  it("does not let update rows overwrite stock", async () => {
+    await expect(
+      asCaller(db, admin, (tx) =>
+        tx.query("select import_products($1, $2)", [NAIVAS, JSON.stringify([{ id: MAIZE_FLOUR, stock: 0 }])])
+      )
+    ).rejects.toThrow(`import_products: update ${MAIZE_FLOUR} sets stock; send stock_delta`);
+  });
+});
@@ -0,0 +1,267 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { POST as refundOrder } from "@/app/api/admin/orders/[id]/refund/route";
+import { settleRefund } from "@/lib/refunds";
+import { fakeDb } from "./helpers/fakeSupabase";
+import { paystackStub } from "./helpers/paystackStub";
+import { deliver, recordedEvent } from "./helpers/paystackWebhook";
+import { seedOrder, stockOf } from "./helpers/seed";
+
+const ADMIN_TOKEN = "store-admin-token";
+
+// A paid order (Sugar 250 x1, Milk 100 x2: KES 450) and an admin of its store
+function seedPaidOrder() {
+  const seeded = seedOrder({ status: "paid" });
+  fakeDb.find("payment_attempts", { reference: seeded.reference })!.status = "success";
+  paystackStub.charge(seeded.reference, seeded.amount);
+  fakeDb.signIn(ADMIN_TOKEN, { id: "admin-1" });
+  fakeDb.insert("profiles", { id: "admin-1", role: "store_admin", supermarket_id: seeded.supermarket.id });
+  const [sugar, milk] = seeded.products;
+  return { ...seeded, sugar, milk };
+}
+
+async function requestRefund(orderId: string, body: unknown, token = ADMIN_TOKEN) {
+  const res = await refundOrder(
+    new Request(`http://localhost/api/admin/orders/${orderId}/refund`, {
+      method: "POST",
+      headers: { authorization: `Bearer ${token}`, "content-type": "application/json" },
+      body: JSON.stringify(body),
+    }),
+    { params: Promise.resolve({ id: orderId }) }
+  );
+  return { status: res.status, body: (await res.json()) as { refund?: Record<string, unknown>; error?: string } };
+}
+
+// Paystack reporting the outcome of the refund it queued
+function refundWebhook(status: "processed" | "failed", refund: Record<string, unknown>) {
+  return deliver(
+    recordedEvent(`refund.${status}`, {
+      id: refund.paystack_refund_id,
+      transaction_reference: refund.transaction_reference,
+      amount: refund.amount,
+    })
+  );
+}
+
+function completeRefundCalls(status: string) {
+  return fakeDb.rpcCalls.filter((c) => c.fn === "complete_refund" && c.args.p_status === status);
+}
+
+function orderStatus(orderId: string) {
+  return fakeDb.find("orders", { id: orderId })?.status;
+}
+
+beforeEach(() => {
+  fakeDb.reset();
+  paystackStub.reset();
+});
+
+describe("POST /api/admin/orders/[id]/refund", () => {
+  it("refunds a whole order and restocks it once Paystack has processed the refund", async () => {
+    const { order, reference, amount, sugar, milk } = seedPaidOrder();
+
+    const res = await requestRefund(order.id, {});
+
+    expect(res.status).toBe(202);
+    expect(res.body.refund).toMatchObject({
+      order_id: order.id,
+      transaction_reference: reference,
+      amount,
+      status: "pending",
+      items: [
+        { product_id: sugar.id, quantity: 1 },
+        { product_id: milk.id, quantity: 2 },
+      ],
+    });
+    expect(paystackStub.refundRequests).toEqual([{ transaction: reference, amount }]);
+    // Nothing goes back on the shelf until Paystack confirms
+    expect(stockOf(sugar.id)).toBe(10);
+
+    await refundWebhook("processed", res.body.refund!);
+
+    expect(stockOf(sugar.id)).toBe(11);
+    expect(stockOf(milk.id)).toBe(12);
+    expect(orderStatus(order.id)).toBe("refunded");
+    expect(fakeDb.find("refunds", { id: res.body.refund!.id })?.status).toBe("processed");
+    expect(completeRefundCalls("processed")).toHaveLength(1);
+  });
+
+  it("restocks only once when refund.processed is delivered again", async () => {
+    const { order, sugar } = seedPaidOrder();
+    const { body } = await requestRefund(order.id, {});
+
+    await refundWebhook("processed", body.refund!);
+    const duplicate = await refundWebhook("processed", body.refund!);
+    // A retried delivery gets past the ledger; complete_refund still applies it once
+    fakeDb.find("payment_events", { event: "refund.processed" })!.outcome = "error";
+    const retried = await refundWebhook("processed", body.refund!);
+    const direct = await settleRefund(
+      { id: body.refund!.paystack_refund_id as number },
+      "processed",
+      "system:paystack-webhook"
+    );
+
+    expect(duplicate.body).toEqual({ status: "duplicate" });
+    expect(retried.body).toEqual({ status: "ok" });
+    expect(direct).toEqual({ settled: false, reason: "no pending refund matches" });
+    expect(stockOf(sugar.id)).toBe(11);
+    expect(completeRefundCalls("processed")).toHaveLength(1);
+  });
+
+  it("refunds part of the amount without restocking", async () => {
+    const { order, reference, sugar, milk } = seedPaidOrder();
+
+    const res = await requestRefund(order.id, { amount: 100, reason: "Milk was warm" });
+    await refundWebhook("processed", res.body.refund!);
+
+    expect(res.status).toBe(202);
+    expect(res.body.refund).toMatchObject({ amount: 10000, items: [], reason: "Milk was warm" });
+    expect(paystackStub.refundRequests).toEqual([{ transaction: reference, amount: 10000, merchant_note: "Milk was warm" }]);
+    expect(stockOf(sugar.id)).toBe(10);
+    expect(stockOf(milk.id)).toBe(10);
+    expect(orderStatus(order.id)).toBe("paid");
+  });
+
+  it("refunds and restocks individual lines", async () => {
+    const { order, sugar, milk } = seedPaidOrder();
+
+    const res = await requestRefund(order.id, { items: [{ product_id: milk.id, quantity: 1 }] });
+    await refundWebhook("processed", res.body.refund!);
+
+    expect(res.status).toBe(202);
+    expect(res.body.refund).toMatchObject({ amount: 10000, items: [{ product_id: milk.id, quantity: 1 }] });
+    expect(stockOf(milk.id)).toBe(11);
+    expect(stockOf(sugar.id)).toBe(10);
+    expect(orderStatus(order.id)).toBe("paid");
+
+    // The rest of the order can still be refunded in full
+    const rest = await requestRefund(order.id, {});
+    await refundWebhook("processed", rest.body.refund!);
+
+    expect(rest.body.refund).toMatchObject({
+      amount: 35000,
+      items: [
+        { product_id: sugar.id, quantity: 1 },
+        { product_id: milk.id, quantity: 1 },
+      ],
+    });
+    expect(stockOf(milk.id)).toBe(12);
+    expect(stockOf(sugar.id)).toBe(11);
+    expect(orderStatus(order.id)).toBe("refunded");
+  });
+
+  it("refuses to refund more than was paid", async () => {
+    const { order, sugar, milk } = seedPaidOrder();
+
+    const tooMuch = await requestRefund(order.id, { amount: 451 });
+    const pending = await requestRefund(order.id, { amount: 400 });
+    // Pending refunds count against what is left
+    const overPending = await requestRefund(order.id, { amount: 100 });
+    const tooMany = await requestRefund(order.id, { items: [{ product_id: milk.id, quantity: 3 }] });
+    const notInOrder = await requestRefund(order.id, { items: [{ product_id: "not-in-order", quantity: 1 }] });
+
+    expect(tooMuch).toEqual({ status: 409, body: { error: "Only KES 450 is left to refund" } });
+    expect(pending.status).toBe(202);
+    expect(overPending).toEqual({ status: 409, body: { error: "Only KES 50 is left to refund" } });
+    expect(tooMany).toEqual({ status: 400, body: { error: `Can refund at most 2 of product ${milk.id}` } });
+    expect(notInOrder).toEqual({ status: 400, body: { error: "Product not-in-order is not in this order" } });
+    expect(paystackStub.refundRequests).toHaveLength(1);
+    expect(stockOf(sugar.id)).toBe(10);
+  });
+
+  it("counts repeated lines for a product together", async () => {
+    const { order, milk } = seedPaidOrder();
+
+    const doubled = await requestRefund(order.id, {
+      items: [
+        { product_id: milk.id, quantity: 2 },
+        { product_id: milk.id, quantity: 2 },
+      ],
+    });
+    const split = await requestRefund(order.id, {
+      items: [
+        { product_id: milk.id, quantity: 1 },
+        { product_id: milk.id, quantity: 1 },
+      ],
+    });
+    await refundWebhook("processed", split.body.refund!);
+
+    expect(doubled).toEqual({ status: 400, body: { error: `Can refund at most 2 of product ${milk.id}` } });
+    expect(split.status).toBe(202);
+    expect(split.body.refund).toMatchObject({ amount: 20000, items: [{ product_id: milk.id, quantity: 2 }] });
+    expect(stockOf(milk.id)).toBe(12);
+  });
+
+  it("rejects malformed items", async () => {
+    const { order, milk } = seedPaidOrder();
+
+    const nullItem = await requestRefund(order.id, { items: [null] });
+    const noQuantity = await requestRefund(order.id, { items: [{ product_id: milk.id }] });
+    const negative = await requestRefund(order.id, { items: [{ product_id: milk.id, quantity: -1 }] });
+
+    expect(nullItem).toEqual({ status: 400, body: { error: "Each item needs a product_id and a quantity" } });
+    expect(noQuantity).toEqual({ status: 400, body: { error: "Each item needs a product_id and a quantity" } });
+    expect(negative).toEqual({
+      status: 400,
+      body: { error: `Quantity of product ${milk.id} must be a positive whole number` },
+    });
+    expect(paystackStub.refundRequests).toHaveLength(0);
+  });
+
+  it("refuses a second refund of lines already refunded", async () => {
+    const { order, milk } = seedPaidOrder();
+
+    await requestRefund(order.id, { items: [{ product_id: milk.id, quantity: 2 }] });
+    const again = await requestRefund(order.id, { items: [{ product_id: milk.id, quantity: 1 }] });
+
+    expect(again).toEqual({ status: 400, body: { error: `Can refund at most 0 of product ${milk.id}` } });
+  });
+
+  it("does not restock a refund Paystack reports as failed, and frees its amount again", async () => {
+    const { order, sugar } = seedPaidOrder();
+    const { body } = await requestRefund(order.id, {});
+
+    await refundWebhook("failed", body.refund!);
+
+    expect(fakeDb.find("refunds", { id: body.refund!.id })?.status).toBe("failed");
+    expect(stockOf(sugar.id)).toBe(10);
+    expect(orderStatus(order.id)).toBe("paid");
+    expect(completeRefundCalls("failed")).toHaveLength(1);
+    expect(completeRefundCalls("processed")).toHaveLength(0);
+
+    const retry = await requestRefund(order.id, {});
+    expect(retry.status).toBe(202);
+  });
+
+  it("marks the refund failed when Paystack refuses it", async () => {
+    const { order } = seedPaidOrder();
+    paystackStub.refuseRefunds = "Transaction has been fully reversed";
+
+    const res = await requestRefund(order.id, {});
+
+    expect(res).toEqual({ status: 502, body: { error: "Transaction has been fully reversed" } });
+    expect(fakeDb.rows("refunds")).toMatchObject([{ status: "failed" }]);
+  });
+
+  it("only refunds paid orders", async () => {
+    const { order } = seedPaidOrder();
+    fakeDb.find("orders", { id: order.id })!.status = "pending";
+
+    const res = await requestRefund(order.id, {});
+
+    expect(res).toEqual({ status: 409, body: { error: "Order is pending and cannot be refunded" } });
+    expect(paystackStub.refundRequests).toHaveLength(0);
+  });
+
+  it("only lets admins of the order's supermarket refund it", async () => {
+    const { order } = seedPaidOrder();
+    fakeDb.signIn("other-admin-token", { id: "admin-2" });
+    fakeDb.insert("profiles", { id: "admin-2", role: "store_admin", supermarket_id: "another-store" });
+    fakeDb.signIn("shopper-token", { id: "shopper-1" });
+    fakeDb.insert("profiles", { id: "shopper-1", role: "shopper", supermarket_id: null });
+
+    expect((await requestRefund(order.id, {}, "other-admin-token")).status).toBe(403);
+    expect((await requestRefund(order.id, {}, "shopper-token")).status).toBe(403);
+    expect((await requestRefund(order.id, {}, "expired-token")).status).toBe(401);
+    expect(paystackStub.refundRequests).toHaveLength(0);
+  });
+});
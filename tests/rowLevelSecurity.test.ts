@@ -0,0 +1,179 @@
+import { readFileSync, readdirSync } from "fs";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { PGlite } from "@electric-sql/pglite";
+import { asCaller, createLocalDatabase, createUser, type Caller } from "./helpers/localPostgres";
+
+// Supermarkets from supabase/seed.sql
+const NAIVAS = "11111111-1111-4111-8111-111111111111";
+const CARREFOUR = "22222222-2222-4222-8222-222222222222";
+const MAIZE_FLOUR = "a0000000-0000-4000-8000-000000000001";
+const RICE = "b0000000-0000-4000-8000-000000000001";
+
+let db: PGlite;
+const users: Record<"alice" | "bob" | "naivasAdmin" | "superAdmin", string> = {
+  alice: "",
+  bob: "",
+  naivasAdmin: "",
+  superAdmin: "",
+};
+const orders: Record<"aliceNaivas" | "aliceCarrefour" | "bobNaivas", string> = {
+  aliceNaivas: "",
+  aliceCarrefour: "",
+  bobNaivas: "",
+};
+
+const as = {
+  anon: { role: "anon" } as Caller,
+  user: (id: string): Caller => ({ role: "authenticated", userId: id }),
+};
+
+async function seedOrder(userId: string, supermarketId: string, productId: string) {
+  const { rows } = await db.query<{ id: string }>(
+    "insert into orders (supermarket_id, user_id, total_amount, status) values ($1, $2, 180, 'paid') returning id",
+    [supermarketId, userId]
+  );
+  await db.query("insert into order_items (order_id, product_id, quantity, price) values ($1, $2, 1, 180)", [
+    rows[0].id,
+    productId,
+  ]);
+  return rows[0].id;
+}
+
+async function visibleOrderIds(caller: Caller) {
+  return asCaller(db, caller, async (tx) => {
+    const { rows } = await tx.query<{ id: string }>("select id from orders");
+    return rows.map((r) => r.id).sort();
+  });
+}
+
+// Rows a caller's statement changed: 0 when policies hide every row,
+// "refused" when the API role has no grant for it at all
+async function rowsChanged(caller: Caller, sql: string, params: unknown[] = []) {
+  try {
+    return await asCaller(db, caller, async (tx) => (await tx.query(sql, params)).affectedRows ?? 0);
+  } catch (err) {
+    if (/permission denied/.test((err as Error).message)) return "refused";
+    throw err;
+  }
+}
+
+async function orderStatus(orderId: string) {
+  const { rows } = await db.query<{ status: string }>("select status from orders where id = $1", [orderId]);
+  return rows[0]?.status;
+}
+
+beforeAll(async () => {
+  db = await createLocalDatabase({ seed: true });
+  for (const name of Object.keys(users) as (keyof typeof users)[]) {
+    users[name] = await createUser(db, `${name}@example.com`);
+  }
+  await db.query(
+    `insert into profiles (id, role, supermarket_id) values
+       ($1, 'shopper', null), ($2, 'shopper', null), ($3, 'store_admin', $5), ($4, 'super_admin', null)`,
+    [users.alice, users.bob, users.naivasAdmin, users.superAdmin, NAIVAS]
+  );
+  orders.aliceNaivas = await seedOrder(users.alice, NAIVAS, MAIZE_FLOUR);
+  orders.aliceCarrefour = await seedOrder(users.alice, CARREFOUR, RICE);
+  orders.bobNaivas = await seedOrder(users.bob, NAIVAS, MAIZE_FLOUR);
+}, 120_000);
+
+afterAll(() => db.close());
+
+describe("orders row level security", () => {
+  it("shows shoppers only their own orders", async () => {
+    expect(await visibleOrderIds(as.user(users.alice))).toEqual([orders.aliceNaivas, orders.aliceCarrefour].sort());
+    expect(await visibleOrderIds(as.user(users.bob))).toEqual([orders.bobNaivas]);
+  });
+
+  it("shows order items only with their order", async () => {
+    const items = await asCaller(db, as.user(users.bob), (tx) => tx.query<{ order_id: string }>("select order_id from order_items"));
+    expect(items.rows.map((r) => r.order_id)).toEqual([orders.bobNaivas]);
+  });
+
+  it("shows anonymous callers no orders", async () => {
+    expect(await visibleOrderIds(as.anon)).toEqual([]);
+  });
+
+  it("shows store admins only their supermarket's orders", async () => {
+    expect(await visibleOrderIds(as.user(users.naivasAdmin))).toEqual([orders.aliceNaivas, orders.bobNaivas].sort());
+  });
+
+  it("shows super admins every order", async () => {
+    expect(await visibleOrderIds(as.user(users.superAdmin))).toEqual(Object.values(orders).sort());
+  });
+
+  it("does not let shoppers update or delete their orders", async () => {
+    const alice = as.user(users.alice);
+
+    expect(await rowsChanged(alice, "update orders set status = 'delivered' where id = $1", [orders.aliceNaivas])).toBe(0);
+    expect(await rowsChanged(alice, "delete from orders where id = $1", [orders.aliceNaivas])).toBe("refused");
+    expect(await rowsChanged(alice, "update order_items set price = 0 where order_id = $1", [orders.aliceNaivas])).toBe(0);
+    expect(await rowsChanged(alice, "delete from order_items where order_id = $1", [orders.aliceNaivas])).toBe(0);
+    expect(await orderStatus(orders.aliceNaivas)).toBe("paid");
+  });
+
+  it("does not let store admins update or delete their supermarket's orders", async () => {
+    const admin = as.user(users.naivasAdmin);
+
+    expect(await rowsChanged(admin, "update orders set status = 'delivered' where supermarket_id = $1", [NAIVAS])).toBe(0);
+    expect(await rowsChanged(admin, "delete from orders where supermarket_id = $1", [NAIVAS])).toBe("refused");
+    expect(await rowsChanged(admin, "delete from order_items")).toBe(0);
+    expect(await orderStatus(orders.bobNaivas)).toBe("paid");
+    expect(await visibleOrderIds(admin)).toEqual([orders.aliceNaivas, orders.bobNaivas].sort());
+  });
+
+  it("does not let clients insert orders directly", async () => {
+    await expect(
+      asCaller(db, as.user(users.alice), (tx) =>
+        tx.query("insert into orders (supermarket_id, user_id, total_amount, status) values ($1, $2, 0, 'paid')", [
+          NAIVAS,
+          users.alice,
+        ])
+      )
+    ).rejects.toThrow(/row-level security/);
+  });
+
+  it("does not let shoppers promote themselves", async () => {
+    const updated = await rowsChanged(as.user(users.alice), "update profiles set role = 'super_admin' where id = $1", [
+      users.alice,
+    ]);
+    const { rows } = await db.query<{ role: string }>("select role from profiles where id = $1", [users.alice]);
+
+    expect(updated).toBe(0);
+    expect(rows[0].role).toBe("shopper");
+  });
+
+  it("keeps the payment ledger away from clients", async () => {
+    await db.query(
+      "insert into payment_events (event_key, event, reference, order_id, payload) values ('charge.success:1', 'charge.success', $1, $2, '{}')",
+      [orders.aliceNaivas, orders.aliceNaivas]
+    );
+    const seen = await asCaller(db, as.user(users.alice), (tx) => tx.query("select * from payment_events"));
+    expect(seen.rows).toEqual([]);
+  });
+});
+
+describe("realtime migrations", () => {
+  it("publish the live tables once each, however often they run", async () => {
+    const fresh = await createLocalDatabase();
+    // As if the tables had been toggled off in the dashboard
+    const published = await fresh.query<{ tablename: string }>(
+      "select tablename from pg_publication_tables where pubname = 'supabase_realtime'"
+    );
+    for (const { tablename } of published.rows) {
+      await fresh.exec(`alter publication supabase_realtime drop table public.${tablename}`);
+    }
+
+    const migrations = new URL("../supabase/migrations/", import.meta.url);
+    const realtime = readdirSync(migrations).filter((file) => file.includes("_realtime_"));
+    for (const file of [...realtime, ...realtime]) {
+      await fresh.exec(readFileSync(new URL(file, migrations), "utf8"));
+    }
+
+    const { rows } = await fresh.query<{ tablename: string }>(
+      "select tablename from pg_publication_tables where pubname = 'supabase_realtime' order by tablename"
+    );
+    expect(rows.map((r) => r.tablename)).toEqual(["notifications", "order_items", "orders", "product_requests", "products"]);
+    await fresh.close();
+  }, 120_000);
+});
@@ -0,0 +1,31 @@
+// tests/setup.ts
+// Runs before every test file: test credentials, the local Paystack stand-in,
+// and the in-memory database behind every Supabase client factory.
+import { afterAll, vi } from "vitest";
+import { paystackStub } from "./helpers/paystackStub";
+
+process.env.NEXT_PUBLIC_SUPABASE_URL = "http://127.0.0.1:54321";
+process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY = "anon-test-key";
+process.env.SUPABASE_SERVICE_ROLE_KEY = "service-test-key";
+process.env.PAYSTACK_SECRET_KEY = "sk_test_snapcart";
+process.env.PAYSTACK_CURRENCY = "KES";
+
+await paystackStub.listen();
+process.env.PAYSTACK_BASE_URL = paystackStub.url;
+afterAll(() => paystackStub.close());
+
+// The real module throws outside a React Server Components build
+vi.mock("server-only", () => ({}));
+
+vi.mock("@/lib/supabase/service", async () => {
+  const { fakeDb } = await import("./helpers/fakeSupabase");
+  return { createServiceSupabase: () => fakeDb.client };
+});
+
+vi.mock("@/lib/supabase/server", async () => {
+  const { fakeDb } = await import("./helpers/fakeSupabase");
+  return {
+    createServerSupabase: async () => fakeDb.client,
+    createTokenSupabase: () => fakeDb.client,
+  };
+});